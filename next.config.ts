@@ -9,7 +9,7 @@ const remotePatternsConfig: ImageConfigComplete['remotePatterns'] = [
     port: '',
     pathname: '/**',
   },
-  // Other static patterns can go here if needed
+  // Add hosts here only when next/image has to load from them
 ];
 
 const supabaseEnvUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
@@ -39,33 +39,8 @@ if (supabaseEnvUrl && (supabaseEnvUrl.startsWith('https://') || supabaseEnvUrl.s
     );
 }
 
-// Add the general wildcard patterns
-remotePatternsConfig.push(
-  {
-    protocol: 'https',
-    hostname: '*.*', // Allow all OTHER HTTPS image sources
-    port: '',
-    pathname: '/**',
-  },
-  {
-    protocol: 'http',
-    hostname: '*.*', // Allow all HTTP image sources (use with caution)
-    port: '',
-    pathname: '/**',
-  },
-  { 
-    protocol: 'https',
-    hostname: '*', 
-    port: '',
-    pathname: '/**',
-  },
-  {
-    protocol: 'http',
-    hostname: '*',
-    port: '',
-    pathname: '/**',
-  }
-);
+// No wildcard patterns: imported images are copied to Supabase storage (rehostContentImagesAction),
+// and images in post content are plain <img> tags that don't go through the image optimizer.
 
 const nextConfig: NextConfig = {
   /* config options here */
@@ -6,4 +6,5 @@ import '@/ai/flows/suggest-tags.ts';
 import '@/ai/flows/suggest-titles.ts';
 import '@/ai/flows/suggest-image-alt-text.ts';
 import '@/ai/flows/suggest-related-articles.ts';
+import '@/ai/flows/moderate-comment.ts';
 
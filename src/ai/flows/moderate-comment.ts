@@ -0,0 +1,73 @@
+
+'use server';
+/**
+ * @fileOverview Classifies a reader comment as spam and/or abusive using AI.
+ *
+ * - moderateComment - A function that returns a moderation verdict for a comment.
+ * - ModerateCommentInput - The input type.
+ * - ModerateCommentOutput - The return type.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+
+const ModerateCommentInputSchema = z.object({
+  authorName: z.string().describe('The display name the commenter entered.'),
+  content: z.string().describe('The plain-text body of the comment.'),
+  postTitle: z.string().optional().describe('The title of the article being commented on, for context.'),
+});
+export type ModerateCommentInput = z.infer<typeof ModerateCommentInputSchema>;
+
+const ModerateCommentOutputSchema = z.object({
+  isSpam: z.boolean().describe('True if the comment is advertising, SEO link-building, scams, or otherwise unrelated bulk content.'),
+  isAbusive: z.boolean().describe('True if the comment contains harassment, hate speech, threats, or explicit content.'),
+  confidence: z.number().min(0).max(1).describe('Confidence in the verdict, from 0 to 1.'),
+  reason: z.string().describe('A short explanation of the verdict, under 100 characters.'),
+});
+export type ModerateCommentOutput = z.infer<typeof ModerateCommentOutputSchema>;
+
+export async function moderateComment(input: ModerateCommentInput): Promise<ModerateCommentOutput> {
+  return moderateCommentFlow(input);
+}
+
+const prompt = ai.definePrompt({
+  name: 'moderateCommentPrompt',
+  input: {schema: ModerateCommentInputSchema},
+  output: {schema: ModerateCommentOutputSchema},
+  prompt: `You are a careful comment moderator for a news blog.
+Decide whether the following reader comment is spam and whether it is abusive.
+Disagreement, criticism, and strong opinions are NOT abusive. Short or off-topic but genuine comments are NOT spam.
+Only flag content that a reasonable human moderator would remove.
+
+{{#if postTitle}}Article title: "{{postTitle}}"{{/if}}
+Commenter name: "{{authorName}}"
+Comment:
+{{{content}}}
+`,
+});
+
+const moderateCommentFlow = ai.defineFlow(
+  {
+    name: 'moderateCommentFlow',
+    inputSchema: ModerateCommentInputSchema,
+    outputSchema: ModerateCommentOutputSchema,
+  },
+  async (input): Promise<ModerateCommentOutput> => {
+    const notFlagged: ModerateCommentOutput = { isSpam: false, isAbusive: false, confidence: 0, reason: '' };
+    try {
+      const {output} = await prompt(input);
+      if (output) {
+        return output;
+      }
+      console.warn(
+        `[${new Date().toISOString()}] AI prompt 'moderateCommentPrompt' did not return structured output. Comment will not be flagged by AI.`
+      );
+      return notFlagged;
+    } catch (error: any) {
+      console.error(
+        `[${new Date().toISOString()}] Error calling 'moderateCommentPrompt' AI model. Error: ${error.message || JSON.stringify(error)}. Comment will not be flagged by AI.`
+      );
+      return notFlagged; // Fail open: the comment still goes to the manual moderation queue
+    }
+  }
+);
@@ -5,47 +5,62 @@ import { revalidatePath } from 'next/cache';
 import { redirect } from 'next/navigation';
 import * as postService from '@/lib/post-service';
 import * as settingsService from '@/lib/settings-service';
-import type { Post, SiteSettings } from '@/types';
+import * as commentService from '@/lib/comment-service';
+import * as revisionService from '@/lib/revision-service';
+import * as sessionService from '@/lib/session-service';
+import * as userService from '@/lib/user-service';
+import * as loginAttemptService from '@/lib/login-attempt-service';
+import * as auditService from '@/lib/audit-service';
+import * as siteRuleService from '@/lib/site-rule-service';
+import {
+  LOGIN_CHALLENGE_COOKIE_NAME,
+  LOGIN_CHALLENGE_MAX_AGE_SECONDS,
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE_SECONDS,
+  signLoginChallengeToken,
+  verifyLoginChallengeToken,
+} from '@/lib/session-token';
+import { buildOtpAuthUrl } from '@/lib/totp';
+import QRCode from 'qrcode';
+import { getCurrentSession, getCurrentUser } from '@/lib/auth';
+import {
+  canCreatePosts,
+  canDeletePost,
+  canEditPost,
+  canManageSettings,
+  canManageUsers,
+  canModerateComments,
+} from '@/lib/permissions';
+import { runCommentFilters } from '@/lib/comment-filters';
+import { getClientIpFromHeaders } from '@/lib/client-ip';
+import { getTrustedEmbedHosts, sanitizePostHtml } from '@/lib/html-sanitizer';
+import { isValidCspSource, parseCspSources } from '@/lib/csp';
+import { describeScrapeError, getScrapeFetchPolicies, isValidSelector, listContentImageUrls, parseSelectorList, replaceContentImageUrls, scrapeArticle, type ArticleMetadata, type ExtractionMethod, type ExtractionRule } from '@/lib/scraper';
+import { isScraperHookName } from '@/lib/scraper-hooks';
+import { fetchWithPolicy } from '@/lib/safe-fetch';
+import type { Comment, LoginAttemptOutcome, Post, PostRevision, ScrapeConfidence, ScraperSiteRule, SiteSettings, User } from '@/types';
 import * as z from 'zod';
-import { cookies } from 'next/headers';
+import { cookies, headers } from 'next/headers';
+import { createHash } from 'crypto';
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient, isValidHttpUrl } from '@/lib/supabase-admin';
 
 const MAX_THUMBNAIL_OR_LOGO_SIZE = 5 * 1024 * 1024; // 5MB for thumbnails and logos
-const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/svg+xml'];
+const ALLOWED_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif', 'image/svg+xml']; // Covers every type the scraper downloads
 const POST_THUMBNAIL_BUCKET_NAME = 'post-thumbnails';
 const SITE_ASSETS_BUCKET_NAME = 'site-assets'; // For site logo, etc.
-
-// Helper function to validate HTTP/HTTPS URL format
-function isValidHttpUrl(string: string | undefined): boolean {
-  if (!string) return false;
-  let url;
-  try {
-    url = new URL(string);
-  } catch (_) {
-    return false;
-  }
-  return url.protocol === "http:" || url.protocol === "https:";
-}
-
-// Helper function to create a Supabase admin client (uses service_role key)
-function getSupabaseAdminClient(): SupabaseClient {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!supabaseUrl || !isValidHttpUrl(supabaseUrl)) {
-    throw new Error(`Invalid Supabase URL format: "${supabaseUrl}". Please check NEXT_PUBLIC_SUPABASE_URL.`);
-  }
-  if (!supabaseServiceRoleKey || supabaseServiceRoleKey.length < 50) { // Basic length check
-    throw new Error(`Invalid or missing Supabase Service Role Key (SUPABASE_SERVICE_ROLE_KEY). Please check environment variables.`);
-  }
-  return createClient(supabaseUrl, supabaseServiceRoleKey, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-      detectSessionInUrl: false
-    }
-  });
-}
+const POST_IMAGES_BUCKET_NAME = 'post-images'; // Images inside post content, copied from imported articles
+const MAX_REHOSTED_IMAGES = 40; // Per import, so a gallery page can't tie up the action for minutes
+const REHOSTED_IMAGES_FOLDER = 'content-images'; // Named by content hash, so each image is stored once
+// The only types copied from imported articles, with the extension they are stored under. SVG is left out:
+// it can carry scripts, and a third-party SVG in the public bucket would run them on our storage origin.
+const REHOSTED_IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/avif': 'avif',
+};
 
 // Helper function to get the public Supabase client (uses anon key)
 function getSupabasePublicClient(): SupabaseClient {
@@ -72,11 +87,147 @@ const postTextFormSchema = z.object({
     if (Array.isArray(val)) return val.map(tag => String(tag).trim().toLowerCase()).filter(tag => tag.length > 0);
     return [];
   }, z.array(z.string()).optional().default([])),
+  // Optional overrides for search results and share cards; blank means "use the title / excerpt"
+  seoTitle: z.preprocess(
+    (val) => (typeof val === 'string' ? val.trim() || undefined : undefined),
+    z.string().max(100, { message: 'SEO title must be 100 characters or less.' }).optional()
+  ),
+  seoDescription: z.preprocess(
+    (val) => (typeof val === 'string' ? val.trim() || undefined : undefined),
+    z.string().max(300, { message: 'SEO description must be 300 characters or less.' }).optional()
+  ),
+  // Credit for imported posts; usually pre-filled from the scraped page's metadata
+  sourceUrl: z.preprocess(
+    (val) => (typeof val === 'string' ? val.trim() || undefined : undefined),
+    z.string().max(2000, { message: 'Source URL must be 2000 characters or less.' })
+      .url({ message: 'Source URL must be a valid URL.' })
+      .refine(val => /^https?:\/\//i.test(val), { message: 'Source URL must start with http:// or https://.' })
+      .optional()
+  ),
+  sourceAuthor: z.preprocess(
+    (val) => (typeof val === 'string' ? val.trim() || undefined : undefined),
+    z.string().max(200, { message: 'Original author must be 200 characters or less.' }).optional()
+  ),
+  sourcePublishedAt: z.preprocess(
+    (val) => (typeof val === 'string' ? val.trim() || undefined : undefined),
+    z.string()
+      .refine(val => !isNaN(new Date(val).getTime()), { message: 'Original publication date is not a valid date.' })
+      .transform(val => new Date(val).toISOString())
+      .optional()
+  ),
 });
 
-export type PostServiceValues = Omit<Post, 'id' | 'date'>;
+export type PostServiceValues = Omit<Post, 'id' | 'date'> & { date?: string };
+
+const postPublishIntentSchema = z.enum(['draft', 'schedule', 'publish', 'archive']);
+type PostPublishIntent = z.infer<typeof postPublishIntentSchema>;
+
+type PostLifecycleFields = Pick<PostServiceValues, 'status' | 'publishAt' | 'date'>;
+
+// Maps the button the editor used to the stored lifecycle fields. `date` is the date readers see,
+// so it only changes when a post goes live (or is scheduled to), never on a plain edit.
+function resolvePostLifecycle(
+  intent: PostPublishIntent,
+  rawPublishAt: FormDataEntryValue | null,
+  existingPost?: Post
+): { fields: PostLifecycleFields } | { error: string } {
+  const now = new Date().toISOString();
+  switch (intent) {
+    case 'draft':
+      return { fields: { status: 'draft', publishAt: undefined, date: existingPost?.date } };
+    case 'schedule': {
+      const publishAt = typeof rawPublishAt === 'string' && rawPublishAt ? new Date(rawPublishAt) : null;
+      if (!publishAt || isNaN(publishAt.getTime())) {
+        return { error: 'Choose a valid date and time to schedule the post for.' };
+      }
+      if (publishAt.getTime() <= Date.now()) {
+        return { error: 'The scheduled time must be in the future. Use Publish to make the post live now.' };
+      }
+      return { fields: { status: 'scheduled', publishAt: publishAt.toISOString(), date: publishAt.toISOString() } };
+    }
+    case 'archive':
+      return { fields: { status: 'archived', publishAt: existingPost?.publishAt, date: existingPost?.date } };
+    case 'publish':
+    default:
+      if (existingPost && postService.isPostPubliclyVisible(existingPost)) {
+        // Already live: keep the original publication date
+        return { fields: { status: 'published', publishAt: existingPost.publishAt || existingPost.date, date: existingPost.date } };
+      }
+      return { fields: { status: 'published', publishAt: now, date: now } };
+  }
+}
+
+const NOT_SIGNED_IN_MESSAGE = 'You are not signed in, or your session has expired. Please sign in again.';
+
+// Resolves the signed-in user and checks a permission from lib/permissions. Every admin action
+// starts with this: the middleware only guards pages, and server actions can be called directly.
+async function authorize(
+  isAllowed: (user: User) => boolean,
+  deniedMessage: string
+): Promise<{ user: User } | { error: string }> {
+  const user = await getCurrentUser();
+  if (!user) return { error: NOT_SIGNED_IN_MESSAGE };
+  if (!isAllowed(user)) return { error: deniedMessage };
+  return { user };
+}
+
+// Post fields compared for the audit log; content only records its length
+const POST_AUDIT_FIELDS: (keyof Post)[] = ['title', 'slug', 'status', 'publishAt', 'tags', 'thumbnailUrl', 'seoTitle', 'seoDescription', 'sourceUrl', 'sourceAuthor', 'sourcePublishedAt', 'content'];
+const POST_AUDIT_OPTIONS = { lengthOnly: ['content'] as (keyof Post)[] };
+
+// Audit entries are best effort, like login attempts: a failure to write one is logged,
+// but never blocks or undoes the action it describes
+async function recordAudit(
+  actor: { id?: string; username: string },
+  entry: Omit<auditService.NewAuditEntry, 'actorId' | 'actorName' | 'ipAddress'>
+) {
+  try {
+    await auditService.recordAuditEntry({
+      ...entry,
+      actorId: actor.id,
+      actorName: actor.username,
+      ipAddress: await getClientIpAddress(),
+    });
+  } catch (error) {
+    console.error(`Failed to record audit entry for ${entry.action}:`, error);
+  }
+}
+
+// Stored content is sanitized on every save; pages sanitize again when rendering older rows
+async function sanitizePostContent(content: string): Promise<string> {
+  const settings = await settingsService.getSettings();
+  return sanitizePostHtml(content, getTrustedEmbedHosts(settings));
+}
 
-async function handleSupabaseFileUpload(file: File | undefined, bucketName: string): Promise<string | undefined> {
+function toRevisionSnapshot(post: Post, author: string, note?: string): Omit<PostRevision, 'id' | 'createdAt'> {
+  return {
+    postId: post.id,
+    title: post.title,
+    slug: post.slug,
+    content: post.content,
+    tags: post.tags || [],
+    status: post.status,
+    author,
+    note,
+  };
+}
+
+// Posts created before revisions existed have no history; keep their current version
+// before the first edit overwrites it.
+async function ensureBaselineRevision(post: Post) {
+  if (await revisionService.hasRevisions(post.id)) return;
+  await revisionService.addRevision(toRevisionSnapshot(post, 'system', 'Version before revision history was enabled'));
+}
+
+function parsePublishIntent(formData: FormData): PostPublishIntent {
+  const parsed = postPublishIntentSchema.safeParse(formData.get('intent') || 'publish');
+  return parsed.success ? parsed.data : 'publish';
+}
+
+// Uploads under a unique name, or at `objectPath` when given: content-addressed files (see
+// rehostContentImagesAction) are stored once, and an upload that finds the object already there
+// returns its URL instead.
+async function handleSupabaseFileUpload(file: File | undefined, bucketName: string, objectPath?: string): Promise<string | undefined> {
   if (!file) return undefined;
 
   if (file.size > MAX_THUMBNAIL_OR_LOGO_SIZE) {
@@ -93,15 +244,20 @@ async function handleSupabaseFileUpload(file: File | undefined, bucketName: stri
   const sanitizedBaseName = (file.name.replace(/\.[^/.]+$/, "") || 'untitled').replace(/[^a-zA-Z0-9_.-]/g, '_');
   const filename = `${sanitizedBaseName}-${uniqueSuffix}${extension}`;
 
-  const filePathInBucket = `public/${filename}`; // Always store in 'public' for easier URL generation
+  const filePathInBucket = objectPath ?? `public/${filename}`; // Always store in 'public' for easier URL generation
 
   const { data, error } = await supabaseAdmin.storage
     .from(bucketName)
     .upload(filePathInBucket, file, {
-      cacheControl: '3600', // Cache for 1 hour
-      upsert: false, // Don't upsert, always create new unique filename
+      cacheControl: objectPath ? '31536000' : '3600', // A fixed path only ever holds the same content; others cache for 1 hour
+      upsert: false, // Never overwrite: names are unique, and an existing fixed path is reused below
     });
 
+  const alreadyExists = error && (String((error as any).statusCode) === '409' || /already exists/i.test((error as any).message || ''));
+  if (error && objectPath && alreadyExists) {
+    return getSupabasePublicClient().storage.from(bucketName).getPublicUrl(objectPath).data.publicUrl;
+  }
+
   if (error) {
     console.error(`Supabase Storage Error (uploading to bucket: ${bucketName}):`, JSON.stringify(error, null, 2));
     let detailedErrorMessage = (error as any).message || 'An unknown error occurred during file upload.';
@@ -187,11 +343,21 @@ async function deleteSupabaseFile(fileUrl: string | undefined, bucketName?: stri
 
 
 export async function createPostAction(formData: FormData) {
+  const auth = await authorize(canCreatePosts, 'Your role does not allow creating posts.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, errors: null };
+  }
+
   const rawData = {
     title: formData.get('title'),
     slug: formData.get('slug'),
     content: formData.get('content'),
     tags: formData.get('tags'),
+    seoTitle: formData.get('seoTitle'),
+    seoDescription: formData.get('seoDescription'),
+    sourceUrl: formData.get('sourceUrl'),
+    sourceAuthor: formData.get('sourceAuthor'),
+    sourcePublishedAt: formData.get('sourcePublishedAt'),
   };
 
   const validation = postTextFormSchema.safeParse(rawData);
@@ -204,8 +370,14 @@ export async function createPostAction(formData: FormData) {
     };
   }
 
+  const lifecycle = resolvePostLifecycle(parsePublishIntent(formData), formData.get('publishAt'));
+  if ('error' in lifecycle) {
+    return { success: false, message: lifecycle.error, errors: { publishAt: [lifecycle.error] } };
+  }
+
   const thumbnailFile = formData.get('thumbnailFile') as File | undefined;
   let thumbnailUrl: string | undefined;
+  let createdPost: Post;
 
   try {
     if (thumbnailFile && thumbnailFile.size > 0) {
@@ -214,10 +386,14 @@ export async function createPostAction(formData: FormData) {
 
     const postData: PostServiceValues = {
       ...validation.data,
+      content: await sanitizePostContent(validation.data.content),
       tags: validation.data.tags || [],
       thumbnailUrl,
+      ...lifecycle.fields,
+      authorId: auth.user.id,
+      authorName: auth.user.displayName,
     };
-    await postService.addPost(postData);
+    createdPost = await postService.addPost(postData);
 
   } catch (error: any) {
     console.error('Failed to create post (in action):', error); 
@@ -242,6 +418,15 @@ export async function createPostAction(formData: FormData) {
     };
   }
 
+  await recordAudit(auth.user, {
+    action: 'post.create',
+    targetType: 'post',
+    targetId: createdPost.id,
+    targetLabel: createdPost.title,
+    summary: `Created as ${createdPost.status}`,
+    changes: auditService.diffForAudit(null, createdPost, POST_AUDIT_FIELDS, POST_AUDIT_OPTIONS),
+  });
+
   revalidatePath('/');
   revalidatePath('/admin/posts');
   revalidatePath('/admin/posts/new');
@@ -249,11 +434,21 @@ export async function createPostAction(formData: FormData) {
 }
 
 export async function updatePostAction(postId: string, formData: FormData) {
+  const auth = await authorize(canCreatePosts, 'Your role does not allow editing posts.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, errors: null };
+  }
+
   const rawData = {
     title: formData.get('title'),
     slug: formData.get('slug'),
     content: formData.get('content'),
     tags: formData.get('tags'),
+    seoTitle: formData.get('seoTitle'),
+    seoDescription: formData.get('seoDescription'),
+    sourceUrl: formData.get('sourceUrl'),
+    sourceAuthor: formData.get('sourceAuthor'),
+    sourcePublishedAt: formData.get('sourcePublishedAt'),
   };
 
   const validation = postTextFormSchema.safeParse(rawData);
@@ -275,6 +470,17 @@ export async function updatePostAction(postId: string, formData: FormData) {
     if (!existingPost) {
       return { success: false, message: 'Post not found.', errors: null };
     }
+    if (!canEditPost(auth.user, existingPost)) {
+      return { success: false, message: 'You can only edit your own posts.', errors: null };
+    }
+
+    const lifecycle = resolvePostLifecycle(parsePublishIntent(formData), formData.get('publishAt'), existingPost);
+    if ('error' in lifecycle) {
+      return { success: false, message: lifecycle.error, errors: { publishAt: [lifecycle.error] } };
+    }
+
+    // Fails the save rather than risk overwriting the only copy of the previous content
+    await ensureBaselineRevision(existingPost);
 
     let currentThumbnailUrl = existingPost.thumbnailUrl;
 
@@ -290,8 +496,10 @@ export async function updatePostAction(postId: string, formData: FormData) {
 
     const postData: PostServiceValues = {
       ...validation.data,
+      content: await sanitizePostContent(validation.data.content),
       tags: validation.data.tags || [],
       thumbnailUrl: finalThumbnailUrl,
+      ...lifecycle.fields,
     };
 
     const updatedPost = await postService.updatePost(postId, postData);
@@ -303,6 +511,21 @@ export async function updatePostAction(postId: string, formData: FormData) {
         errors: null,
       };
     }
+
+    try {
+      await revisionService.addRevision(toRevisionSnapshot(updatedPost, auth.user.displayName));
+    } catch (revisionError: any) {
+      // The post itself was saved; only the history entry is missing
+      console.error('Post updated, but its revision snapshot could not be stored:', revisionError.message || revisionError);
+    }
+
+    await recordAudit(auth.user, {
+      action: 'post.update',
+      targetType: 'post',
+      targetId: postId,
+      targetLabel: updatedPost.title,
+      changes: auditService.diffForAudit(existingPost, updatedPost, POST_AUDIT_FIELDS, POST_AUDIT_OPTIONS),
+    });
   } catch (error: any) {
     console.error('Failed to update post:', error); 
     let detailedErrorMessage = 'Could not update post.';
@@ -330,13 +553,102 @@ export async function updatePostAction(postId: string, formData: FormData) {
 }
 
 
+export async function restorePostRevisionAction(postId: string, revisionId: string) {
+  const auth = await authorize(canCreatePosts, 'Your role does not allow editing posts.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+
+  try {
+    const [existingPost, revision] = await Promise.all([
+      postService.getPostById(postId),
+      revisionService.getRevisionById(revisionId),
+    ]);
+    if (!existingPost) {
+      return { success: false, message: 'Post not found.' };
+    }
+    if (!canEditPost(auth.user, existingPost)) {
+      return { success: false, message: 'You can only edit your own posts.' };
+    }
+    if (!revision || revision.postId !== postId) {
+      return { success: false, message: 'That revision no longer exists for this post.' };
+    }
+
+    // Another post may have taken the old slug since; the post then keeps its current one
+    let slugTaken = false;
+    if (revision.slug !== existingPost.slug) {
+      const slugOwner = await postService.getPostBySlug(revision.slug, { includeUnpublished: true });
+      slugTaken = !!slugOwner && slugOwner.id !== postId;
+    }
+
+    await ensureBaselineRevision(existingPost);
+    // Status and thumbnail are left alone: restoring content should never publish or unpublish a post
+    const restoredPost = await postService.updatePost(postId, {
+      title: revision.title,
+      slug: slugTaken ? existingPost.slug : revision.slug,
+      content: await sanitizePostContent(revision.content), // Baseline revisions can predate the sanitizer
+      tags: revision.tags,
+    });
+    if (!restoredPost) {
+      return { success: false, message: 'Post not found or could not be updated.' };
+    }
+
+    const note = `Restored from revision of ${new Date(revision.createdAt).toLocaleString('en-US')}`;
+    await revisionService.addRevision(toRevisionSnapshot(restoredPost, auth.user.displayName, note));
+    await recordAudit(auth.user, {
+      action: 'post.restore_revision',
+      targetType: 'post',
+      targetId: postId,
+      targetLabel: restoredPost.title,
+      summary: note,
+      changes: auditService.diffForAudit(existingPost, restoredPost, POST_AUDIT_FIELDS, POST_AUDIT_OPTIONS),
+    });
+
+    revalidatePath('/');
+    revalidatePath('/admin/posts');
+    revalidatePath(`/admin/posts/edit/${postId}`);
+    revalidatePath(`/posts/${existingPost.slug}`);
+    revalidatePath(`/posts/${restoredPost.slug}`);
+
+    return {
+      success: true,
+      message: slugTaken
+        ? `Revision restored. Its slug "${revision.slug}" is now used by another post, so the current slug was kept.`
+        : 'Revision restored.',
+      post: restoredPost,
+      revisions: await revisionService.getRevisionsByPostId(postId),
+    };
+  } catch (error) {
+    console.error('Failed to restore post revision:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Could not restore the revision. Check server logs.',
+    };
+  }
+}
+
 export async function deletePostAction(postId: string) {
+  const auth = await authorize(canCreatePosts, 'Your role does not allow deleting posts.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+
   try {
     const postToDelete = await postService.getPostById(postId);
+    if (postToDelete && !canDeletePost(auth.user, postToDelete)) {
+      return { success: false, message: 'You can only delete your own posts.' };
+    }
     if (postToDelete?.thumbnailUrl) {
       await deleteSupabaseFile(postToDelete.thumbnailUrl, POST_THUMBNAIL_BUCKET_NAME);
     }
     await postService.deletePostById(postId);
+    await recordAudit(auth.user, {
+      action: 'post.delete',
+      targetType: 'post',
+      targetId: postId,
+      targetLabel: postToDelete?.title,
+      changes: postToDelete ? auditService.diffForAudit(postToDelete, null, POST_AUDIT_FIELDS, POST_AUDIT_OPTIONS) : [],
+    });
     revalidatePath('/');
     revalidatePath('/admin/posts');
     return { success: true, message: 'Post deleted successfully.' };
@@ -349,17 +661,234 @@ export async function deletePostAction(postId: string) {
   }
 }
 
+const commentFormSchema = z.object({
+  authorName: z.string().trim().min(2, { message: 'Name must be at least 2 characters long.' }).max(80, { message: 'Name must be 80 characters or less.' }),
+  authorEmail: z.string().trim().email({ message: 'Please enter a valid email address.' }).max(254).optional().or(z.literal('')),
+  content: z.string().trim().min(2, { message: 'Comment must be at least 2 characters long.' }).max(5000, { message: 'Comment must be 5000 characters or less.' }),
+});
+
+async function getClientIpAddress(): Promise<string | undefined> {
+  return getClientIpFromHeaders(await headers());
+}
+
+export async function submitCommentAction(postId: string, formData: FormData) {
+  const rawData = {
+    authorName: formData.get('authorName') ?? '',
+    authorEmail: formData.get('authorEmail') ?? '',
+    content: formData.get('content') ?? '',
+  };
+
+  const validation = commentFormSchema.safeParse(rawData);
+
+  if (!validation.success) {
+    return {
+      success: false,
+      message: 'Please correct the highlighted fields.',
+      errors: validation.error.flatten().fieldErrors,
+    };
+  }
+
+  const parentId = (formData.get('parentId') as string | null) || undefined;
+
+  try {
+    const post = await postService.getPostById(postId);
+    if (!post || !postService.isPostPubliclyVisible(post)) {
+      return { success: false, message: 'The post you are commenting on could not be found.', errors: null };
+    }
+
+    let placement: { parentId?: string; depth: number } = { depth: 0 };
+    if (parentId) {
+      const parent = await commentService.getCommentById(parentId);
+      if (!parent || parent.postId !== post.id || parent.status !== 'approved') {
+        return { success: false, message: 'The comment you are replying to is no longer available.', errors: null };
+      }
+      placement = commentService.getReplyPlacement(parent);
+    }
+
+    const settings = await settingsService.getSettings();
+    const verdict = await runCommentFilters({
+      authorName: validation.data.authorName,
+      authorEmail: validation.data.authorEmail || undefined,
+      content: validation.data.content,
+      postTitle: post.title,
+      ipAddress: await getClientIpAddress(),
+      honeypotValue: (formData.get('website') as string | null) || undefined,
+    }, settings);
+
+    await commentService.addComment({
+      postId: post.id,
+      authorName: validation.data.authorName,
+      authorEmail: validation.data.authorEmail || undefined,
+      content: validation.data.content,
+      ...verdict,
+      ...placement,
+    });
+
+    // Rejected comments get the same response as held ones, so spammers learn nothing about the filters.
+
+    revalidatePath('/admin/comments');
+    return {
+      success: true,
+      message: 'Your comment has been submitted and is awaiting moderation.',
+      errors: null,
+    };
+  } catch (error) {
+    console.error('Failed to submit comment:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Could not submit comment. Please try again later.',
+      errors: null,
+    };
+  }
+}
+
+export async function updateCommentStatusAction(commentId: string, status: Comment['status']) {
+  const auth = await authorize(canModerateComments, 'Your role does not allow moderating comments.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+  if (!['pending', 'approved', 'rejected'].includes(status)) {
+    return { success: false, message: `Invalid comment status "${status}".` };
+  }
+
+  try {
+    const previousComment = await commentService.getCommentById(commentId);
+    const updatedComment = await commentService.updateCommentStatus(commentId, status);
+    if (!updatedComment) {
+      return { success: false, message: 'Comment not found.' };
+    }
+    await recordAudit(auth.user, {
+      action: 'comment.status',
+      targetType: 'comment',
+      targetId: commentId,
+      targetLabel: `Comment by ${updatedComment.authorName}`,
+      changes: auditService.diffForAudit(previousComment ?? null, updatedComment, ['status']),
+    });
+
+    const post = await postService.getPostById(updatedComment.postId);
+    if (post) revalidatePath(`/posts/${post.slug}`);
+    revalidatePath('/admin/comments');
+    return { success: true, message: `Comment ${status}.` };
+  } catch (error) {
+    console.error('Failed to update comment status:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Could not update comment. Check server logs.'
+    };
+  }
+}
+
+export async function adminReplyToCommentAction(commentId: string, content: string) {
+  const auth = await authorize(canModerateComments, 'Your role does not allow replying to comments.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, reply: null };
+  }
+  const trimmedContent = (content || '').trim();
+  if (trimmedContent.length < 2 || trimmedContent.length > 5000) {
+    return { success: false, message: 'Reply must be between 2 and 5000 characters long.', reply: null };
+  }
+
+  try {
+    const parent = await commentService.getCommentById(commentId);
+    if (!parent) {
+      return { success: false, message: 'Comment not found.', reply: null };
+    }
+
+    // A reply under a hidden comment would be invisible, so replying implies approval.
+    if (parent.status !== 'approved') {
+      await commentService.updateCommentStatus(parent.id, 'approved');
+    }
+
+    const settings = await settingsService.getSettings();
+    const reply = await commentService.addComment({
+      postId: parent.postId,
+      authorName: settings.siteTitle || 'Admin', // Never the admin username, which may be an email address
+      content: trimmedContent,
+      status: 'approved',
+      isAdminReply: true,
+      ...commentService.getReplyPlacement(parent),
+    });
+
+    await recordAudit(auth.user, {
+      action: 'comment.reply',
+      targetType: 'comment',
+      targetId: commentId,
+      targetLabel: `Comment by ${parent.authorName}`,
+      summary: parent.status !== 'approved' ? 'Replied and approved the comment' : 'Replied to the comment',
+      changes: auditService.diffForAudit(null, { content: trimmedContent }, ['content']),
+    });
+
+    const post = await postService.getPostById(parent.postId);
+    if (post) revalidatePath(`/posts/${post.slug}`);
+    revalidatePath('/admin/comments');
+    return {
+      success: true,
+      message: 'Reply posted.',
+      reply: { ...reply, postSlug: post?.slug, postTitle: post?.title },
+    };
+  } catch (error) {
+    console.error('Failed to post admin reply:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Could not post reply. Check server logs.',
+      reply: null,
+    };
+  }
+}
+
+export async function deleteCommentAction(commentId: string) {
+  const auth = await authorize(canModerateComments, 'Your role does not allow deleting comments.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+
+  try {
+    const commentToDelete = await commentService.getCommentById(commentId);
+    await commentService.deleteCommentById(commentId);
+    await recordAudit(auth.user, {
+      action: 'comment.delete',
+      targetType: 'comment',
+      targetId: commentId,
+      targetLabel: commentToDelete ? `Comment by ${commentToDelete.authorName}` : undefined,
+      changes: commentToDelete ? auditService.diffForAudit(commentToDelete, null, ['authorName', 'content', 'status']) : [],
+    });
+
+    if (commentToDelete?.status === 'approved') {
+      const post = await postService.getPostById(commentToDelete.postId);
+      if (post) revalidatePath(`/posts/${post.slug}`);
+    }
+    revalidatePath('/admin/comments');
+    return { success: true, message: 'Comment deleted successfully.' };
+  } catch (error) {
+    console.error('Failed to delete comment:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Could not delete comment. Check server logs.'
+    };
+  }
+}
+
 // Server-side Zod schema for Site Settings
 const siteSettingsSchema = z.object({
   siteTitle: z.string().min(3, { message: 'Site title must be at least 3 characters long.' }).max(100),
   siteDescription: z.string().min(10, { message: 'Site description must be at least 10 characters long.' }).max(300),
   postsPerPage: z.coerce.number().int().min(1, { message: 'Must display at least 1 post per page.' }).max(50, { message: 'Cannot display more than 50 posts per page.' }),
-  adminUsername: z.string().max(50, {message: "Admin username must be 50 characters or less."}).optional().or(z.literal('')),
-  adminPassword: z.string().max(100, {message: "Admin password must be 100 characters or less."}).optional(),
   globalHeaderScriptsEnabled: z.preprocess((val) => val === 'on' || val === true, z.boolean().default(false)),
   globalHeaderScriptsCustomHtml: z.string().optional(),
   globalFooterScriptsEnabled: z.preprocess((val) => val === 'on' || val === true, z.boolean().default(false)),
   globalFooterScriptsCustomHtml: z.string().optional(),
+  commentBannedWords: z.string().max(10000, { message: 'Banned words list must be 10000 characters or less.' }).optional(),
+  commentMaxLinks: z.coerce.number().int().min(0, { message: 'Link limit cannot be negative.' }).max(50),
+  commentRateLimitPerHour: z.coerce.number().int().min(0, { message: 'Rate limit cannot be negative.' }).max(1000),
+  commentAiModerationEnabled: z.preprocess((val) => val === 'on' || val === true, z.boolean().default(false)),
+  feedFullContent: z.preprocess((val) => val === 'on' || val === true, z.boolean().default(false)),
+  robotsAllowIndexing: z.preprocess((val) => val === 'on' || val === true, z.boolean().default(false)),
+  robotsTxtCustomRules: z.string().max(5000, { message: 'robots.txt rules must be 5000 characters or less.' }).optional(),
+  trustedEmbedHosts: z.string().max(2000, { message: 'Trusted embed hosts must be 2000 characters or less.' }).optional(),
+  cspMode: z.enum(['enforce', 'report-only', 'off']).default('report-only'),
+  cspScriptSources: z.string().max(2000, { message: 'Script sources must be 2000 characters or less.' }).optional(),
+  scrapeAllowedDomains: z.string().max(5000, { message: 'Allowed domains must be 5000 characters or less.' }).optional(),
+  scrapeBlockedDomains: z.string().max(5000, { message: 'Blocked domains must be 5000 characters or less.' }).optional(),
   // siteLogoUrl is handled by file logic, not direct Zod validation of a URL field from form
 }).superRefine((data, ctx) => {
   if (data.globalHeaderScriptsEnabled && (!data.globalHeaderScriptsCustomHtml || data.globalHeaderScriptsCustomHtml.trim() === '')) {
@@ -376,20 +905,43 @@ const siteSettingsSchema = z.object({
       path: ['globalFooterScriptsCustomHtml'],
     });
   }
+  const invalidSources = parseCspSources(data.cspScriptSources).filter(source => !isValidCspSource(source));
+  if (invalidSources.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      message: `Not a valid script source: ${invalidSources.join(', ')}. Use hosts like https://cdn.example.com or *.example.com.`,
+      path: ['cspScriptSources'],
+    });
+  }
 });
 
 
 export async function updateSiteSettingsAction(formData: FormData) {
+  const auth = await authorize(canManageSettings, 'Only admins can change site settings.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, errors: null, newSiteLogoUrl: undefined };
+  }
+
   const rawData = {
     siteTitle: formData.get('siteTitle'),
     siteDescription: formData.get('siteDescription'),
     postsPerPage: formData.get('postsPerPage'),
-    adminUsername: formData.get('adminUsername'),
-    adminPassword: formData.get('adminPassword'),
     globalHeaderScriptsEnabled: formData.get('globalHeaderScriptsEnabled'),
     globalHeaderScriptsCustomHtml: formData.get('globalHeaderScriptsCustomHtml'),
     globalFooterScriptsEnabled: formData.get('globalFooterScriptsEnabled'),
     globalFooterScriptsCustomHtml: formData.get('globalFooterScriptsCustomHtml'),
+    commentBannedWords: formData.get('commentBannedWords'),
+    commentMaxLinks: formData.get('commentMaxLinks'),
+    commentRateLimitPerHour: formData.get('commentRateLimitPerHour'),
+    commentAiModerationEnabled: formData.get('commentAiModerationEnabled'),
+    feedFullContent: formData.get('feedFullContent'),
+    robotsAllowIndexing: formData.get('robotsAllowIndexing'),
+    robotsTxtCustomRules: formData.get('robotsTxtCustomRules'),
+    trustedEmbedHosts: formData.get('trustedEmbedHosts'),
+    cspMode: formData.get('cspMode') || undefined,
+    cspScriptSources: formData.get('cspScriptSources'),
+    scrapeAllowedDomains: formData.get('scrapeAllowedDomains'),
+    scrapeBlockedDomains: formData.get('scrapeBlockedDomains'),
   };
 
   const validation = siteSettingsSchema.safeParse(rawData);
@@ -405,44 +957,6 @@ export async function updateSiteSettingsAction(formData: FormData) {
   }
 
   const currentSettings = await settingsService.getSettings();
-  const formUsername = (validation.data.adminUsername || "").trim();
-  const formPassword = validation.data.adminPassword || ""; 
-
-  const credentialErrors: { adminUsername?: string[]; adminPassword?: string[] } = {};
-
-  if (formUsername) {
-    if (formUsername.length < 3) {
-        credentialErrors.adminUsername = ["Admin username must be at least 3 characters."];
-    }
-    const isNewUsername = !currentSettings.adminUsername;
-    const usernameChanged = formUsername !== currentSettings.adminUsername;
-
-    if (isNewUsername || usernameChanged) {
-      if (formPassword.length === 0) {
-        credentialErrors.adminPassword = ["A new password is required when setting or changing the username."];
-      } else if (formPassword.length < 6) {
-        credentialErrors.adminPassword = ["Admin password must be at least 6 characters."];
-      }
-    } else {
-      if (formPassword.length > 0 && formPassword.length < 6) {
-        credentialErrors.adminPassword = ["Admin password must be at least 6 characters."];
-      }
-    }
-  } else {
-    if (formPassword.length > 0) {
-      credentialErrors.adminUsername = ["Username cannot be empty if providing a password. To clear admin access, leave both username and password fields empty."];
-    }
-  }
-  
-  if (Object.keys(credentialErrors).length > 0) {
-    return {
-      success: false,
-      message: "Admin credentials validation failed.",
-      errors: credentialErrors,
-      newSiteLogoUrl: undefined,
-    };
-  }
-
   let finalSiteLogoUrl = currentSettings.siteLogoUrl;
   const newLogoFile = formData.get('logoFile') as File | undefined;
   const removeLogo = formData.get('removeLogo') === 'true';
@@ -470,27 +984,39 @@ export async function updateSiteSettingsAction(formData: FormData) {
       siteDescription: validation.data.siteDescription,
       postsPerPage: validation.data.postsPerPage,
       siteLogoUrl: finalSiteLogoUrl, // Use the determined logo URL
-      adminUsername: formUsername,
       globalHeaderScriptsEnabled: validation.data.globalHeaderScriptsEnabled,
       globalHeaderScriptsCustomHtml: validation.data.globalHeaderScriptsCustomHtml,
       globalFooterScriptsEnabled: validation.data.globalFooterScriptsEnabled,
       globalFooterScriptsCustomHtml: validation.data.globalFooterScriptsCustomHtml,
+      commentBannedWords: validation.data.commentBannedWords,
+      commentMaxLinks: validation.data.commentMaxLinks,
+      commentRateLimitPerHour: validation.data.commentRateLimitPerHour,
+      commentAiModerationEnabled: validation.data.commentAiModerationEnabled,
+      feedFullContent: validation.data.feedFullContent,
+      robotsAllowIndexing: validation.data.robotsAllowIndexing,
+      robotsTxtCustomRules: validation.data.robotsTxtCustomRules,
+      trustedEmbedHosts: validation.data.trustedEmbedHosts,
+      cspMode: validation.data.cspMode,
+      cspScriptSources: validation.data.cspScriptSources,
+      scrapeAllowedDomains: validation.data.scrapeAllowedDomains,
+      scrapeBlockedDomains: validation.data.scrapeBlockedDomains,
     };
 
-    if (formPassword.length > 0) {
-      settingsToUpdate.adminPassword = formPassword; 
-    } else if (!formUsername) {
-      settingsToUpdate.adminPassword = ""; 
-    } else if (formUsername && formUsername === currentSettings.adminUsername && currentSettings.adminPassword) {
-      // No password update, keep existing hashed if it was hashed
-    } else if (formUsername && (!currentSettings.adminPassword || formUsername !== currentSettings.adminUsername) && formPassword.length === 0) {
-       settingsToUpdate.adminPassword = ""; // Clearing password if username changed and no new pass
-    }
-
     await settingsService.updateSettings(settingsToUpdate);
+    await recordAudit(auth.user, {
+      action: 'settings.update',
+      targetType: 'settings',
+      targetLabel: 'Site settings',
+      // Injected scripts are kept in full: they are what an attacker with admin access would change
+      changes: auditService.diffForAudit(
+        currentSettings,
+        { ...currentSettings, ...settingsToUpdate },
+        Object.keys(settingsToUpdate) as (keyof SiteSettings)[],
+        { fullText: ['globalHeaderScriptsCustomHtml', 'globalFooterScriptsCustomHtml'] }
+      ),
+    });
     revalidatePath('/'); // Revalidate homepage (for site title/logo)
     revalidatePath('/admin/settings');
-    revalidatePath('/login'); // If admin creds changed
 
     return {
       success: true,
@@ -514,49 +1040,903 @@ export async function updateSiteSettingsAction(formData: FormData) {
   }
 }
 
-const SESSION_COOKIE_NAME = 'newstoday-adminsession';
+async function startAdminSession(username: string) {
+  const headersList = await headers();
+  const { token } = await sessionService.createSession(username, {
+    userAgent: headersList.get('user-agent'),
+    ipAddress: await getClientIpAddress(),
+  });
+  (await cookies()).set(SESSION_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    maxAge: SESSION_MAX_AGE_SECONDS,
+    path: '/',
+    sameSite: 'lax',
+  });
+}
+
+function formatRetryAfter(seconds: number): string {
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+type SettledLoginOutcome = Exclude<LoginAttemptOutcome, 'pending' | 'throttled'>;
+
+const LOGIN_AUDIT_SUMMARIES: Record<SettledLoginOutcome, string> = {
+  success: 'Signed in',
+  invalid_credentials: 'Wrong username or password',
+  invalid_two_factor: 'Wrong two-factor code',
+};
+
+// Settling a reserved attempt is best effort: a failure to write it is logged but doesn't block the
+// login flow (the attempt stays pending, which the throttle counts as a failure). Every outcome also
+// goes to the audit log; null withdraws the attempt without one (see loginAttemptService.settleLoginAttempt).
+async function settleLoginAttempt(
+  attemptId: string,
+  username: string,
+  outcome: SettledLoginOutcome | null,
+  details: { user?: User; summary?: string } = {}
+) {
+  try {
+    await loginAttemptService.settleLoginAttempt(attemptId, outcome);
+  } catch (error) {
+    console.error('Failed to record login attempt:', error);
+  }
+  if (!outcome) return;
+  await recordAudit({ id: details.user?.id, username: details.user?.username ?? username }, {
+    action: outcome === 'success' ? 'auth.login' : 'auth.login_failed',
+    targetType: 'session',
+    summary: details.summary ?? LOGIN_AUDIT_SUMMARIES[outcome],
+  });
+}
+
+type LoginState = {
+  message?: string;
+  success?: boolean;
+  retryAfterSeconds?: number;
+  twoFactorRequired?: boolean; // The password was right; the login page now asks for a second-factor code
+};
+
+type LoginClient = { ipAddress?: string; userAgent?: string | null };
+
+async function getLoginClient(): Promise<LoginClient> {
+  return {
+    ipAddress: await getClientIpAddress(),
+    userAgent: (await headers()).get('user-agent'),
+  };
+}
+
+// Reserves the attempt before any credential is checked (see loginAttemptService.reserveLoginAttempt).
+// Returns its id to settle afterwards, or the state to send back when this username or address must wait.
+async function reserveLoginAttempt(username: string, client: LoginClient): Promise<{ attemptId: string } | { state: LoginState }> {
+  let reservation: loginAttemptService.LoginAttemptReservation;
+  try {
+    reservation = await loginAttemptService.reserveLoginAttempt({ username, ...client });
+  } catch (error: any) {
+    console.error('Failed to check login throttling:', error);
+    return { state: { message: error.message || 'Could not verify credentials. Check server logs.', success: false } };
+  }
+  const { attemptId, throttle } = reservation;
+  if (throttle.allowed) return { attemptId };
+
+  return {
+    state: {
+      message: throttle.reason === 'lockout'
+        ? `Too many failed sign-in attempts. Sign-in is locked for ${formatRetryAfter(throttle.retryAfterSeconds)}.`
+        : `Too many failed sign-in attempts. Please wait ${formatRetryAfter(throttle.retryAfterSeconds)} before trying again.`,
+      success: false,
+      retryAfterSeconds: throttle.retryAfterSeconds,
+    },
+  };
+}
 
 export async function loginAction(
-  prevState: { message?: string; success?: boolean } | undefined,
+  prevState: LoginState | undefined,
   formData: FormData
-): Promise<{ message?: string; success?: boolean }> {
-  const username = formData.get('username') as string;
+): Promise<LoginState> {
+  const username = ((formData.get('username') as string) || '').trim();
   const password = formData.get('password') as string;
 
   if (!username || !password) {
     return { message: 'Username and password are required.', success: false };
   }
 
-  const settings = await settingsService.getSettings();
+  const client = await getLoginClient();
+
+  // Reserved before the password is checked, so a locked-out username can't be probed any further
+  const reservation = await reserveLoginAttempt(username, client);
+  if ('state' in reservation) return reservation.state;
+  const { attemptId } = reservation;
+
+  let user: User | null;
+  try {
+    await userService.migrateLegacyAdminAccount();
+    if ((await userService.countUsers({ includeDisabled: true })) === 0) {
+      await settleLoginAttempt(attemptId, username, null);
+      return { message: 'Admin account is not configured. Please create one on the Users page.', success: false };
+    }
+    user = await userService.verifyCredentials(username, password);
+  } catch (error: any) {
+    console.error('Failed to verify credentials:', error);
+    await settleLoginAttempt(attemptId, username, null);
+    return { message: error.message || 'Could not verify credentials. Check server logs.', success: false };
+  }
 
-  if (!settings.adminUsername || !settings.adminPassword) {
-    return { message: 'Admin account is not configured. Please set it up in Site Settings.', success: false };
+  if (!user) {
+    await settleLoginAttempt(attemptId, username, 'invalid_credentials');
+    return { message: 'Invalid username or password.', success: false };
   }
 
-  const isValidUsername = username === settings.adminUsername;
-  const isValidPassword = password === settings.adminPassword; // Plaintext comparison
+  // No session yet: the challenge cookie only allows the second step, within a few minutes
+  if (user.twoFactorEnabled) {
+    await settleLoginAttempt(attemptId, username, null);
+    try {
+      (await cookies()).set(LOGIN_CHALLENGE_COOKIE_NAME, await signLoginChallengeToken(user.username), {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        maxAge: LOGIN_CHALLENGE_MAX_AGE_SECONDS,
+        path: '/login',
+        sameSite: 'lax',
+      });
+    } catch (error: any) {
+      console.error('Failed to start two-factor sign-in:', error);
+      return { message: error.message || 'Could not start two-factor sign-in. Check server logs.', success: false };
+    }
+    return { success: false, twoFactorRequired: true, message: 'Enter the code from your authenticator app.' };
+  }
 
-  if (isValidUsername && isValidPassword) {
-    cookies().set(SESSION_COOKIE_NAME, 'true', {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      maxAge: 60 * 60 * 24 * 7, // 1 week
-      path: '/',
-      sameSite: 'lax',
-    });
-    revalidatePath('/admin');
-    revalidatePath('/login');
-    redirect('/admin');
+  await settleLoginAttempt(attemptId, username, 'success', { user });
+  try {
+    await startAdminSession(user.username);
+  } catch (error: any) {
+    console.error('Failed to start admin session:', error);
+    return { message: error.message || 'Could not start a session. Check server logs.', success: false };
+  }
+  revalidatePath('/admin');
+  revalidatePath('/login');
+  redirect('/admin');
+}
 
-  } else {
-    return { message: 'Invalid username or password.', success: false };
+// Second sign-in step for accounts with two-factor authentication: accepts an authenticator
+// code or a recovery code for the user whose password was just verified by loginAction
+export async function verifyTwoFactorLoginAction(
+  prevState: LoginState | undefined,
+  formData: FormData
+): Promise<LoginState> {
+  const cookieStore = await cookies();
+  const challenge = await verifyLoginChallengeToken(cookieStore.get(LOGIN_CHALLENGE_COOKIE_NAME)?.value);
+  const challengeExpired: LoginState = {
+    success: false,
+    twoFactorRequired: false,
+    message: 'Your sign-in took too long. Please enter your username and password again.',
+  };
+  if (!challenge) return challengeExpired;
+
+  const code = ((formData.get('code') as string) || '').trim();
+  if (!code) {
+    return { success: false, twoFactorRequired: true, message: 'Enter a code from your authenticator app or a recovery code.' };
   }
+
+  const client = await getLoginClient();
+  const reservation = await reserveLoginAttempt(challenge.sub, client);
+  if ('state' in reservation) return { ...reservation.state, twoFactorRequired: true };
+  const { attemptId } = reservation;
+
+  let user: User | undefined;
+  let method: 'totp' | 'recovery' | null;
+  try {
+    user = await userService.getUserByUsername(challenge.sub);
+    if (!user || user.disabled || !user.twoFactorEnabled) {
+      await settleLoginAttempt(attemptId, challenge.sub, null);
+      cookieStore.delete({ name: LOGIN_CHALLENGE_COOKIE_NAME, path: '/login' });
+      return challengeExpired;
+    }
+    method = await userService.verifyTwoFactorCode(user.id, code);
+  } catch (error: any) {
+    console.error('Failed to verify two-factor code:', error);
+    await settleLoginAttempt(attemptId, challenge.sub, null);
+    return { success: false, twoFactorRequired: true, message: error.message || 'Could not verify the code. Check server logs.' };
+  }
+
+  if (!method) {
+    await settleLoginAttempt(attemptId, user.username, 'invalid_two_factor', { user });
+    return { success: false, twoFactorRequired: true, message: 'That code is not valid. Codes can only be used once.' };
+  }
+
+  await settleLoginAttempt(attemptId, user.username, 'success', {
+    user,
+    summary: method === 'recovery' ? 'Signed in with a recovery code' : 'Signed in with two-factor authentication',
+  });
+  cookieStore.delete({ name: LOGIN_CHALLENGE_COOKIE_NAME, path: '/login' });
+  try {
+    await startAdminSession(user.username);
+  } catch (error: any) {
+    console.error('Failed to start admin session:', error);
+    return { message: error.message || 'Could not start a session. Check server logs.', success: false };
+  }
+  revalidatePath('/admin');
+  revalidatePath('/login');
+  redirect('/admin');
 }
 
 export async function logoutAction() {
-  cookies().delete(SESSION_COOKIE_NAME);
+  const session = await getCurrentSession();
+  if (session) {
+    try {
+      await sessionService.revokeSession(session.id);
+    } catch (error) {
+      console.error('Failed to revoke session on logout:', error);
+    }
+    const user = await userService.getUserByUsername(session.username).catch(() => undefined);
+    await recordAudit({ id: user?.id, username: session.username }, {
+      action: 'auth.logout',
+      targetType: 'session',
+      targetId: session.id,
+      summary: 'Signed out',
+    });
+  }
+  (await cookies()).delete(SESSION_COOKIE_NAME);
   revalidatePath('/admin');
   revalidatePath('/login');
   redirect('/login');
 }
 
+// Signs out every user on every browser, including this one
+export async function revokeAllSessionsAction() {
+  const auth = await authorize(canManageUsers, 'Only admins can sign out all sessions.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+
+  try {
+    await sessionService.revokeAllSessions();
+  } catch (error: any) {
+    console.error('Failed to revoke all sessions:', error);
+    return { success: false, message: error.message || 'Could not sign out other sessions. Check server logs.' };
+  }
+  await recordAudit(auth.user, {
+    action: 'auth.revoke_all_sessions',
+    targetType: 'session',
+    summary: 'Signed out every user on every device',
+  });
+  (await cookies()).delete(SESSION_COOKIE_NAME);
+  revalidatePath('/admin');
+  revalidatePath('/login');
+  redirect('/login');
+}
+
+// Two-factor settings are per account, so every signed-in user manages their own
+const anyRole = () => true;
+
+// First enrollment step: a new secret and the QR code to scan with an authenticator app
+export async function startTwoFactorEnrollmentAction() {
+  const auth = await authorize(anyRole, NOT_SIGNED_IN_MESSAGE);
+  if ('error' in auth) {
+    return { success: false, message: auth.error, secret: null, qrCodeDataUrl: null };
+  }
+
+  try {
+    const secret = await userService.beginTwoFactorEnrollment(auth.user.id);
+    const settings = await settingsService.getSettings();
+    const otpAuthUrl = buildOtpAuthUrl(secret, auth.user.username, settings.siteTitle || 'Newstoday');
+    const qrCodeDataUrl = await QRCode.toDataURL(otpAuthUrl, { margin: 1, width: 220 });
+    return { success: true, message: 'Scan the QR code with your authenticator app.', secret, qrCodeDataUrl };
+  } catch (error: any) {
+    console.error('Failed to start two-factor enrollment:', error);
+    return { success: false, message: error.message || 'Could not start two-factor enrollment. Check server logs.', secret: null, qrCodeDataUrl: null };
+  }
+}
+
+// Second enrollment step: a code from the app turns two-factor sign-in on and returns the recovery codes
+export async function confirmTwoFactorEnrollmentAction(code: string) {
+  const auth = await authorize(anyRole, NOT_SIGNED_IN_MESSAGE);
+  if ('error' in auth) {
+    return { success: false, message: auth.error, recoveryCodes: null };
+  }
+
+  try {
+    const recoveryCodes = await userService.completeTwoFactorEnrollment(auth.user.id, code.trim());
+    if (!recoveryCodes) {
+      return { success: false, message: 'That code is not valid. Check the time on your device and try the next code.', recoveryCodes: null };
+    }
+    await recordAudit(auth.user, {
+      action: 'account.enable_two_factor',
+      targetType: 'user',
+      targetId: auth.user.id,
+      targetLabel: auth.user.username,
+    });
+    revalidatePath('/admin/settings');
+    revalidatePath('/admin/account');
+    return { success: true, message: 'Two-factor authentication is now enabled.', recoveryCodes };
+  } catch (error: any) {
+    console.error('Failed to enable two-factor authentication:', error);
+    return { success: false, message: error.message || 'Could not enable two-factor authentication. Check server logs.', recoveryCodes: null };
+  }
+}
+
+// Re-checks the signed-in user's password before a sensitive account change. It is throttled and
+// recorded like a sign-in, so a stolen session can't be used to guess the password without limit.
+// Returns the message to show when the password can't be accepted, otherwise null.
+async function verifyPasswordForAccountChange(user: User, password: string): Promise<string | null> {
+  const reservation = await reserveLoginAttempt(user.username, await getLoginClient());
+  if ('state' in reservation) return reservation.state.message || 'Could not verify your password.';
+  const { attemptId } = reservation;
+
+  let verified: User | null;
+  try {
+    verified = await userService.verifyCredentials(user.username, password);
+  } catch (error) {
+    await settleLoginAttempt(attemptId, user.username, null);
+    throw error;
+  }
+  if (!verified) {
+    await settleLoginAttempt(attemptId, user.username, 'invalid_credentials', { user, summary: 'Wrong password when confirming an account change' });
+    return 'Incorrect password.';
+  }
+  // Not a sign-in, so the attempt is withdrawn rather than recorded as one
+  await settleLoginAttempt(attemptId, user.username, null);
+  return null;
+}
+
+export async function regenerateRecoveryCodesAction(password: string) {
+  const auth = await authorize(anyRole, NOT_SIGNED_IN_MESSAGE);
+  if ('error' in auth) {
+    return { success: false, message: auth.error, recoveryCodes: null };
+  }
+
+  try {
+    const passwordError = await verifyPasswordForAccountChange(auth.user, password);
+    if (passwordError) {
+      return { success: false, message: passwordError, recoveryCodes: null };
+    }
+    const recoveryCodes = await userService.regenerateRecoveryCodes(auth.user.id);
+    await recordAudit(auth.user, {
+      action: 'account.regenerate_recovery_codes',
+      targetType: 'user',
+      targetId: auth.user.id,
+      targetLabel: auth.user.username,
+    });
+    return { success: true, message: 'New recovery codes created. The old ones no longer work.', recoveryCodes };
+  } catch (error: any) {
+    console.error('Failed to regenerate recovery codes:', error);
+    return { success: false, message: error.message || 'Could not create new recovery codes. Check server logs.', recoveryCodes: null };
+  }
+}
+
+// Requires the current password, so an unattended signed-in browser can't be used to remove the second factor
+export async function disableTwoFactorAction(password: string) {
+  const auth = await authorize(anyRole, NOT_SIGNED_IN_MESSAGE);
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+
+  try {
+    const passwordError = await verifyPasswordForAccountChange(auth.user, password);
+    if (passwordError) {
+      return { success: false, message: passwordError };
+    }
+    await userService.disableTwoFactor(auth.user.id);
+  } catch (error: any) {
+    console.error('Failed to disable two-factor authentication:', error);
+    return { success: false, message: error.message || 'Could not disable two-factor authentication. Check server logs.' };
+  }
+  await recordAudit(auth.user, {
+    action: 'account.disable_two_factor',
+    targetType: 'user',
+    targetId: auth.user.id,
+    targetLabel: auth.user.username,
+  });
+  revalidatePath('/admin/settings');
+  revalidatePath('/admin/account');
+  return { success: true, message: 'Two-factor authentication has been turned off.' };
+}
+
+
+const userRoleSchema = z.enum(['admin', 'editor', 'author', 'moderator']);
+const userPasswordSchema = z.string().min(8, { message: 'Password must be at least 8 characters long.' }).max(100, { message: 'Password must be 100 characters or less.' });
+
+const newUserSchema = z.object({
+  username: z.string().trim()
+    .min(3, { message: 'Username must be at least 3 characters long.' })
+    .max(50, { message: 'Username must be 50 characters or less.' })
+    .regex(/^[A-Za-z0-9._@+-]+$/, { message: 'Username may only contain letters, numbers and . _ @ + -' }),
+  displayName: z.string().trim().min(2, { message: 'Display name must be at least 2 characters long.' }).max(80, { message: 'Display name must be 80 characters or less.' }),
+  role: userRoleSchema,
+  password: userPasswordSchema,
+});
+
+const userUpdateSchema = z.object({
+  displayName: z.string().trim().min(2, { message: 'Display name must be at least 2 characters long.' }).max(80, { message: 'Display name must be 80 characters or less.' }),
+  role: userRoleSchema,
+  disabled: z.preprocess((val) => val === 'on' || val === 'true' || val === true, z.boolean().default(false)),
+  password: userPasswordSchema.optional().or(z.literal('')),
+});
+
+// True while no admin account exists yet, in which case the users page creates the first one without a session
+async function isFirstAdminSetup(): Promise<boolean> {
+  await userService.migrateLegacyAdminAccount();
+  return (await userService.countUsers({ role: 'admin' })) === 0;
+}
+
+export async function createUserAction(formData: FormData) {
+  const rawData = {
+    username: formData.get('username'),
+    displayName: formData.get('displayName'),
+    role: formData.get('role'),
+    password: formData.get('password'),
+  };
+
+  let firstAdminSetup: boolean;
+  try {
+    firstAdminSetup = await isFirstAdminSetup();
+  } catch (error: any) {
+    console.error('Failed to check for existing admin accounts:', error);
+    return { success: false, message: error.message || 'Could not check existing accounts. Check server logs.', errors: null, user: null };
+  }
+
+  let actor: User | null = null; // Nobody is signed in while the first admin creates their own account
+  if (!firstAdminSetup) {
+    const auth = await authorize(canManageUsers, 'Only admins can manage users.');
+    if ('error' in auth) {
+      return { success: false, message: auth.error, errors: null, user: null };
+    }
+    actor = auth.user;
+  }
+
+  // The first account must be an admin, or nobody could manage users or settings afterwards
+  const validation = newUserSchema.safeParse(firstAdminSetup ? { ...rawData, role: 'admin' } : rawData);
+  if (!validation.success) {
+    return {
+      success: false,
+      message: 'Validation failed.',
+      errors: validation.error.flatten().fieldErrors,
+      user: null,
+    };
+  }
+
+  let user: User;
+  try {
+    user = await userService.createUser(validation.data);
+  } catch (error: any) {
+    console.error('Failed to create user:', error);
+    return { success: false, message: error.message || 'Could not create user. Check server logs.', errors: null, user: null };
+  }
+
+  await recordAudit(actor ?? user, {
+    action: 'user.create',
+    targetType: 'user',
+    targetId: user.id,
+    targetLabel: user.username,
+    summary: firstAdminSetup ? 'Created the first admin account' : undefined,
+    changes: auditService.diffForAudit(null, user, ['username', 'displayName', 'role']),
+  });
+
+  revalidatePath('/admin/users');
+  if (firstAdminSetup) {
+    try {
+      await startAdminSession(user.username);
+    } catch (error: any) {
+      console.error('First admin created, but the session could not be started:', error);
+      return { success: true, message: `User "${user.username}" created. Please sign in.`, errors: null, user };
+    }
+    redirect('/admin');
+  }
+  return { success: true, message: `User "${user.username}" created.`, errors: null, user };
+}
+
+export async function updateUserAction(userId: string, formData: FormData) {
+  const auth = await authorize(canManageUsers, 'Only admins can manage users.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, errors: null, user: null };
+  }
+
+  const validation = userUpdateSchema.safeParse({
+    displayName: formData.get('displayName'),
+    role: formData.get('role'),
+    disabled: formData.get('disabled'),
+    password: formData.get('password') ?? '',
+  });
+  if (!validation.success) {
+    return {
+      success: false,
+      message: 'Validation failed.',
+      errors: validation.error.flatten().fieldErrors,
+      user: null,
+    };
+  }
+
+  try {
+    const existingUser = await userService.getUserById(userId);
+    if (!existingUser) {
+      return { success: false, message: 'User not found.', errors: null, user: null };
+    }
+
+    const { displayName, role, disabled, password } = validation.data;
+    const isSelf = existingUser.id === auth.user.id;
+    if (isSelf && (role !== existingUser.role || disabled)) {
+      return { success: false, message: 'You cannot change your own role or disable your own account.', errors: null, user: null };
+    }
+    const losesAdmin = existingUser.role === 'admin' && !existingUser.disabled && (role !== 'admin' || disabled);
+    if (losesAdmin && (await userService.countUsers({ role: 'admin' })) <= 1) {
+      return { success: false, message: 'At least one enabled admin account must remain.', errors: null, user: null };
+    }
+
+    const updatedUser = await userService.updateUser(userId, {
+      displayName,
+      role,
+      disabled,
+      password: password || undefined,
+    });
+    if (!updatedUser) {
+      return { success: false, message: 'User not found.', errors: null, user: null };
+    }
+
+    if (displayName !== existingUser.displayName) {
+      await postService.renamePostAuthor(userId, displayName);
+      revalidatePath('/');
+    }
+    // A new password or a disabled account signs the user out everywhere; an admin who
+    // changes their own password gets a fresh session here
+    if (password || disabled) {
+      await sessionService.revokeSessionsForUser(existingUser.username);
+      if (isSelf) await startAdminSession(existingUser.username);
+    }
+
+    const changes = auditService.diffForAudit(existingUser, updatedUser, ['displayName', 'role', 'disabled']);
+    if (password) changes.push({ field: 'password', before: null, after: 'changed' });
+    await recordAudit(auth.user, {
+      action: 'user.update',
+      targetType: 'user',
+      targetId: userId,
+      targetLabel: updatedUser.username,
+      changes,
+    });
+
+    revalidatePath('/admin/users');
+    return { success: true, message: `User "${updatedUser.username}" updated.`, errors: null, user: updatedUser };
+  } catch (error: any) {
+    console.error('Failed to update user:', error);
+    return { success: false, message: error.message || 'Could not update user. Check server logs.', errors: null, user: null };
+  }
+}
+
+// For a user who lost both their authenticator and their recovery codes. They can sign in
+// with just their password afterwards and enroll again.
+export async function resetUserTwoFactorAction(userId: string) {
+  const auth = await authorize(canManageUsers, 'Only admins can manage users.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, user: null };
+  }
+
+  try {
+    const user = await userService.getUserById(userId);
+    if (!user) {
+      return { success: false, message: 'User not found.', user: null };
+    }
+    await userService.disableTwoFactor(userId);
+    await recordAudit(auth.user, {
+      action: 'user.reset_two_factor',
+      targetType: 'user',
+      targetId: userId,
+      targetLabel: user.username,
+    });
+    revalidatePath('/admin/users');
+    return { success: true, message: `Two-factor authentication turned off for "${user.username}".`, user: { ...user, twoFactorEnabled: false } };
+  } catch (error: any) {
+    console.error('Failed to reset two-factor authentication:', error);
+    return { success: false, message: error.message || 'Could not reset two-factor authentication. Check server logs.', user: null };
+  }
+}
+
+export async function deleteUserAction(userId: string) {
+  const auth = await authorize(canManageUsers, 'Only admins can manage users.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+  if (userId === auth.user.id) {
+    return { success: false, message: 'You cannot delete your own account.' };
+  }
+
+  try {
+    const userToDelete = await userService.getUserById(userId);
+    if (!userToDelete) {
+      return { success: false, message: 'User not found.' };
+    }
+    if (userToDelete.role === 'admin' && !userToDelete.disabled && (await userService.countUsers({ role: 'admin' })) <= 1) {
+      return { success: false, message: 'At least one enabled admin account must remain.' };
+    }
+
+    // Their posts keep the author name; author_id is cleared by the foreign key
+    await sessionService.revokeSessionsForUser(userToDelete.username);
+    await userService.deleteUser(userId);
+    await recordAudit(auth.user, {
+      action: 'user.delete',
+      targetType: 'user',
+      targetId: userId,
+      targetLabel: userToDelete.username,
+      changes: auditService.diffForAudit(userToDelete, null, ['username', 'displayName', 'role']),
+    });
+    revalidatePath('/admin/users');
+    return { success: true, message: `User "${userToDelete.username}" deleted.` };
+  } catch (error) {
+    console.error('Failed to delete user:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Could not delete user. Check server logs.'
+    };
+  }
+}
+
+// Selector lists arrive as one selector per line and are rejected as a whole if any line doesn't parse
+const selectorListSchema = (label: string) => z.string().max(5000, { message: `${label} must be 5000 characters or less.` }).optional()
+  .transform(value => parseSelectorList(value))
+  .superRefine((selectors, ctx) => {
+    const invalidSelectors = selectors.filter(selector => !isValidSelector(selector));
+    if (invalidSelectors.length > 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Not a valid CSS selector: ${invalidSelectors.join(', ')}`,
+      });
+    }
+  });
+
+const siteRuleSchema = z.object({
+  hostname: z.string().trim().min(1, { message: 'Hostname is required.' })
+    .transform(value => siteRuleService.normalizeRuleHostname(value))
+    .refine(value => value.includes('.'), { message: 'Enter a hostname such as example.com.' }),
+  contentSelectors: selectorListSchema('Content selectors'),
+  removeSelectors: selectorListSchema('Removal selectors'),
+  useDefaultRemovals: z.preprocess((val) => val === 'on' || val === 'true' || val === true, z.boolean().default(false)),
+  titleSelectors: selectorListSchema('Title selectors'),
+  imageSelectors: selectorListSchema('Image selectors'),
+  hooks: z.array(z.string()).transform(hooks => [...new Set(hooks)].filter(isScraperHookName)),
+  notes: z.string().trim().max(1000, { message: 'Notes must be 1000 characters or less.' }).optional(),
+});
+
+const SITE_RULE_AUDIT_FIELDS: (keyof ScraperSiteRule)[] = ['hostname', 'contentSelectors', 'removeSelectors', 'useDefaultRemovals', 'titleSelectors', 'imageSelectors', 'hooks', 'notes'];
+
+function parseSiteRuleForm(formData: FormData) {
+  return siteRuleSchema.safeParse({
+    hostname: formData.get('hostname') ?? '',
+    contentSelectors: formData.get('contentSelectors') ?? '',
+    removeSelectors: formData.get('removeSelectors') ?? '',
+    useDefaultRemovals: formData.get('useDefaultRemovals'),
+    titleSelectors: formData.get('titleSelectors') ?? '',
+    imageSelectors: formData.get('imageSelectors') ?? '',
+    hooks: formData.getAll('hooks'),
+    notes: formData.get('notes') ?? '',
+  });
+}
+
+export async function createSiteRuleAction(formData: FormData) {
+  const auth = await authorize(canManageSettings, 'Only admins can manage scraper rules.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, errors: null, rule: null };
+  }
+
+  const validation = parseSiteRuleForm(formData);
+  if (!validation.success) {
+    return {
+      success: false,
+      message: 'Validation failed.',
+      errors: validation.error.flatten().fieldErrors,
+      rule: null,
+    };
+  }
+
+  try {
+    const rule = await siteRuleService.createSiteRule(validation.data);
+    await recordAudit(auth.user, {
+      action: 'site_rule.create',
+      targetType: 'site_rule',
+      targetId: rule.id,
+      targetLabel: rule.hostname,
+      changes: auditService.diffForAudit(null, rule, SITE_RULE_AUDIT_FIELDS),
+    });
+    revalidatePath('/admin/scraper-rules');
+    return { success: true, message: `Rule for "${rule.hostname}" created.`, errors: null, rule };
+  } catch (error: any) {
+    console.error('Failed to create scraper site rule:', error);
+    return { success: false, message: error.message || 'Could not create the rule. Check server logs.', errors: null, rule: null };
+  }
+}
+
+export async function updateSiteRuleAction(ruleId: string, formData: FormData) {
+  const auth = await authorize(canManageSettings, 'Only admins can manage scraper rules.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, errors: null, rule: null };
+  }
+
+  const validation = parseSiteRuleForm(formData);
+  if (!validation.success) {
+    return {
+      success: false,
+      message: 'Validation failed.',
+      errors: validation.error.flatten().fieldErrors,
+      rule: null,
+    };
+  }
+
+  try {
+    const existingRule = await siteRuleService.getSiteRuleById(ruleId);
+    if (!existingRule) {
+      return { success: false, message: 'Rule not found.', errors: null, rule: null };
+    }
+    const rule = await siteRuleService.updateSiteRule(ruleId, validation.data);
+    if (!rule) {
+      return { success: false, message: 'Rule not found.', errors: null, rule: null };
+    }
+    await recordAudit(auth.user, {
+      action: 'site_rule.update',
+      targetType: 'site_rule',
+      targetId: rule.id,
+      targetLabel: rule.hostname,
+      changes: auditService.diffForAudit(existingRule, rule, SITE_RULE_AUDIT_FIELDS),
+    });
+    revalidatePath('/admin/scraper-rules');
+    return { success: true, message: `Rule for "${rule.hostname}" updated.`, errors: null, rule };
+  } catch (error: any) {
+    console.error('Failed to update scraper site rule:', error);
+    return { success: false, message: error.message || 'Could not update the rule. Check server logs.', errors: null, rule: null };
+  }
+}
+
+export async function deleteSiteRuleAction(ruleId: string) {
+  const auth = await authorize(canManageSettings, 'Only admins can manage scraper rules.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error };
+  }
+
+  try {
+    const ruleToDelete = await siteRuleService.getSiteRuleById(ruleId);
+    if (!ruleToDelete) {
+      return { success: false, message: 'Rule not found.' };
+    }
+    await siteRuleService.deleteSiteRule(ruleId);
+    await recordAudit(auth.user, {
+      action: 'site_rule.delete',
+      targetType: 'site_rule',
+      targetId: ruleId,
+      targetLabel: ruleToDelete.hostname,
+      changes: auditService.diffForAudit(ruleToDelete, null, SITE_RULE_AUDIT_FIELDS),
+    });
+    revalidatePath('/admin/scraper-rules');
+    return { success: true, message: `Rule for "${ruleToDelete.hostname}" deleted.` };
+  } catch (error) {
+    console.error('Failed to delete scraper site rule:', error);
+    return {
+      success: false,
+      message: error instanceof Error ? error.message : 'Could not delete the rule. Check server logs.'
+    };
+  }
+}
+
+export interface SiteRuleTestResult {
+  url: string; // After redirects
+  hostMatches: boolean; // False when the page is on a host the rule would not be applied to
+  title: string;
+  content: string; // Sanitized like a saved post, so the preview shows what would be imported
+  imageUrl?: string;
+  metadata: ArticleMetadata;
+  method: ExtractionMethod;
+  contentSelector: string;
+  confidence: ScrapeConfidence;
+}
+
+// Runs the rule as currently entered in the editor (saved or not) against a live page
+export async function testSiteRuleAction(formData: FormData) {
+  const auth = await authorize(canManageSettings, 'Only admins can manage scraper rules.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, errors: null, result: null };
+  }
+
+  const validation = parseSiteRuleForm(formData);
+  const testUrl = String(formData.get('testUrl') ?? '').trim();
+  if (!validation.success || !testUrl) {
+    return {
+      success: false,
+      message: 'Validation failed.',
+      errors: {
+        ...(validation.success ? {} : validation.error.flatten().fieldErrors),
+        ...(testUrl ? {} : { testUrl: ['Enter the URL of an article to test against.'] }),
+      },
+      result: null,
+    };
+  }
+
+  const { notes: _notes, ...rule } = validation.data;
+  try {
+    const article = await scrapeArticle(testUrl, await settingsService.getSettings(), rule satisfies ExtractionRule);
+    const pageHostname = new URL(article.url).hostname;
+    const result: SiteRuleTestResult = {
+      url: article.url,
+      hostMatches: pageHostname === rule.hostname || pageHostname.endsWith(`.${rule.hostname}`),
+      title: article.title,
+      content: await sanitizePostContent(article.content),
+      imageUrl: article.imageUrl,
+      metadata: article.metadata,
+      method: article.method,
+      contentSelector: article.contentSelector,
+      confidence: article.confidence,
+    };
+    return { success: true, message: 'Extracted the article.', errors: null, result };
+  } catch (error: any) {
+    console.error('Failed to test scraper site rule:', error.message);
+    return { success: false, message: describeScrapeError(error).message, errors: null, result: null };
+  }
+}
+
+export interface ImageRehostFailure {
+  url: string;
+  reason: string;
+}
+
+export interface ImageRehostResult {
+  content: string; // With every rehosted image pointing at storage; failed ones keep their original src
+  rehostedCount: number;
+  failures: ImageRehostFailure[];
+}
+
+// Copies the remote images in imported content to storage so posts don't hotlink the source site.
+// Images are fetched under the same policy as the scraper's and stored under their content hash,
+// so a picture repeated under different URLs (sizes, tracking parameters) or imported again later
+// is stored once. Images already in storage are left alone, which makes a retry only fetch the
+// ones that failed.
+export async function rehostContentImagesAction(content: string) {
+  const auth = await authorize(canCreatePosts, 'Your role does not allow creating posts.');
+  if ('error' in auth) {
+    return { success: false, message: auth.error, errors: null, result: null };
+  }
+
+  const storagePrefix = `${process.env.NEXT_PUBLIC_SUPABASE_URL}/storage/v1/object/public/`;
+  const imageUrls = listContentImageUrls(content).filter((url) => !url.startsWith(storagePrefix));
+  let imagePolicy;
+  try {
+    const { image } = getScrapeFetchPolicies(await settingsService.getSettings());
+    imagePolicy = { ...image, allowedContentTypes: image.allowedContentTypes.filter((type) => type in REHOSTED_IMAGE_EXTENSIONS) };
+  } catch (error: any) {
+    console.error('Error loading settings for image rehosting:', error);
+    return { success: false, message: error.message || 'Could not load the site settings. Check server logs.', errors: null, result: null };
+  }
+
+  const replacements = new Map<string, string>();
+  const uploadedByHash = new Map<string, string>();
+  const failures: ImageRehostFailure[] = imageUrls.slice(MAX_REHOSTED_IMAGES).map((url) => ({
+    url,
+    reason: `Only the first ${MAX_REHOSTED_IMAGES} images of a post are copied.`,
+  }));
+
+  for (const url of imageUrls.slice(0, MAX_REHOSTED_IMAGES)) {
+    let stage: 'download' | 'upload' = 'download';
+    try {
+      const image = await fetchWithPolicy(url, imagePolicy);
+      const hash = createHash('sha256').update(image.data).digest('hex');
+      let uploadedUrl = uploadedByHash.get(hash);
+      if (!uploadedUrl) {
+        stage = 'upload';
+        const extension = REHOSTED_IMAGE_EXTENSIONS[image.contentType]; // The policy only downloads these types
+        const file = new File([image.data], `${hash}.${extension}`, { type: image.contentType });
+        uploadedUrl = await handleSupabaseFileUpload(file, POST_IMAGES_BUCKET_NAME, `${REHOSTED_IMAGES_FOLDER}/${hash}.${extension}`);
+        if (!uploadedUrl) throw new Error('The upload returned no URL.');
+        uploadedByHash.set(hash, uploadedUrl);
+      }
+      replacements.set(url, uploadedUrl);
+    } catch (error: any) {
+      console.warn(`Failed to rehost image ${url}: ${error.message}`);
+      // Download errors read like the importer's; upload errors already explain themselves
+      failures.push({ url, reason: stage === 'download' ? describeScrapeError(error).message : error.message });
+    }
+  }
+
+  const result: ImageRehostResult = {
+    content: replacements.size > 0 ? replaceContentImageUrls(content, replacements) : content,
+    rehostedCount: replacements.size,
+    failures,
+  };
+  const total = replacements.size + failures.length;
+  const message = failures.length === 0
+    ? `Copied ${total} image${total === 1 ? '' : 's'} to storage.`
+    : `Copied ${replacements.size} of ${total} images to storage; the rest still load from the original site.`;
+  return { success: true, message, errors: null, result };
+}
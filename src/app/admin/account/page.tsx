@@ -0,0 +1,32 @@
+import { redirect } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import * as userService from '@/lib/user-service';
+import { getCurrentUser } from '@/lib/auth';
+import { ROLE_LABELS } from '@/lib/permissions';
+
+// Security settings for the signed-in user's own account; open to every role
+export default async function AdminAccountPage() {
+  const currentUser = await getCurrentUser();
+  if (!currentUser) {
+    redirect('/login');
+  }
+
+  const recoveryCodesRemaining = await userService.getRemainingRecoveryCodeCount(currentUser.id);
+
+  return (
+    <Card className="max-w-2xl mx-auto shadow-sm">
+      <CardHeader>
+        <CardTitle className="text-2xl">My Account</CardTitle>
+        <CardDescription>
+          Signed in as {currentUser.username} ({ROLE_LABELS[currentUser.role]}). Ask an admin to change your name, role or password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <TwoFactorSettings enabled={currentUser.twoFactorEnabled} recoveryCodesRemaining={recoveryCodesRemaining} />
+      </CardContent>
+    </Card>
+  );
+}
+
+export const dynamic = 'force-dynamic';
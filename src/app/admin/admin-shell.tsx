@@ -0,0 +1,142 @@
+
+'use client';
+
+import Link from 'next/link';
+import { Home, FileText, LayoutDashboard, Settings, LogOut, MessagesSquare, Users, UserCog, ScrollText, Scissors } from 'lucide-react'; // Added MessagesSquare
+import { logoutAction } from '@/app/actions';
+import { Button } from '@/components/ui/button';
+import { useTransition } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { useRouter } from 'next/navigation'; // For redirect after logout
+import type { User } from '@/types';
+import { ROLE_LABELS, canCreatePosts, canManageSettings, canManageUsers, canModerateComments, canViewAuditLog } from '@/lib/permissions';
+
+interface AdminShellProps {
+  children: React.ReactNode;
+  currentUser: User | null; // null only while the first admin account is being created
+}
+
+export default function AdminShell({
+  children,
+  currentUser,
+}: AdminShellProps) {
+  const [isPending, startTransition] = useTransition();
+  const { toast } = useToast();
+  const router = useRouter();
+
+  const handleLogout = async () => {
+    startTransition(async () => {
+      try {
+        await logoutAction();
+        toast({ title: 'Logged Out', description: 'You have been successfully logged out.' });
+        // router.push('/login') will be handled by middleware or redirect in action
+      } catch (error) {
+        toast({ variant: 'destructive', title: 'Logout Failed', description: 'Could not log out.' });
+      }
+    });
+  };
+
+  return (
+    <div className="flex min-h-screen bg-muted/40">
+      <aside className="w-60 bg-background border-r p-4 space-y-4 hidden md:flex md:flex-col shadow-sm">
+        <div className="flex items-center justify-between p-2 mb-4">
+          <Link href="/admin" className="flex items-center space-x-2">
+            <LayoutDashboard className="w-8 h-8 text-primary" />
+            <h2 className="text-xl font-headline text-primary">Admin</h2>
+          </Link>
+        </div>
+        <nav className="space-y-1 flex-grow">
+          <Link 
+            href="/admin" 
+            className="flex items-center space-x-3 p-2 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors text-sm font-medium"
+          >
+            <Home className="w-5 h-5" />
+            <span>Dashboard</span>
+          </Link>
+          {currentUser && canCreatePosts(currentUser) && (
+            <Link 
+              href="/admin/posts" 
+              className="flex items-center space-x-3 p-2 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors text-sm font-medium"
+            >
+              <FileText className="w-5 h-5" />
+              <span>Manage Posts</span>
+            </Link>
+          )}
+          {currentUser && canModerateComments(currentUser) && (
+            <Link 
+              href="/admin/comments" 
+              className="flex items-center space-x-3 p-2 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors text-sm font-medium"
+            >
+              <MessagesSquare className="w-5 h-5" />
+              <span>Manage Comments</span>
+            </Link>
+          )}
+          {currentUser && canManageUsers(currentUser) && (
+            <Link 
+              href="/admin/users" 
+              className="flex items-center space-x-3 p-2 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors text-sm font-medium"
+            >
+              <Users className="w-5 h-5" />
+              <span>Manage Users</span>
+            </Link>
+          )}
+          {currentUser && canManageSettings(currentUser) && (
+            <Link 
+              href="/admin/settings" 
+              className="flex items-center space-x-3 p-2 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors text-sm font-medium"
+            >
+              <Settings className="w-5 h-5" />
+              <span>Site Settings</span>
+            </Link>
+          )}
+          {currentUser && canManageSettings(currentUser) && (
+            <Link 
+              href="/admin/scraper-rules" 
+              className="flex items-center space-x-3 p-2 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors text-sm font-medium"
+            >
+              <Scissors className="w-5 h-5" />
+              <span>Scraper Rules</span>
+            </Link>
+          )}
+          {currentUser && canViewAuditLog(currentUser) && (
+            <Link 
+              href="/admin/audit" 
+              className="flex items-center space-x-3 p-2 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors text-sm font-medium"
+            >
+              <ScrollText className="w-5 h-5" />
+              <span>Audit Log</span>
+            </Link>
+          )}
+          {currentUser && (
+            <Link 
+              href="/admin/account" 
+              className="flex items-center space-x-3 p-2 rounded-lg hover:bg-accent hover:text-accent-foreground transition-colors text-sm font-medium"
+            >
+              <UserCog className="w-5 h-5" />
+              <span>My Account</span>
+            </Link>
+          )}
+        </nav>
+        {currentUser && (
+          <>
+            <div className="px-2 text-sm">
+              <p className="font-medium truncate" title={currentUser.username}>{currentUser.displayName}</p>
+              <p className="text-xs text-muted-foreground">{ROLE_LABELS[currentUser.role]}</p>
+            </div>
+            <form action={handleLogout}>
+              <Button variant="outline" className="w-full" type="submit" disabled={isPending}>
+                <LogOut className="w-5 h-5 mr-2" />
+                {isPending ? 'Logging out...' : 'Logout'}
+              </Button>
+            </form>
+          </>
+        )}
+      </aside>
+      <div className="flex flex-col flex-grow">
+        <main className="flex-grow p-6 lg:p-8">
+          {children}
+        </main>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,338 @@
+
+'use client';
+
+import { Fragment, useEffect, useState, type FormEvent } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import PaginationControlsClient from '@/components/PaginationControlsClient';
+import type { AuditAction, AuditEntry, AuditTargetType } from '@/types';
+import { ChevronDown, ChevronRight, Search, X } from 'lucide-react';
+
+interface AdminAuditClientPageProps {
+  entries: AuditEntry[];
+  totalEntries: number;
+  currentPage: number;
+  totalPages: number;
+  actorFilter: string;
+  actionFilter: AuditAction | '';
+  targetFilter: AuditTargetType | '';
+  targetIdFilter: string;
+  fromDate: string; // YYYY-MM-DD
+  toDate: string; // YYYY-MM-DD
+}
+
+const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'post.create': 'Created post',
+  'post.update': 'Updated post',
+  'post.restore_revision': 'Restored post revision',
+  'post.delete': 'Deleted post',
+  'comment.status': 'Changed comment status',
+  'comment.reply': 'Replied to comment',
+  'comment.delete': 'Deleted comment',
+  'settings.update': 'Updated settings',
+  'auth.login': 'Signed in',
+  'auth.login_failed': 'Failed sign-in',
+  'auth.logout': 'Signed out',
+  'auth.revoke_all_sessions': 'Revoked all sessions',
+  'user.create': 'Created user',
+  'user.update': 'Updated user',
+  'user.delete': 'Deleted user',
+  'user.reset_two_factor': 'Reset two-factor',
+  'account.enable_two_factor': 'Enabled two-factor',
+  'account.disable_two_factor': 'Disabled two-factor',
+  'account.regenerate_recovery_codes': 'Replaced recovery codes',
+  'site_rule.create': 'Created scraper rule',
+  'site_rule.update': 'Updated scraper rule',
+  'site_rule.delete': 'Deleted scraper rule',
+};
+
+const TARGET_TYPE_LABELS: Record<AuditTargetType, string> = {
+  post: 'Posts',
+  comment: 'Comments',
+  settings: 'Settings',
+  user: 'Users',
+  session: 'Sessions',
+  site_rule: 'Scraper rules',
+};
+
+function getActionBadgeVariant(action: AuditAction): 'default' | 'secondary' | 'destructive' | 'outline' {
+  if (action.endsWith('.delete') || action === 'auth.login_failed') return 'destructive';
+  if (action.startsWith('auth.')) return 'outline';
+  if (action.endsWith('.create')) return 'default';
+  return 'secondary';
+}
+
+// Where an entry's target can still be opened; deleted targets simply show their label
+function getTargetHref(entry: AuditEntry): string | null {
+  if (!entry.targetId || entry.action.endsWith('.delete')) return null;
+  if (entry.targetType === 'post') return `/admin/posts/edit/${entry.targetId}`;
+  if (entry.targetType === 'settings') return '/admin/settings';
+  if (entry.targetType === 'user') return '/admin/users';
+  if (entry.targetType === 'site_rule') return '/admin/scraper-rules';
+  return null;
+}
+
+const formatEntryTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+};
+
+export default function AdminAuditClientPage({
+  entries,
+  totalEntries,
+  currentPage,
+  totalPages,
+  actorFilter,
+  actionFilter,
+  targetFilter,
+  targetIdFilter,
+  fromDate,
+  toDate,
+}: AdminAuditClientPageProps) {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const [actorInput, setActorInput] = useState(actorFilter);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    setActorInput(actorFilter);
+  }, [actorFilter]);
+
+  // Filters live in the URL so the server component fetches only the matching page
+  const updateQuery = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    }
+    params.delete('page'); // Any filter change starts again from the first page
+    const query = params.toString();
+    router.push(query ? `/admin/audit?${query}` : '/admin/audit');
+  };
+
+  const handleActorSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    updateQuery({ actor: actorInput.trim() || null });
+  };
+
+  const toggleExpanded = (entryId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(entryId)) next.delete(entryId);
+      else next.add(entryId);
+      return next;
+    });
+  };
+
+  const hasFilters = !!(actorFilter || actionFilter || targetFilter || targetIdFilter || fromDate || toDate);
+
+  return (
+    <>
+      <div>
+        <h1 className="text-2xl font-bold tracking-tight">Audit Log</h1>
+        <p className="text-muted-foreground">Who changed what, and when, across posts, comments, settings and accounts.</p>
+      </div>
+
+      <Card className="shadow-sm">
+        <CardHeader>
+          <div className="flex flex-col lg:flex-row lg:flex-wrap lg:items-center gap-3">
+            <form onSubmit={handleActorSubmit} className="relative w-full lg:w-[200px]">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="Filter by user..."
+                className="pl-8"
+                value={actorInput}
+                onChange={(e) => setActorInput(e.target.value)}
+                aria-label="Filter by user"
+              />
+            </form>
+            <Select value={actionFilter || 'all'} onValueChange={(value) => updateQuery({ action: value === 'all' ? null : value })}>
+              <SelectTrigger className="w-full lg:w-[210px]" aria-label="Filter by action">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All actions</SelectItem>
+                {(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(action => (
+                  <SelectItem key={action} value={action}>{AUDIT_ACTION_LABELS[action]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={targetFilter || 'all'} onValueChange={(value) => updateQuery({ target: value === 'all' ? null : value })}>
+              <SelectTrigger className="w-full lg:w-[150px]" aria-label="Filter by target">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All targets</SelectItem>
+                {(Object.keys(TARGET_TYPE_LABELS) as AuditTargetType[]).map(type => (
+                  <SelectItem key={type} value={type}>{TARGET_TYPE_LABELS[type]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                className="w-[150px]"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => updateQuery({ from: e.target.value || null })}
+                aria-label="From date"
+              />
+              <span className="text-sm text-muted-foreground">to</span>
+              <Input
+                type="date"
+                className="w-[150px]"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => updateQuery({ to: e.target.value || null })}
+                aria-label="To date"
+              />
+            </div>
+            {targetIdFilter && (
+              <Badge variant="secondary" className="w-fit">
+                Target: {targetIdFilter}
+                <button type="button" onClick={() => updateQuery({ targetId: null })} className="ml-1.5" aria-label="Clear target filter">
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            )}
+            {hasFilters && (
+              <Button type="button" variant="ghost" size="sm" onClick={() => router.push('/admin/audit')}>
+                Clear filters
+              </Button>
+            )}
+            <p className="text-sm text-muted-foreground lg:ml-auto">
+              {totalEntries} {totalEntries === 1 ? 'entry' : 'entries'}
+            </p>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="text-muted-foreground text-center py-10">
+              {hasFilters ? 'No entries match these filters.' : 'Nothing has been recorded yet.'}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-[40px]" />
+                  <TableHead>Time</TableHead>
+                  <TableHead>User</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Target</TableHead>
+                  <TableHead className="hidden lg:table-cell">Details</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => {
+                  const isExpanded = expandedIds.has(entry.id);
+                  const targetHref = getTargetHref(entry);
+                  return (
+                    <Fragment key={entry.id}>
+                      <TableRow>
+                        <TableCell>
+                          {entry.changes.length > 0 && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-7 w-7"
+                              onClick={() => toggleExpanded(entry.id)}
+                              aria-label={isExpanded ? 'Hide changes' : 'Show changes'}
+                              aria-expanded={isExpanded}
+                            >
+                              {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                            </Button>
+                          )}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">{formatEntryTime(entry.createdAt)}</TableCell>
+                        <TableCell className="text-sm">
+                          <button
+                            type="button"
+                            onClick={() => updateQuery({ actor: entry.actorName })}
+                            className="font-medium hover:underline"
+                            title={`Show entries by ${entry.actorName}`}
+                          >
+                            {entry.actorName}
+                          </button>
+                          {entry.ipAddress && <div className="text-xs text-muted-foreground">{entry.ipAddress}</div>}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={getActionBadgeVariant(entry.action)} className="whitespace-nowrap">
+                            {AUDIT_ACTION_LABELS[entry.action] ?? entry.action}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm max-w-xs">
+                          <div className="truncate">
+                            {targetHref ? (
+                              <Link href={targetHref} className="hover:underline" title={entry.targetLabel}>
+                                {entry.targetLabel || entry.targetId}
+                              </Link>
+                            ) : (
+                              <span title={entry.targetLabel}>{entry.targetLabel || entry.targetId || '—'}</span>
+                            )}
+                          </div>
+                          {entry.targetId && (
+                            <button
+                              type="button"
+                              onClick={() => updateQuery({ targetId: entry.targetId ?? null, target: entry.targetType })}
+                              className="text-xs text-muted-foreground hover:underline"
+                              title="Show the history of this item"
+                            >
+                              History
+                            </button>
+                          )}
+                        </TableCell>
+                        <TableCell className="hidden lg:table-cell text-sm text-muted-foreground">
+                          {entry.summary || (entry.changes.length > 0
+                            ? `${entry.changes.length} ${entry.changes.length === 1 ? 'field' : 'fields'} changed`
+                            : '')}
+                        </TableCell>
+                      </TableRow>
+                      {isExpanded && (
+                        <TableRow className="bg-muted/30 hover:bg-muted/30">
+                          <TableCell />
+                          <TableCell colSpan={5}>
+                            <div className="space-y-2 text-sm">
+                              {entry.changes.map(change => (
+                                <div key={change.field} className="grid grid-cols-1 md:grid-cols-[160px_1fr_1fr] gap-2">
+                                  <span className="font-medium">{change.field}</span>
+                                  <pre className="whitespace-pre-wrap break-all text-xs bg-destructive/10 p-2 rounded max-h-48 overflow-auto">
+                                    {change.before ?? '(empty)'}
+                                  </pre>
+                                  <pre className="whitespace-pre-wrap break-all text-xs bg-primary/10 p-2 rounded max-h-48 overflow-auto">
+                                    {change.after ?? '(empty)'}
+                                  </pre>
+                                </div>
+                              ))}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+          <PaginationControlsClient
+            currentPage={currentPage}
+            totalPages={totalPages}
+            basePath="/admin/audit"
+          />
+        </CardContent>
+      </Card>
+    </>
+  );
+}
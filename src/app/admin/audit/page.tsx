@@ -0,0 +1,81 @@
+
+import * as auditService from '@/lib/audit-service';
+import type { AuditAction, AuditTargetType } from '@/types';
+import AdminAuditClientPage from './client-page';
+import { getCurrentUser } from '@/lib/auth';
+import { canViewAuditLog } from '@/lib/permissions';
+import AccessDenied from '@/components/AccessDenied';
+
+export const dynamic = 'force-dynamic';
+
+const AUDIT_ENTRIES_PER_PAGE = 50;
+const AUDIT_TARGET_TYPES: AuditTargetType[] = ['post', 'comment', 'settings', 'user', 'session', 'site_rule'];
+
+interface AdminAuditPageProps {
+  searchParams?: {
+    page?: string;
+    actor?: string;
+    action?: string;
+    target?: string;
+    targetId?: string;
+    from?: string;
+    to?: string;
+  };
+}
+
+// "YYYY-MM-DD" from a date input, or undefined for anything else
+function parseDateParam(value: string | undefined): string | undefined {
+  if (!value || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  return Number.isNaN(new Date(`${value}T00:00:00Z`).getTime()) ? undefined : value;
+}
+
+export default async function AdminAuditPage({ searchParams }: AdminAuditPageProps) {
+  const currentUser = await getCurrentUser();
+  if (!currentUser || !canViewAuditLog(currentUser)) {
+    return <AccessDenied message="Only admins can view the audit log." />;
+  }
+
+  const currentPage = Math.max(Number(searchParams?.page) || 1, 1);
+  const actorFilter = searchParams?.actor?.trim() || '';
+  const actionFilter = (/^[a-z_]+\.[a-z_]+$/.test(searchParams?.action || '') ? searchParams?.action : '') as AuditAction | '';
+  const targetFilter = AUDIT_TARGET_TYPES.find(type => type === searchParams?.target);
+  const targetIdFilter = searchParams?.targetId?.trim() || '';
+  const fromDate = parseDateParam(searchParams?.from);
+  const toDate = parseDateParam(searchParams?.to);
+
+  // Date filters cover whole days (UTC); "to" is inclusive, so the query runs until the next midnight
+  let until: string | undefined;
+  if (toDate) {
+    const dayAfter = new Date(`${toDate}T00:00:00Z`);
+    dayAfter.setUTCDate(dayAfter.getUTCDate() + 1);
+    until = dayAfter.toISOString();
+  }
+
+  const { entries, total } = await auditService.queryAuditEntries({
+    actor: actorFilter || undefined,
+    action: actionFilter || undefined,
+    targetType: targetFilter,
+    targetId: targetIdFilter || undefined,
+    since: fromDate ? `${fromDate}T00:00:00.000Z` : undefined,
+    until,
+    limit: AUDIT_ENTRIES_PER_PAGE,
+    offset: (currentPage - 1) * AUDIT_ENTRIES_PER_PAGE,
+  });
+
+  return (
+    <div className="space-y-6">
+      <AdminAuditClientPage
+        entries={entries}
+        totalEntries={total}
+        currentPage={currentPage}
+        totalPages={Math.ceil(total / AUDIT_ENTRIES_PER_PAGE)}
+        actorFilter={actorFilter}
+        actionFilter={actionFilter}
+        targetFilter={targetFilter ?? ''}
+        targetIdFilter={targetIdFilter}
+        fromDate={fromDate ?? ''}
+        toDate={toDate ?? ''}
+      />
+    </div>
+  );
+}
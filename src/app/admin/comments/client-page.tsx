@@ -6,11 +6,12 @@ import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import type { Comment } from '@/types';
-import { CheckCircle, XCircle, Trash2, ExternalLink, Info, Loader2 } from 'lucide-react';
+import { CheckCircle, XCircle, Trash2, ExternalLink, Loader2, Reply, ShieldCheck, ShieldAlert, CornerDownRight } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { updateCommentStatusAction, deleteCommentAction, adminReplyToCommentAction } from '@/app/actions';
+import { Textarea } from '@/components/ui/textarea';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -22,6 +23,14 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 
 interface AdminCommentsClientPageProps {
   initialComments: Comment[];
@@ -31,33 +40,83 @@ export default function AdminCommentsClientPage({ initialComments }: AdminCommen
   const [comments, setComments] = useState<Comment[]>(initialComments);
   const { toast } = useToast();
   const [isProcessing, startTransition] = useTransition();
+  const [replyTarget, setReplyTarget] = useState<Comment | null>(null);
+  const [replyText, setReplyText] = useState('');
 
   useEffect(() => {
     setComments(initialComments);
   }, [initialComments]);
 
   const handleUpdateStatus = (commentId: string, newStatus: Comment['status']) => {
-    startTransition(() => {
-      setComments(prev =>
-        prev.map(comment =>
-          comment.id === commentId ? { ...comment, status: newStatus } : comment
-        )
-      );
-      toast({
-        title: `Comment ${newStatus}`,
-        description: `Comment from ${comments.find(c => c.id === commentId)?.authorName || 'user'} has been ${newStatus} (simulation).`,
-      });
+    const commentAuthor = comments.find(c => c.id === commentId)?.authorName || 'user';
+    startTransition(async () => {
+      const result = await updateCommentStatusAction(commentId, newStatus);
+      if (result.success) {
+        setComments(prev =>
+          prev.map(comment =>
+            comment.id === commentId ? { ...comment, status: newStatus } : comment
+          )
+        );
+        toast({
+          title: `Comment ${newStatus}`,
+          description: `Comment from ${commentAuthor} has been ${newStatus}.`,
+        });
+      } else {
+        toast({
+          variant: 'destructive',
+          title: 'Error Updating Comment',
+          description: result.message || 'Could not update the comment.',
+        });
+      }
+    });
+  };
+
+  const handleAdminReply = () => {
+    if (!replyTarget) return;
+    const target = replyTarget;
+    startTransition(async () => {
+      const result = await adminReplyToCommentAction(target.id, replyText);
+      if (result.success && result.reply) {
+        const reply = result.reply;
+        setComments(prev => [
+          reply,
+          ...prev.map(comment =>
+            comment.id === target.id ? { ...comment, status: 'approved' as const } : comment
+          ),
+        ]);
+        toast({
+          title: 'Reply Posted',
+          description: `Your reply to ${target.authorName} is now live.`,
+        });
+        setReplyTarget(null);
+        setReplyText('');
+      } else {
+        toast({
+          variant: 'destructive',
+          title: 'Error Posting Reply',
+          description: result.message || 'Could not post the reply.',
+        });
+      }
     });
   };
 
   const handleDeleteComment = (commentId: string) => {
-    startTransition(() => {
-      const commentAuthor = comments.find(c => c.id === commentId)?.authorName || 'user';
-      setComments(prev => prev.filter(comment => comment.id !== commentId));
-      toast({
-        title: 'Comment Deleted',
-        description: `Comment from ${commentAuthor} has been deleted (simulation).`,
-      });
+    const commentAuthor = comments.find(c => c.id === commentId)?.authorName || 'user';
+    startTransition(async () => {
+      const result = await deleteCommentAction(commentId);
+      if (result.success) {
+        setComments(prev => prev.filter(comment => comment.id !== commentId));
+        toast({
+          title: 'Comment Deleted',
+          description: `Comment from ${commentAuthor} has been deleted.`,
+        });
+      } else {
+        toast({
+          variant: 'destructive',
+          title: 'Error Deleting Comment',
+          description: result.message || 'Could not delete the comment.',
+        });
+      }
     });
   };
 
@@ -93,15 +152,6 @@ export default function AdminCommentsClientPage({ initialComments }: AdminCommen
         </p>
       </div>
 
-      <Alert variant="default" className="mb-6 bg-blue-50 border-blue-300 dark:bg-blue-950 dark:border-blue-700">
-        <Info className="h-5 w-5 text-blue-600 dark:text-blue-400" />
-        <AlertTitle className="font-semibold text-blue-700 dark:text-blue-300">Placeholder System</AlertTitle>
-        <AlertDescription className="text-blue-600 dark:text-blue-400">
-          This is a placeholder comment management system. Comments are mock data and are not persisted.
-          Approval, rejection, and deletion are simulations only. Full functionality requires backend integration.
-        </AlertDescription>
-      </Alert>
-
       <Card className="shadow-sm">
         <CardHeader>
           <CardTitle>All Comments ({comments.length})</CardTitle>
@@ -121,6 +171,7 @@ export default function AdminCommentsClientPage({ initialComments }: AdminCommen
                   <TableHead className="hidden lg:table-cell">Related Post</TableHead>
                   <TableHead className="hidden sm:table-cell">Date</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead className="hidden md:table-cell">Flagged By</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
                 </TableRow>
               </TableHeader>
@@ -129,9 +180,21 @@ export default function AdminCommentsClientPage({ initialComments }: AdminCommen
                   <TableRow key={comment.id}>
                     <TableCell className="font-medium">
                         {comment.authorName}
+                        {comment.isAdminReply && (
+                          <Badge variant="outline" className="ml-2 text-[10px] px-1.5 py-0 align-middle">
+                            <ShieldCheck className="w-3 h-3 mr-1" />
+                            Admin
+                          </Badge>
+                        )}
                         {comment.authorEmail && <div className="text-xs text-muted-foreground">{comment.authorEmail}</div>}
                     </TableCell>
                     <TableCell className="max-w-xs truncate text-sm text-muted-foreground" title={comment.content}>
+                      {comment.parentId && (
+                        <div className="text-xs flex items-center">
+                          <CornerDownRight className="w-3 h-3 mr-1" />
+                          Reply to {comments.find(c => c.id === comment.parentId)?.authorName || 'a comment'}
+                        </div>
+                      )}
                       {comment.content.substring(0, 60)}{comment.content.length > 60 ? '...' : ''}
                     </TableCell>
                     <TableCell className="hidden lg:table-cell text-xs">
@@ -149,12 +212,37 @@ export default function AdminCommentsClientPage({ initialComments }: AdminCommen
                         {comment.status}
                       </Badge>
                     </TableCell>
+                    <TableCell className="hidden md:table-cell text-xs">
+                      {comment.flaggedBy ? (
+                        <div className="flex items-start gap-1" title={comment.flagReason}>
+                          <ShieldAlert className="w-3.5 h-3.5 mt-0.5 text-orange-600 flex-shrink-0" />
+                          <div>
+                            <span className="font-medium">{comment.flaggedBy}</span>
+                            {comment.flagReason && (
+                              <div className="text-muted-foreground line-clamp-2">{comment.flagReason}</div>
+                            )}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-muted-foreground">&mdash;</span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-right space-x-1">
+                      {comment.status !== 'rejected' && (
+                        <Button variant="ghost" size="icon" title="Reply as Admin" onClick={() => { setReplyTarget(comment); setReplyText(''); }} disabled={isProcessing}>
+                          <Reply className="w-4 h-4 text-primary" />
+                        </Button>
+                      )}
                       {comment.status === 'pending' && (
                         <Button variant="ghost" size="icon" title="Approve Comment" onClick={() => handleUpdateStatus(comment.id, 'approved')} disabled={isProcessing}>
                           {isProcessing ? <Loader2 className="w-4 h-4 animate-spin"/> : <CheckCircle className="w-4 h-4 text-green-600" />}
                         </Button>
                       )}
+                      {comment.status === 'rejected' && (
+                        <Button variant="ghost" size="icon" title="Approve Comment" onClick={() => handleUpdateStatus(comment.id, 'approved')} disabled={isProcessing}>
+                          {isProcessing ? <Loader2 className="w-4 h-4 animate-spin"/> : <CheckCircle className="w-4 h-4 text-green-600" />}
+                        </Button>
+                      )}
                       {(comment.status === 'pending' || comment.status === 'approved') && (
                         <Button variant="ghost" size="icon" title="Reject Comment" onClick={() => handleUpdateStatus(comment.id, 'rejected')} disabled={isProcessing}>
                           {isProcessing ? <Loader2 className="w-4 h-4 animate-spin"/> : <XCircle className="w-4 h-4 text-orange-600" />}
@@ -170,7 +258,7 @@ export default function AdminCommentsClientPage({ initialComments }: AdminCommen
                           <AlertDialogHeader>
                             <AlertDialogTitle>Are you sure?</AlertDialogTitle>
                             <AlertDialogDescription>
-                              This will permanently delete the comment by &quot;{comment.authorName}&quot;. This action is a simulation and cannot be undone in this demo.
+                              This will permanently delete the comment by &quot;{comment.authorName}&quot;. This action cannot be undone.
                             </AlertDialogDescription>
                           </AlertDialogHeader>
                           <AlertDialogFooter>
@@ -193,6 +281,38 @@ export default function AdminCommentsClientPage({ initialComments }: AdminCommen
           )}
         </CardContent>
       </Card>
+
+      <Dialog open={replyTarget !== null} onOpenChange={(open) => { if (!open) setReplyTarget(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reply to {replyTarget?.authorName}</DialogTitle>
+            <DialogDescription>
+              Your reply is published immediately with an author badge.
+              {replyTarget?.status === 'pending' && ' The original comment will be approved as well.'}
+            </DialogDescription>
+          </DialogHeader>
+          {replyTarget && (
+            <blockquote className="border-l-2 pl-3 text-sm text-muted-foreground whitespace-pre-line max-h-32 overflow-y-auto">
+              {replyTarget.content}
+            </blockquote>
+          )}
+          <Textarea
+            placeholder="Write your reply..."
+            rows={4}
+            value={replyText}
+            onChange={(e) => setReplyText(e.target.value)}
+            disabled={isProcessing}
+            aria-label="Admin reply"
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReplyTarget(null)} disabled={isProcessing}>Cancel</Button>
+            <Button onClick={handleAdminReply} disabled={isProcessing || replyText.trim().length < 2}>
+              {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Reply className="w-4 h-4 mr-2" />}
+              Post Reply
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </>
   );
 }
@@ -8,7 +8,6 @@ export default function CommentsTableSkeleton() {
     <>
       <Skeleton className="h-8 w-48 mb-1" />
       <Skeleton className="h-4 w-64 mb-6" />
-      <Skeleton className="h-20 w-full mb-6" /> 
       <Card>
         <CardHeader>
           <Skeleton className="h-6 w-1/3" />
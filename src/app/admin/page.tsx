@@ -2,16 +2,48 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import Link from "next/link";
-import { FileText, BarChart2, Settings, Newspaper, TagsIcon } from "lucide-react"; // Added Newspaper, TagsIcon
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { FileText, BarChart2, Settings, Newspaper, TagsIcon, Users, ShieldAlert } from "lucide-react"; // Added Newspaper, TagsIcon
 import * as postService from '@/lib/post-service'; // Import postService
+import * as loginAttemptService from '@/lib/login-attempt-service';
+import type { LoginAttemptOutcome } from '@/types';
+import { getCurrentUser } from '@/lib/auth';
+import { canCreatePosts, canManageSettings, canManageUsers } from '@/lib/permissions';
+
+const LOGIN_OUTCOME_LABELS: Record<LoginAttemptOutcome, string> = {
+  pending: 'In progress',
+  success: 'Signed in',
+  invalid_credentials: 'Wrong credentials',
+  invalid_two_factor: 'Wrong 2FA code',
+  throttled: 'Throttled',
+};
+
+function formatAttemptTime(dateString: string) {
+  return new Date(dateString).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
 
 export default async function AdminDashboardPage() {
-  const posts = await postService.getAllPosts();
-  const totalPosts = posts.length;
+  const [currentUser, { total: totalPosts }, tagCounts] = await Promise.all([
+    getCurrentUser(),
+    postService.queryPosts({ limit: 0 }), // Count only, no rows
+    postService.getTagCounts(),
+  ]);
+  const totalUniqueTags = tagCounts.length;
 
-  const allTags = posts.flatMap(post => post.tags);
-  const uniqueTags = new Set(allTags.map(tag => tag.toLowerCase()));
-  const totalUniqueTags = uniqueTags.size;
+  // The sign-in audit is only shown to those who manage user accounts
+  const showLoginAudit = !!currentUser && canManageUsers(currentUser);
+  const [recentLogins, failedLoginsLastDay] = showLoginAudit
+    ? await Promise.all([
+        loginAttemptService.getRecentLoginAttempts(10),
+        loginAttemptService.countFailedLoginAttempts(new Date(Date.now() - 24 * 60 * 60 * 1000)),
+      ])
+    : [[], 0];
 
   return (
     <div className="space-y-8">
@@ -47,6 +79,7 @@ export default async function AdminDashboardPage() {
           </CardContent>
         </Card>
 
+        {currentUser && canCreatePosts(currentUser) && (
         <Card className="hover:shadow-lg transition-shadow">
           <CardHeader className="pb-4">
             <div className="flex items-center justify-between">
@@ -61,7 +94,26 @@ export default async function AdminDashboardPage() {
             </Link>
           </CardContent>
         </Card>
+        )}
+
+        {currentUser && canManageUsers(currentUser) && (
+        <Card className="hover:shadow-lg transition-shadow">
+          <CardHeader className="pb-4">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg font-semibold">Users</CardTitle>
+              <Users className="w-6 h-6 text-primary" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            <CardDescription className="mb-3">Add team members and choose what each of them can do.</CardDescription>
+            <Link href="/admin/users">
+              <Button className="w-full">Manage Users</Button>
+            </Link>
+          </CardContent>
+        </Card>
+        )}
 
+        {currentUser && canManageSettings(currentUser) && (
         <Card className="hover:shadow-lg transition-shadow">
           <CardHeader className="pb-4">
             <div className="flex items-center justify-between">
@@ -76,6 +128,7 @@ export default async function AdminDashboardPage() {
             </Link>
           </CardContent>
         </Card>
+        )}
 
         <Card className="hover:shadow-lg transition-shadow">
           <CardHeader className="pb-4">
@@ -91,6 +144,53 @@ export default async function AdminDashboardPage() {
         </Card>
         
       </div>
+
+      {showLoginAudit && (
+        <Card>
+          <CardHeader className="pb-4">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg font-semibold">Sign-in Activity</CardTitle>
+              <ShieldAlert className="w-6 h-6 text-primary" />
+            </div>
+            <CardDescription>
+              {failedLoginsLastDay} failed or throttled sign-in {failedLoginsLastDay === 1 ? 'attempt' : 'attempts'} in the last 24 hours.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {recentLogins.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No sign-in attempts recorded yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Username</TableHead>
+                    <TableHead className="hidden sm:table-cell">IP Address</TableHead>
+                    <TableHead className="text-right">Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {recentLogins.map(attempt => (
+                    <TableRow key={attempt.id}>
+                      <TableCell className="text-sm whitespace-nowrap">{formatAttemptTime(attempt.createdAt)}</TableCell>
+                      <TableCell className="text-sm max-w-[12rem] truncate" title={attempt.userAgent}>{attempt.username}</TableCell>
+                      <TableCell className="hidden sm:table-cell text-sm text-muted-foreground">{attempt.ipAddress || 'Unknown'}</TableCell>
+                      <TableCell className="text-right">
+                        <Badge variant={attempt.outcome === 'success' ? 'secondary' : 'destructive'}>
+                          {LOGIN_OUTCOME_LABELS[attempt.outcome]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <Link href="/admin/audit?target=session" className="inline-block mt-4 text-sm text-primary hover:underline">
+              View the full audit log
+            </Link>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
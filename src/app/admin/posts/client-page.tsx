@@ -1,14 +1,20 @@
 
 'use client';
 
-import { useEffect, useState, useTransition } from 'react';
+import { useEffect, useState, useTransition, type FormEvent } from 'react';
 import Link from 'next/link';
 import Image from 'next/image';
+import { useRouter, useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader } from '@/components/ui/card'; 
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
-import type { Post } from '@/types';
-import { PlusCircle, Edit2, Trash2, ExternalLink, Loader2, Eye, Image as ImageIcon } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import PaginationControlsClient from '@/components/PaginationControlsClient';
+import type { PostStatus, PostSummary } from '@/types';
+import type { PostSortField } from '@/lib/post-service';
+import { PlusCircle, Edit2, Trash2, ExternalLink, Loader2, Eye, Image as ImageIcon, Search, X } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { deletePostAction } from '@/app/actions'; 
 import {
@@ -24,19 +30,83 @@ import {
 } from "@/components/ui/alert-dialog";
 
 interface AdminPostsClientPageProps {
-  initialPosts: Post[];
+  initialPosts: PostSummary[];
+  totalPosts: number;
+  currentPage: number;
+  totalPages: number;
+  searchTerm: string;
+  tagFilter: string;
+  statusFilter: PostStatus | '';
+  sort: PostSortField;
+  ownPostsOnly: boolean; // The listing is limited to the signed-in author's posts
 }
 
-export default function AdminPostsClientPage({ initialPosts }: AdminPostsClientPageProps) {
-  const [posts, setPosts] = useState<Post[]>(initialPosts);
+const STATUS_LABELS: Record<PostStatus, string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+// Mirrors isPostPubliclyVisible in post-service, which can't be imported into a client component
+function isLive(post: PostSummary): boolean {
+  return (post.status === 'published' || post.status === 'scheduled') && new Date(post.date).getTime() <= Date.now();
+}
+
+function getPostViewHref(post: PostSummary): string {
+  return isLive(post) ? `/posts/${post.slug}` : `/admin/posts/preview/${post.id}`;
+}
+
+const SORT_LABELS: Record<PostSortField, string> = {
+  date: 'Newest first',
+  title: 'Title (A-Z)',
+  viewCount: 'Most viewed',
+};
+
+export default function AdminPostsClientPage({
+  initialPosts,
+  totalPosts,
+  currentPage,
+  totalPages,
+  searchTerm,
+  tagFilter,
+  statusFilter,
+  sort,
+  ownPostsOnly,
+}: AdminPostsClientPageProps) {
+  const [posts, setPosts] = useState<PostSummary[]>(initialPosts);
+  const [searchInput, setSearchInput] = useState(searchTerm);
   const [isLoading, setIsLoading] = useState(false); 
   const { toast } = useToast();
   const [isPending, startTransition] = useTransition(); 
+  const router = useRouter();
+  const searchParams = useSearchParams();
 
   useEffect(() => {
     setPosts(initialPosts);
   }, [initialPosts]);
 
+  useEffect(() => {
+    setSearchInput(searchTerm);
+  }, [searchTerm]);
+
+  // Filters live in the URL so the server component fetches only the matching page
+  const updateQuery = (changes: Record<string, string | null>) => {
+    const params = new URLSearchParams(searchParams.toString());
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) params.set(key, value);
+      else params.delete(key);
+    }
+    params.delete('page'); // Any filter change starts again from the first page
+    const query = params.toString();
+    router.push(query ? `/admin/posts?${query}` : '/admin/posts');
+  };
+
+  const handleSearchSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    updateQuery({ search: searchInput.trim() || null });
+  };
+
   const handleDeletePost = async (postId: string, postTitle: string) => {
     startTransition(async () => {
       setIsLoading(true); 
@@ -72,7 +142,7 @@ export default function AdminPostsClientPage({ initialPosts }: AdminPostsClientP
         <div>
           <h1 className="text-2xl font-bold tracking-tight">Blog Posts</h1>
           <p className="text-muted-foreground">
-            Manage all your blog posts here.
+            {ownPostsOnly ? 'Manage the posts you have written.' : 'Manage all your blog posts here.'}
           </p>
         </div>
         <Link href="/admin/posts/new">
@@ -85,11 +155,56 @@ export default function AdminPostsClientPage({ initialPosts }: AdminPostsClientP
 
       <Card className="shadow-sm">
         <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+            <form onSubmit={handleSearchSubmit} className="relative w-full sm:w-[300px]">
+              <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                type="search"
+                placeholder="Search titles, tags and text..."
+                className="pl-8"
+                value={searchInput}
+                onChange={(e) => setSearchInput(e.target.value)}
+                aria-label="Search posts"
+              />
+            </form>
+            <Select value={statusFilter || 'all'} onValueChange={(value) => updateQuery({ status: value === 'all' ? null : value })}>
+              <SelectTrigger className="w-full sm:w-[150px]" aria-label="Filter by status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(STATUS_LABELS) as PostStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={sort} onValueChange={(value) => updateQuery({ sort: value === 'date' ? null : value })}>
+              <SelectTrigger className="w-full sm:w-[180px]" aria-label="Sort posts">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as PostSortField[]).map(option => (
+                  <SelectItem key={option} value={option}>{SORT_LABELS[option]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {tagFilter && (
+              <Badge variant="secondary" className="w-fit">
+                Tag: {tagFilter}
+                <button type="button" onClick={() => updateQuery({ tag: null })} className="ml-1.5" aria-label="Clear tag filter">
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            )}
+            <p className="text-sm text-muted-foreground sm:ml-auto">
+              {totalPosts} {totalPosts === 1 ? 'post' : 'posts'}
+            </p>
+          </div>
         </CardHeader>
         <CardContent>
           {posts.length === 0 && !isLoading ? (
             <p className="text-muted-foreground text-center py-10">
-              No posts yet. Create your first one!
+              {searchTerm || tagFilter || statusFilter ? 'No posts match these filters.' : 'No posts yet. Create your first one!'}
             </p>
           ) : (
             <Table>
@@ -123,16 +238,33 @@ export default function AdminPostsClientPage({ initialPosts }: AdminPostsClientP
                       )}
                     </TableCell>
                     <TableCell className="font-medium max-w-xs truncate">
-                      <Link href={`/posts/${post.slug}`} className="hover:underline" target="_blank" title={post.title}>
+                      <Link href={getPostViewHref(post)} className="hover:underline" target="_blank" title={post.title}>
                         {post.title}
                       </Link>
+                      {!ownPostsOnly && post.authorName && (
+                        <div className="text-xs font-normal text-muted-foreground truncate">by {post.authorName}</div>
+                      )}
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell">
+                      <div>{formatDate(post.date)}</div>
+                      <Badge
+                        variant={isLive(post) ? 'default' : post.status === 'archived' ? 'outline' : 'secondary'}
+                        className="mt-1 text-[10px] px-1.5 py-0"
+                      >
+                        {isLive(post) ? 'Published' : STATUS_LABELS[post.status]}
+                      </Badge>
                     </TableCell>
-                    <TableCell className="hidden sm:table-cell">{formatDate(post.date)}</TableCell>
                     <TableCell className="hidden md:table-cell text-xs">
                       {post.tags.slice(0, 3).map(tag => (
-                        <span key={tag} className="mr-1 mb-1 inline-block px-2 py-0.5 bg-secondary text-secondary-foreground rounded-full text-xs">
+                        <button
+                          key={tag}
+                          type="button"
+                          onClick={() => updateQuery({ tag })}
+                          className="mr-1 mb-1 inline-block px-2 py-0.5 bg-secondary text-secondary-foreground rounded-full text-xs hover:bg-secondary/80"
+                          title={`Show posts tagged "${tag}"`}
+                        >
                           {tag}
-                        </span>
+                        </button>
                       ))}
                       {post.tags.length > 3 ? '...' : ''}
                     </TableCell>
@@ -143,8 +275,8 @@ export default function AdminPostsClientPage({ initialPosts }: AdminPostsClientP
                       </div>
                     </TableCell>
                     <TableCell className="text-right space-x-1">
-                       <Button variant="ghost" size="icon" asChild title="View Post">
-                          <Link href={`/posts/${post.slug}`} target="_blank">
+                       <Button variant="ghost" size="icon" asChild title={isLive(post) ? 'View Post' : 'Preview Post'}>
+                          <Link href={getPostViewHref(post)} target="_blank">
                              <ExternalLink className="w-4 h-4" />
                           </Link>
                        </Button>
@@ -184,6 +316,12 @@ export default function AdminPostsClientPage({ initialPosts }: AdminPostsClientP
               </TableBody>
             </Table>
           )}
+          <PaginationControlsClient
+            currentPage={currentPage}
+            totalPages={totalPages}
+            currentSearchTerm={searchTerm}
+            basePath="/admin/posts"
+          />
         </CardContent>
       </Card>
     </>
@@ -20,17 +20,19 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Loader2 as Loader2Icon, Sparkles, AlertCircle, Save, BrainCircuit } from 'lucide-react';
+import { ArrowLeft, Loader2 as Loader2Icon, Sparkles, AlertCircle, Save, BrainCircuit, FileText, CalendarClock, Search, Archive, Eye, Quote } from 'lucide-react';
 import { updatePostAction } from '@/app/actions'; 
-import type { Post } from '@/types';
+import type { Post, PostRevision } from '@/types';
 import { suggestTags } from '@/ai/flows/suggest-tags';
 import { suggestTitles } from '@/ai/flows/suggest-titles';
 import { suggestImageAltText } from '@/ai/flows/suggest-image-alt-text';
 import { Badge } from '@/components/ui/badge';
 import { Label } from '@/components/ui/label';
+import RevisionsPanel from './revisions-panel';
 
 
 const postFormClientSchema = z.object({
@@ -40,18 +42,41 @@ const postFormClientSchema = z.object({
   content: z.string().min(50, { message: 'Content must be at least 50 characters long (HTML content).' }),
   tags: z.string().optional(), 
   thumbnailUrl: z.string().optional(), 
+  publishAt: z.string().optional(), // datetime-local value, only used when scheduling
+  seoTitle: z.string().max(100, { message: 'SEO title must be 100 characters or less.' }).optional(),
+  seoDescription: z.string().max(300, { message: 'SEO description must be 300 characters or less.' }).optional(),
+  sourceUrl: z.string().url({ message: 'Source URL must be a valid URL.' }).max(2000).optional().or(z.literal('')),
+  sourceAuthor: z.string().max(200, { message: 'Original author must be 200 characters or less.' }).optional(),
+  sourcePublishedAt: z.string().optional(), // datetime-local value
 });
 
 type PostFormClientValues = z.infer<typeof postFormClientSchema>;
+type PublishIntent = 'draft' | 'schedule' | 'publish' | 'archive';
+
+const STATUS_LABELS: Record<Post['status'], string> = {
+  draft: 'Draft',
+  scheduled: 'Scheduled',
+  published: 'Published',
+  archived: 'Archived',
+};
+
+// Formats an ISO timestamp for a datetime-local input, in the browser's time zone
+function toDateTimeLocalValue(isoString?: string): string {
+  if (!isoString) return '';
+  const date = new Date(isoString);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
 
 interface ClientEditPageProps {
   initialPostData: Post;
+  initialRevisions: PostRevision[];
 }
 
 const MAX_THUMBNAIL_SIZE_MB = 5;
 const MAX_THUMBNAIL_SIZE_BYTES = MAX_THUMBNAIL_SIZE_MB * 1024 * 1024;
 
-export default function ClientEditPage({ initialPostData }: ClientEditPageProps) {
+export default function ClientEditPage({ initialPostData, initialRevisions }: ClientEditPageProps) {
   const { toast } = useToast();
   const router = useRouter();
   const editorRef = useRef<any>(null);
@@ -60,6 +85,8 @@ export default function ClientEditPage({ initialPostData }: ClientEditPageProps)
   const [thumbnailFile, setThumbnailFile] = useState<File | null>(null); 
   const [thumbnailPreview, setThumbnailPreview] = useState<string | null>(initialPostData.thumbnailUrl || null); 
   const [isSubmittingForm, setIsSubmittingForm] = useState(false);
+  const [submitIntent, setSubmitIntent] = useState<PublishIntent>('publish');
+  const [revisions, setRevisions] = useState<PostRevision[]>(initialRevisions);
 
   const [suggestedAiTags, setSuggestedAiTags] = useState<string[]>([]);
   const [isSuggestingTags, setIsSuggestingTags] = useState(false);
@@ -82,6 +109,12 @@ export default function ClientEditPage({ initialPostData }: ClientEditPageProps)
       content: initialPostData.content || '<p>Edit your content...</p>',
       tags: initialPostData.tags ? initialPostData.tags.join(', ') : '',
       thumbnailUrl: initialPostData.thumbnailUrl || '', 
+      publishAt: initialPostData.status === 'scheduled' ? toDateTimeLocalValue(initialPostData.publishAt) : '',
+      seoTitle: initialPostData.seoTitle || '',
+      seoDescription: initialPostData.seoDescription || '',
+      sourceUrl: initialPostData.sourceUrl || '',
+      sourceAuthor: initialPostData.sourceAuthor || '',
+      sourcePublishedAt: toDateTimeLocalValue(initialPostData.sourcePublishedAt),
     },
     mode: 'onChange',
   });
@@ -250,7 +283,12 @@ export default function ClientEditPage({ initialPostData }: ClientEditPageProps)
   };
 
 
-  const onSubmit = async (data: PostFormClientValues) => {
+  const onSubmit = async (data: PostFormClientValues, intent: PublishIntent = 'publish') => {
+    if (intent === 'schedule' && !data.publishAt) {
+      form.setError('publishAt', { type: 'manual', message: 'Pick a date and time to schedule the post for.' });
+      return;
+    }
+    setSubmitIntent(intent);
     setIsSubmittingForm(true);
         
     const validationResult = await form.trigger();
@@ -298,6 +336,17 @@ export default function ClientEditPage({ initialPostData }: ClientEditPageProps)
     formData.append('slug', data.slug);
     formData.append('content', data.content);
     formData.append('tags', Array.from(new Set(finalTags)).join(', '));
+    formData.append('seoTitle', data.seoTitle || '');
+    formData.append('seoDescription', data.seoDescription || '');
+    formData.append('sourceUrl', data.sourceUrl || '');
+    formData.append('sourceAuthor', data.sourceAuthor || '');
+    if (data.sourcePublishedAt) {
+      formData.append('sourcePublishedAt', new Date(data.sourcePublishedAt).toISOString()); // The input is in the editor's local time
+    }
+    formData.append('intent', intent);
+    if (intent === 'schedule' && data.publishAt) {
+      formData.append('publishAt', new Date(data.publishAt).toISOString()); // The input is in the editor's local time
+    }
 
     if (thumbnailFile) { 
       formData.append('thumbnailFile', thumbnailFile);
@@ -352,8 +401,25 @@ export default function ClientEditPage({ initialPostData }: ClientEditPageProps)
   };
   
   const allSuggestionsDisabled = isSubmittingForm || isSuggestingTags || isSuggestingTitles || isSuggestingAltText;
+  // Scheduled posts are live once their time has passed; publishing them again keeps that date
+  const isLive = initialPostData.status === 'published'
+    || (initialPostData.status === 'scheduled' && new Date(initialPostData.date).getTime() <= Date.now());
+
+  const handleRevisionRestored = (restoredPost: Post, updatedRevisions: PostRevision[]) => {
+    form.reset({
+      ...form.getValues(),
+      title: restoredPost.title,
+      slug: restoredPost.slug,
+      content: restoredPost.content,
+      tags: restoredPost.tags.join(', '),
+    });
+    editorRef.current?.setContent(restoredPost.content);
+    setRevisions(updatedRevisions);
+    router.refresh();
+  };
 
   return (
+    <div className="space-y-8">
     <Card className="max-w-3xl mx-auto shadow-lg">
       <CardHeader>
         <div className="flex items-center justify-between mb-2">
@@ -365,11 +431,21 @@ export default function ClientEditPage({ initialPostData }: ClientEditPageProps)
             </Link>
           </Button>
         </div>
-        <CardDescription>Modify the details below to update your blog post.</CardDescription>
+        <CardDescription className="flex flex-wrap items-center gap-2">
+          Modify the details below to update your blog post.
+          <Badge variant={initialPostData.status === 'published' ? 'default' : 'secondary'}>
+            {STATUS_LABELS[initialPostData.status]}
+            {initialPostData.status === 'scheduled' && initialPostData.publishAt && ` for ${new Date(initialPostData.publishAt).toLocaleString()}`}
+          </Badge>
+          <Link href={`/admin/posts/preview/${initialPostData.id}`} target="_blank" className="inline-flex items-center text-xs text-primary hover:underline">
+            <Eye className="w-3.5 h-3.5 mr-1" />
+            Preview
+          </Link>
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <form onSubmit={form.handleSubmit(data => onSubmit(data, 'publish'))} className="space-y-6">
             <FormField
               control={form.control}
               name="title"
@@ -626,12 +702,153 @@ export default function ClientEditPage({ initialPostData }: ClientEditPageProps)
               )}
             />
             
-            <div className="flex justify-end space-x-3 pt-4">
+            <div className="space-y-4 rounded-md border p-4">
+              <div>
+                <h3 className="text-sm font-medium flex items-center">
+                  <Search className="w-4 h-4 mr-2 text-primary" />
+                  Search &amp; Social Preview
+                </h3>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Optional. Leave blank to use the post title and the opening of the article.
+                </p>
+              </div>
+              <FormField
+                control={form.control}
+                name="seoTitle"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>SEO Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder={form.watch('title') || 'Defaults to the post title'} {...field} disabled={allSuggestionsDisabled} />
+                    </FormControl>
+                    <FormDescription>
+                      Shown in search results, browser tabs and share cards; the site name is added after it. {(field.value || '').length}/60 recommended characters.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="seoDescription"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>SEO Description</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Defaults to the first lines of the article" rows={3} {...field} disabled={allSuggestionsDisabled} />
+                    </FormControl>
+                    <FormDescription>
+                      The summary under the title in search results and share cards. {(field.value || '').length}/160 recommended characters.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-4 rounded-md border p-4">
+              <div>
+                <h3 className="text-sm font-medium flex items-center">
+                  <Quote className="w-4 h-4 mr-2 text-primary" />
+                  Original Source
+                </h3>
+                <p className="text-xs text-muted-foreground mt-1">
+                  For imported articles; shown as a credit under the post. Leave blank for original writing.
+                </p>
+              </div>
+              <FormField
+                control={form.control}
+                name="sourceUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Source URL</FormLabel>
+                    <FormControl>
+                      <Input type="url" placeholder="https://example.com/original-article" {...field} disabled={allSuggestionsDisabled} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="sourceAuthor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Original Author</FormLabel>
+                      <FormControl>
+                        <Input placeholder="As credited on the original" {...field} disabled={allSuggestionsDisabled} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sourcePublishedAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Originally Published</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} disabled={allSuggestionsDisabled} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="publishAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Schedule For (optional)</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" className="w-full sm:w-[260px]" {...field} disabled={allSuggestionsDisabled} />
+                  </FormControl>
+                  <FormDescription>Used by &quot;Schedule&quot;: the post goes live automatically at this time. Drafts stay private until published.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex flex-wrap justify-end gap-3 pt-4">
               <Button type="button" variant="outline" onClick={() => router.back()} disabled={allSuggestionsDisabled}>
                 Cancel
               </Button>
+              {initialPostData.status !== 'archived' && (
+                <Button
+                  type="button"
+                  variant="ghost"
+                  onClick={form.handleSubmit(data => onSubmit(data, 'archive'))}
+                  disabled={form.formState.isSubmitting || allSuggestionsDisabled}
+                >
+                  {isSubmittingForm && submitIntent === 'archive' ? <Loader2Icon className="mr-2 h-4 w-4 animate-spin" /> : <Archive className="w-4 h-4 mr-2" />}
+                  Archive
+                </Button>
+              )}
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={form.handleSubmit(data => onSubmit(data, 'draft'))}
+                disabled={form.formState.isSubmitting || allSuggestionsDisabled}
+              >
+                {isSubmittingForm && submitIntent === 'draft' ? <Loader2Icon className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+                {initialPostData.status === 'draft' ? 'Save Draft' : 'Revert to Draft'}
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={form.handleSubmit(data => onSubmit(data, 'schedule'))}
+                disabled={form.formState.isSubmitting || allSuggestionsDisabled}
+              >
+                {isSubmittingForm && submitIntent === 'schedule' ? <Loader2Icon className="mr-2 h-4 w-4 animate-spin" /> : <CalendarClock className="w-4 h-4 mr-2" />}
+                Schedule
+              </Button>
               <Button type="submit" variant="primary" disabled={form.formState.isSubmitting || allSuggestionsDisabled}>
-                {isSubmittingForm || (isSuggestingTags && isSubmittingForm) || (isSuggestingTitles && isSubmittingForm) ? (
+                {(isSubmittingForm && submitIntent === 'publish') || (isSuggestingTags && isSubmittingForm) || (isSuggestingTitles && isSubmittingForm) ? (
                   <>
                     <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
                     Saving Changes...
@@ -639,7 +856,7 @@ export default function ClientEditPage({ initialPostData }: ClientEditPageProps)
                 ) : (
                   <>
                     <Save className="w-4 h-4 mr-2" />
-                    Save Changes
+                    {isLive ? 'Save Changes' : 'Publish'}
                   </>
                 )}
               </Button>
@@ -648,5 +865,8 @@ export default function ClientEditPage({ initialPostData }: ClientEditPageProps)
         </Form>
       </CardContent>
     </Card>
+
+    <RevisionsPanel postId={initialPostData.id} revisions={revisions} onRestored={handleRevisionRestored} />
+    </div>
   );
 }
@@ -1,7 +1,11 @@
 
 import * as postService from '@/lib/post-service';
+import * as revisionService from '@/lib/revision-service';
 import { notFound } from 'next/navigation';
 import ClientEditPage from './client-edit-page';
+import { getCurrentUser } from '@/lib/auth';
+import { canEditPost } from '@/lib/permissions';
+import AccessDenied from '@/components/AccessDenied';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
 
@@ -43,9 +47,16 @@ export default async function EditPostPage({ params }: { params: { id: string }
     notFound();
   }
 
+  const currentUser = await getCurrentUser();
+  if (!currentUser || !canEditPost(currentUser, post)) {
+    return <AccessDenied message="You can only edit your own posts." />;
+  }
+
+  const revisions = await revisionService.getRevisionsByPostId(post.id);
+
   // The actual form rendering will be done by a client component
   // to handle interactivity, state, and client-side libraries like TinyMCE.
-  return <ClientEditPage initialPostData={post} />;
+  return <ClientEditPage initialPostData={post} initialRevisions={revisions} />;
 }
 
     
\ No newline at end of file
@@ -0,0 +1,246 @@
+
+'use client';
+
+import { useEffect, useMemo, useState, useTransition } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { History, Loader2, RotateCcw } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { restorePostRevisionAction } from '@/app/actions';
+import { diffTokens, tokenizeHtml, tokenizeText, type DiffChunk } from '@/lib/text-diff';
+import type { Post, PostRevision } from '@/types';
+
+interface RevisionsPanelProps {
+  postId: string;
+  revisions: PostRevision[]; // Newest first
+  onRestored: (post: Post, revisions: PostRevision[]) => void;
+}
+
+type DiffMode = 'text' | 'html';
+
+const formatDateTime = (dateString: string) => {
+  return new Date(dateString).toLocaleString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+};
+
+function htmlToText(html: string): string {
+  if (typeof window === 'undefined') return html.replace(/<[^>]*>?/gm, ' ');
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  // Keep paragraph breaks so the text diff stays readable
+  doc.querySelectorAll('p, div, br, li, h1, h2, h3, h4, h5, h6, blockquote, tr').forEach(el => el.append('\n'));
+  return (doc.body.textContent || '').replace(/[ \t]+/g, ' ').replace(/\n\s*\n+/g, '\n\n').trim();
+}
+
+function DiffView({ chunks }: { chunks: DiffChunk[] }) {
+  if (chunks.every(chunk => chunk.type === 'equal')) {
+    return <p className="text-sm text-muted-foreground py-4 text-center">The content of these two revisions is identical.</p>;
+  }
+  return (
+    <div className="max-h-[480px] overflow-auto rounded-md border bg-muted/30 p-4 text-sm leading-relaxed whitespace-pre-wrap break-words font-mono">
+      {chunks.map((chunk, index) => {
+        if (chunk.type === 'insert') {
+          return <ins key={index} className="bg-green-500/20 text-green-900 dark:text-green-200 no-underline">{chunk.value}</ins>;
+        }
+        if (chunk.type === 'delete') {
+          return <del key={index} className="bg-destructive/20 text-destructive">{chunk.value}</del>;
+        }
+        return <span key={index}>{chunk.value}</span>;
+      })}
+    </div>
+  );
+}
+
+export default function RevisionsPanel({ postId, revisions, onRestored }: RevisionsPanelProps) {
+  const { toast } = useToast();
+  const [isRestoring, startRestoreTransition] = useTransition();
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [diffMode, setDiffMode] = useState<DiffMode>('text');
+  const [fromId, setFromId] = useState<string>(revisions[1]?.id ?? revisions[0]?.id ?? '');
+  const [toId, setToId] = useState<string>(revisions[0]?.id ?? '');
+
+  // A restore adds a new revision at the top; compare against it by default
+  useEffect(() => {
+    setFromId(revisions[1]?.id ?? revisions[0]?.id ?? '');
+    setToId(revisions[0]?.id ?? '');
+  }, [revisions]);
+
+  const fromRevision = revisions.find(r => r.id === fromId);
+  const toRevision = revisions.find(r => r.id === toId);
+
+  const chunks = useMemo(() => {
+    if (!fromRevision || !toRevision) return [];
+    return diffMode === 'html'
+      ? diffTokens(tokenizeHtml(fromRevision.content), tokenizeHtml(toRevision.content))
+      : diffTokens(tokenizeText(htmlToText(fromRevision.content)), tokenizeText(htmlToText(toRevision.content)));
+  }, [fromRevision, toRevision, diffMode]);
+
+  const handleRestore = (revision: PostRevision) => {
+    setRestoringId(revision.id);
+    startRestoreTransition(async () => {
+      const result = await restorePostRevisionAction(postId, revision.id);
+      if (result.success && result.post) {
+        toast({
+          title: 'Revision Restored',
+          description: result.post.slug === revision.slug
+            ? `The post now matches the revision from ${formatDateTime(revision.createdAt)}.`
+            : result.message,
+        });
+        onRestored(result.post, result.revisions || revisions);
+      } else {
+        toast({ variant: 'destructive', title: 'Restore Failed', description: result.message });
+      }
+      setRestoringId(null);
+    });
+  };
+
+  const revisionLabel = (revision: PostRevision) => `${formatDateTime(revision.createdAt)} · ${revision.author}`;
+
+  return (
+    <Card className="max-w-3xl mx-auto shadow-lg">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold tracking-tight flex items-center">
+          <History className="w-5 h-5 mr-2" />
+          Revision History
+        </CardTitle>
+        <CardDescription>
+          A snapshot is saved every time this post is updated. Compare any two revisions or restore an earlier one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-6">
+            No revisions yet. The first one is saved when you update this post.
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-3 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="revision-from">Compare</Label>
+                <Select value={fromId} onValueChange={setFromId}>
+                  <SelectTrigger id="revision-from"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {revisions.map(revision => (
+                      <SelectItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="revision-to">With</Label>
+                <Select value={toId} onValueChange={setToId}>
+                  <SelectTrigger id="revision-to"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {revisions.map(revision => (
+                      <SelectItem key={revision.id} value={revision.id}>{revisionLabel(revision)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Tabs value={diffMode} onValueChange={(value) => setDiffMode(value as DiffMode)}>
+                <TabsList>
+                  <TabsTrigger value="text">Text</TabsTrigger>
+                  <TabsTrigger value="html">HTML</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
+
+            {fromRevision && toRevision && (
+              <div className="space-y-2">
+                {fromRevision.title !== toRevision.title && (
+                  <p className="text-sm">
+                    <span className="font-medium">Title: </span>
+                    <del className="bg-destructive/20 text-destructive">{fromRevision.title}</del>{' '}
+                    <ins className="bg-green-500/20 no-underline">{toRevision.title}</ins>
+                  </p>
+                )}
+                {fromRevision.slug !== toRevision.slug && (
+                  <p className="text-sm">
+                    <span className="font-medium">Slug: </span>
+                    <del className="bg-destructive/20 text-destructive">{fromRevision.slug}</del>{' '}
+                    <ins className="bg-green-500/20 no-underline">{toRevision.slug}</ins>
+                  </p>
+                )}
+                {fromRevision.tags.join(', ') !== toRevision.tags.join(', ') && (
+                  <p className="text-sm">
+                    <span className="font-medium">Tags: </span>
+                    <del className="bg-destructive/20 text-destructive">{fromRevision.tags.join(', ') || '(none)'}</del>{' '}
+                    <ins className="bg-green-500/20 no-underline">{toRevision.tags.join(', ') || '(none)'}</ins>
+                  </p>
+                )}
+                <DiffView chunks={chunks} />
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Saved</TableHead>
+                  <TableHead>Author</TableHead>
+                  <TableHead className="hidden sm:table-cell">Title</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {revisions.map((revision, index) => (
+                  <TableRow key={revision.id}>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {formatDateTime(revision.createdAt)}
+                      {index === 0 && <Badge variant="secondary" className="ml-2 text-[10px] px-1.5 py-0">Latest</Badge>}
+                      {revision.note && <p className="text-muted-foreground mt-0.5 whitespace-normal">{revision.note}</p>}
+                    </TableCell>
+                    <TableCell className="text-xs">{revision.author}</TableCell>
+                    <TableCell className="hidden sm:table-cell text-xs max-w-[200px] truncate" title={revision.title}>{revision.title}</TableCell>
+                    <TableCell className="text-right">
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="sm" disabled={isRestoring || index === 0} title={index === 0 ? 'This is the current version' : 'Restore this revision'}>
+                            {isRestoring && restoringId === revision.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-1" />}
+                            Restore
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Restore this revision?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              The title, slug, tags and content will be replaced with the revision from {formatDateTime(revision.createdAt)}.
+                              The current version stays in the history, and the post&apos;s status and thumbnail are not changed.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel>Cancel</AlertDialogCancel>
+                            <AlertDialogAction onClick={() => handleRestore(revision)}>Restore</AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
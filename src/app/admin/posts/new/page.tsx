@@ -20,19 +20,21 @@ import {
   FormMessage,
 } from '@/components/ui/form';
 import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription as ShadcnCardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
-import { ArrowLeft, Loader2 as Loader2Icon, Sparkles, AlertCircle, Link2, DownloadCloud, Save, BrainCircuit } from 'lucide-react';
-import { createPostAction } from '@/app/actions';
+import { ArrowLeft, Loader2 as Loader2Icon, Sparkles, AlertCircle, AlertTriangle, Link2, DownloadCloud, Save, BrainCircuit, FileText, CalendarClock, Search, Quote, ImageOff, RefreshCw } from 'lucide-react';
+import { createPostAction, rehostContentImagesAction, type ImageRehostFailure } from '@/app/actions';
 import { suggestTags } from '@/ai/flows/suggest-tags';
 import { suggestTitles } from '@/ai/flows/suggest-titles';
 import { suggestImageAltText } from '@/ai/flows/suggest-image-alt-text';
 import { Badge } from '@/components/ui/badge';
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
 import { Separator } from '@/components/ui/separator';
-import { Alert, AlertDescription as ShadcnAlertDescription } from '@/components/ui/alert'; // Renamed to avoid conflict
+import { Alert, AlertDescription as ShadcnAlertDescription, AlertTitle } from '@/components/ui/alert'; // Renamed to avoid conflict
 import { Label } from '@/components/ui/label';
+import type { ScrapeConfidence } from '@/types';
 
 const postFormClientSchema = z.object({
   title: z.string().min(5, { message: 'Title must be at least 5 characters long.' }).max(255, { message: 'Title must be 255 characters or less.' }),
@@ -40,9 +42,16 @@ const postFormClientSchema = z.object({
     .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, { message: 'Slug must be lowercase alphanumeric with hyphens.' }),
   content: z.string().min(50, { message: 'Content must be at least 50 characters long (HTML content).' }),
   tags: z.string().optional(),
+  publishAt: z.string().optional(), // datetime-local value, only used when scheduling
+  seoTitle: z.string().max(100, { message: 'SEO title must be 100 characters or less.' }).optional(),
+  seoDescription: z.string().max(300, { message: 'SEO description must be 300 characters or less.' }).optional(),
+  sourceUrl: z.string().url({ message: 'Source URL must be a valid URL.' }).max(2000).optional().or(z.literal('')),
+  sourceAuthor: z.string().max(200, { message: 'Original author must be 200 characters or less.' }).optional(),
+  sourcePublishedAt: z.string().optional(), // datetime-local value
 });
 
 type PostFormClientValues = z.infer<typeof postFormClientSchema>;
+type PublishIntent = 'draft' | 'schedule' | 'publish';
 
 const MAX_THUMBNAIL_SIZE_MB = 5;
 const MAX_THUMBNAIL_SIZE_BYTES = MAX_THUMBNAIL_SIZE_MB * 1024 * 1024;
@@ -52,10 +61,23 @@ interface ScrapedPostData {
   content?: string;
   thumbnailUrl?: string;
   thumbnailDataUri?: string;
+  confidence?: ScrapeConfidence;
+  author?: string | null;
+  publishedAt?: string | null; // ISO string
+  canonicalUrl?: string;
+  tags?: string[];
   error?: string;
   details?: string;
 }
 
+// Formats an ISO timestamp for a datetime-local input, in the browser's time zone
+function toDateTimeLocalValue(isoString?: string | null): string {
+  if (!isoString) return '';
+  const date = new Date(isoString);
+  if (isNaN(date.getTime())) return '';
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+}
+
 async function dataUriToMimeType(dataUri: string): Promise<string> {
   return dataUri.substring(dataUri.indexOf(':') + 1, dataUri.indexOf(';'));
 }
@@ -77,6 +99,7 @@ export default function NewPostPage() {
   const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
   const [thumbnailPreview, setThumbnailPreview] = useState<string | null>(null);
   const [isSubmittingForm, setIsSubmittingForm] = useState(false);
+  const [submitIntent, setSubmitIntent] = useState<PublishIntent>('publish');
 
   const [suggestedAiTags, setSuggestedAiTags] = useState<string[]>([]);
   const [isSuggestingTags, setIsSuggestingTags] = useState(false);
@@ -93,8 +116,11 @@ export default function NewPostPage() {
   const [scrapeUrl, setScrapeUrl] = useState('');
   const [isScraping, setIsScraping] = useState(false);
   const [scrapingError, setScrapingError] = useState<string | null>(null);
+  const [scrapeConfidence, setScrapeConfidence] = useState<ScrapeConfidence | null>(null);
 
   const [isProcessingScrapedThumbnail, setIsProcessingScrapedThumbnail] = useState(false);
+  const [isRehostingImages, setIsRehostingImages] = useState(false);
+  const [imageRehostFailures, setImageRehostFailures] = useState<ImageRehostFailure[]>([]);
 
 
   const form = useForm<PostFormClientValues>({
@@ -104,6 +130,12 @@ export default function NewPostPage() {
       slug: '',
       content: '<p>Write your blog post content here...</p>',
       tags: '',
+      publishAt: '',
+      seoTitle: '',
+      seoDescription: '',
+      sourceUrl: '',
+      sourceAuthor: '',
+      sourcePublishedAt: '',
     },
     mode: 'onChange',
   });
@@ -330,6 +362,35 @@ export default function NewPostPage() {
   };
 
 
+  // Copies the images in the content to storage and points the content at the copies. Images that
+  // can't be copied stay linked to the original site and are listed so the editor can deal with them.
+  const rehostContentImages = async (content: string) => {
+    setIsRehostingImages(true);
+    try {
+      const result = await rehostContentImagesAction(content);
+      if (!result.success || !result.result) {
+        toast({ variant: "destructive", title: "Image Copy Failed", description: result.message, duration: 8000 });
+        return;
+      }
+      const { content: rehostedContent, rehostedCount, failures } = result.result;
+      if (rehostedCount > 0) {
+        form.setValue('content', rehostedContent, { shouldValidate: true, shouldDirty: true });
+        if (editorRef.current) {
+          editorRef.current.setContent(rehostedContent);
+        }
+      }
+      setImageRehostFailures(failures);
+      if (rehostedCount + failures.length > 0) {
+        toast({ variant: failures.length > 0 ? "destructive" : "default", title: failures.length > 0 ? "Some Images Not Copied" : "Images Copied", description: result.message });
+      }
+    } catch (error: any) {
+      console.error("Error rehosting content images:", error);
+      toast({ variant: "destructive", title: "Image Copy Failed", description: error.message || "Could not copy the images in the content.", duration: 8000 });
+    } finally {
+      setIsRehostingImages(false);
+    }
+  };
+
   const handleFetchContentFromUrl = async () => {
     if (!scrapeUrl) {
       toast({ variant: "destructive", title: "Error", description: "Please enter a URL to fetch content from." });
@@ -337,6 +398,8 @@ export default function NewPostPage() {
     }
     setIsScraping(true);
     setScrapingError(null);
+    setScrapeConfidence(null);
+    setImageRehostFailures([]);
     setThumbnailFile(null);
     setThumbnailPreview(null);
     setSuggestedAiTags([]);
@@ -427,6 +490,7 @@ export default function NewPostPage() {
         if (editorRef.current) {
           editorRef.current.setContent(scrapedData.content);
         }
+        await rehostContentImages(scrapedData.content);
       } else {
         const defaultContent = `<p>Content from ${scrapeUrl} could not be fully extracted. Please review and edit.</p>`;
         form.setValue('content', defaultContent, { shouldValidate: true, shouldDirty: true });
@@ -435,7 +499,21 @@ export default function NewPostPage() {
         }
       }
 
-      toast({ title: `Content Populated: "${populatedTitle}"`, description: "Form fields have been populated. Review and adjust. AI suggestions will follow." });
+      // Attribution from the page's metadata; the tags join any the editor already entered
+      form.setValue('sourceUrl', scrapedData.canonicalUrl || scrapeUrl, { shouldValidate: true, shouldDirty: true });
+      form.setValue('sourceAuthor', scrapedData.author || '', { shouldDirty: true });
+      form.setValue('sourcePublishedAt', toDateTimeLocalValue(scrapedData.publishedAt), { shouldDirty: true });
+      if (scrapedData.tags && scrapedData.tags.length > 0) {
+        const existingTags = (form.getValues('tags') || '').split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+        form.setValue('tags', Array.from(new Set([...existingTags, ...scrapedData.tags])).join(', '), { shouldValidate: true, shouldDirty: true });
+      }
+
+      setScrapeConfidence(scrapedData.confidence ?? null);
+      if (scrapedData.confidence?.level === 'low') {
+        toast({ variant: "destructive", title: `Low-Quality Import: "${populatedTitle}"`, description: "The article may be incomplete or include navigation and ads. Check the content carefully before publishing." });
+      } else {
+        toast({ title: `Content Populated: "${populatedTitle}"`, description: "Form fields have been populated. Review and adjust. AI suggestions will follow." });
+      }
 
       await autoProcessScrapedThumbnail(scrapedData.thumbnailDataUri, scrapedData.thumbnailUrl);
 
@@ -466,7 +544,12 @@ export default function NewPostPage() {
   };
 
 
-  const onSubmit = async (data: PostFormClientValues) => {
+  const onSubmit = async (data: PostFormClientValues, intent: PublishIntent = 'publish') => {
+    if (intent === 'schedule' && !data.publishAt) {
+      form.setError('publishAt', { type: 'manual', message: 'Pick a date and time to schedule the post for.' });
+      return;
+    }
+    setSubmitIntent(intent);
     setIsSubmittingForm(true);
 
     const validationResult = await form.trigger();
@@ -511,6 +594,17 @@ export default function NewPostPage() {
     formData.append('slug', data.slug);
     formData.append('content', data.content);
     formData.append('tags', Array.from(new Set(finalTags)).join(', ')); 
+    formData.append('seoTitle', data.seoTitle || '');
+    formData.append('seoDescription', data.seoDescription || '');
+    formData.append('sourceUrl', data.sourceUrl || '');
+    formData.append('sourceAuthor', data.sourceAuthor || '');
+    if (data.sourcePublishedAt) {
+      formData.append('sourcePublishedAt', new Date(data.sourcePublishedAt).toISOString()); // The input is in the editor's local time
+    }
+    formData.append('intent', intent);
+    if (intent === 'schedule' && data.publishAt) {
+      formData.append('publishAt', new Date(data.publishAt).toISOString()); // The input is in the editor's local time
+    }
 
     if (thumbnailFile) {
       formData.append('thumbnailFile', thumbnailFile);
@@ -533,8 +627,10 @@ export default function NewPostPage() {
         }
       } else {
         toast({
-          title: 'Post Created Successfully',
-          description: `"${data.title}" has been created.`,
+          title: intent === 'draft' ? 'Draft Saved' : intent === 'schedule' ? 'Post Scheduled' : 'Post Created Successfully',
+          description: intent === 'schedule' && data.publishAt
+            ? `"${data.title}" will be published on ${new Date(data.publishAt).toLocaleString()}.`
+            : `"${data.title}" has been ${intent === 'draft' ? 'saved as a draft' : 'created'}.`,
         });
         form.reset();
         setThumbnailPreview(null);
@@ -572,7 +668,7 @@ export default function NewPostPage() {
   };
 
 
-  const allSuggestionsDisabled = isSubmittingForm || isSuggestingTags || isScraping || isProcessingScrapedThumbnail || isSuggestingTitles || isSuggestingAltText;
+  const allSuggestionsDisabled = isSubmittingForm || isSuggestingTags || isScraping || isProcessingScrapedThumbnail || isRehostingImages || isSuggestingTitles || isSuggestingAltText;
 
   return (
     <Card className="max-w-3xl mx-auto shadow-lg">
@@ -615,7 +711,7 @@ export default function NewPostPage() {
               <Button
                 type="button"
                 onClick={handleFetchContentFromUrl}
-                disabled={isScraping || isSubmittingForm || !scrapeUrl || isProcessingScrapedThumbnail}
+                disabled={isScraping || isSubmittingForm || !scrapeUrl || isProcessingScrapedThumbnail || isRehostingImages}
                 className="w-full sm:w-auto mt-1 sm:mt-[1.875rem]"
               >
                 {isScraping ? (
@@ -637,6 +733,47 @@ export default function NewPostPage() {
                 <ShadcnAlertDescription>{scrapingError}</ShadcnAlertDescription>
               </Alert>
             )}
+            {scrapeConfidence?.level === 'low' && (
+              <Alert className="mt-2">
+                <AlertTriangle className="h-4 w-4 text-orange-600" />
+                <AlertTitle>Low-confidence extraction ({Math.round(scrapeConfidence.score * 100)}%)</AlertTitle>
+                <ShadcnAlertDescription>
+                  <p>The imported content may be missing parts of the article or include text that isn&apos;t part of it. Review it before publishing.</p>
+                  {scrapeConfidence.notes.length > 0 && (
+                    <ul className="list-disc pl-5 mt-1 space-y-0.5">
+                      {scrapeConfidence.notes.map(note => <li key={note}>{note}</li>)}
+                    </ul>
+                  )}
+                </ShadcnAlertDescription>
+              </Alert>
+            )}
+            {imageRehostFailures.length > 0 && (
+              <Alert className="mt-2">
+                <ImageOff className="h-4 w-4 text-orange-600" />
+                <AlertTitle>{imageRehostFailures.length} image{imageRehostFailures.length === 1 ? '' : 's'} could not be copied</AlertTitle>
+                <ShadcnAlertDescription>
+                  <p>These still load from the original site and will break if it removes them or blocks hotlinking. Replace or remove them, or try again.</p>
+                  <ul className="list-disc pl-5 mt-1 space-y-0.5">
+                    {imageRehostFailures.map(failure => (
+                      <li key={failure.url}>
+                        <span className="break-all font-mono text-xs">{failure.url}</span>: {failure.reason}
+                      </li>
+                    ))}
+                  </ul>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="mt-2"
+                    onClick={() => rehostContentImages(editorRef.current ? editorRef.current.getContent() : form.getValues('content'))}
+                    disabled={allSuggestionsDisabled}
+                  >
+                    {isRehostingImages ? <Loader2Icon className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                    Retry Copying Images
+                  </Button>
+                </ShadcnAlertDescription>
+              </Alert>
+            )}
 
             <div className="space-y-3 text-sm mt-3">
               <div className="flex flex-col sm:flex-row sm:items-center gap-x-6 gap-y-2">
@@ -691,7 +828,7 @@ export default function NewPostPage() {
         <Separator className="my-6" />
 
         <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          <form onSubmit={form.handleSubmit(data => onSubmit(data, 'publish'))} className="space-y-6">
             <FormField
               control={form.control}
               name="title"
@@ -955,12 +1092,142 @@ export default function NewPostPage() {
               )}
             />
 
-            <div className="flex justify-end space-x-3 pt-4">
+            <div className="space-y-4 rounded-md border p-4">
+              <div>
+                <h3 className="text-sm font-medium flex items-center">
+                  <Search className="w-4 h-4 mr-2 text-primary" />
+                  Search &amp; Social Preview
+                </h3>
+                <p className="text-xs text-muted-foreground mt-1">
+                  Optional. Leave blank to use the post title and the opening of the article.
+                </p>
+              </div>
+              <FormField
+                control={form.control}
+                name="seoTitle"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>SEO Title</FormLabel>
+                    <FormControl>
+                      <Input placeholder={form.watch('title') || 'Defaults to the post title'} {...field} disabled={allSuggestionsDisabled} />
+                    </FormControl>
+                    <ShadcnFormDescription>
+                      Shown in search results, browser tabs and share cards; the site name is added after it. {(field.value || '').length}/60 recommended characters.
+                    </ShadcnFormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="seoDescription"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>SEO Description</FormLabel>
+                    <FormControl>
+                      <Textarea placeholder="Defaults to the first lines of the article" rows={3} {...field} disabled={allSuggestionsDisabled} />
+                    </FormControl>
+                    <ShadcnFormDescription>
+                      The summary under the title in search results and share cards. {(field.value || '').length}/160 recommended characters.
+                    </ShadcnFormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-4 rounded-md border p-4">
+              <div>
+                <h3 className="text-sm font-medium flex items-center">
+                  <Quote className="w-4 h-4 mr-2 text-primary" />
+                  Original Source
+                </h3>
+                <p className="text-xs text-muted-foreground mt-1">
+                  For imported articles. Filled in from the page when you import it; shown as a credit under the post.
+                </p>
+              </div>
+              <FormField
+                control={form.control}
+                name="sourceUrl"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Source URL</FormLabel>
+                    <FormControl>
+                      <Input type="url" placeholder="https://example.com/original-article" {...field} disabled={allSuggestionsDisabled} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 sm:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="sourceAuthor"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Original Author</FormLabel>
+                      <FormControl>
+                        <Input placeholder="As credited on the original" {...field} disabled={allSuggestionsDisabled} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="sourcePublishedAt"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Originally Published</FormLabel>
+                      <FormControl>
+                        <Input type="datetime-local" {...field} disabled={allSuggestionsDisabled} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+            </div>
+
+            <FormField
+              control={form.control}
+              name="publishAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Schedule For (optional)</FormLabel>
+                  <FormControl>
+                    <Input type="datetime-local" className="w-full sm:w-[260px]" {...field} disabled={allSuggestionsDisabled} />
+                  </FormControl>
+                  <ShadcnFormDescription>Used by &quot;Schedule&quot;: the post goes live automatically at this time. Drafts stay private until published.</ShadcnFormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex flex-wrap justify-end gap-3 pt-4">
               <Button type="button" variant="outline" onClick={() => router.back()} disabled={allSuggestionsDisabled}>
                 Cancel
               </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={form.handleSubmit(data => onSubmit(data, 'draft'))}
+                disabled={form.formState.isSubmitting || allSuggestionsDisabled}
+              >
+                {isSubmittingForm && submitIntent === 'draft' ? <Loader2Icon className="mr-2 h-4 w-4 animate-spin" /> : <FileText className="w-4 h-4 mr-2" />}
+                Save Draft
+              </Button>
+              <Button
+                type="button"
+                variant="secondary"
+                onClick={form.handleSubmit(data => onSubmit(data, 'schedule'))}
+                disabled={form.formState.isSubmitting || allSuggestionsDisabled}
+              >
+                {isSubmittingForm && submitIntent === 'schedule' ? <Loader2Icon className="mr-2 h-4 w-4 animate-spin" /> : <CalendarClock className="w-4 h-4 mr-2" />}
+                Schedule
+              </Button>
               <Button type="submit" variant="primary" disabled={form.formState.isSubmitting || allSuggestionsDisabled}>
-                {isSubmittingForm || (isSuggestingTags && isSubmittingForm) || (isSuggestingTitles && isSubmittingForm) ? (
+                {(isSubmittingForm && submitIntent === 'publish') || (isSuggestingTags && isSubmittingForm) || (isSuggestingTitles && isSubmittingForm) ? (
                   <>
                     <Loader2Icon className="mr-2 h-4 w-4 animate-spin" />
                     Creating Post...
@@ -968,7 +1235,7 @@ export default function NewPostPage() {
                 ) : (
                   <>
                     <Save className="w-4 h-4 mr-2" />
-                     Create Post
+                     Publish Post
                   </>
                 )}
               </Button>
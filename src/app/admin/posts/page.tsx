@@ -1,7 +1,12 @@
 
 import { Suspense } from 'react';
 import * as postService from '@/lib/post-service';
+import type { PostSortField } from '@/lib/post-service';
+import type { PostStatus } from '@/types';
 import AdminPostsClientPage from './client-page';
+import { getCurrentUser } from '@/lib/auth';
+import { canCreatePosts, canViewAllPosts } from '@/lib/permissions';
+import AccessDenied from '@/components/AccessDenied';
 import { Skeleton } from '@/components/ui/skeleton';
 
 // Loading skeleton for the posts table
@@ -28,17 +33,62 @@ function PostsTableSkeleton() {
 }
 
 
-export default async function AdminPostsPage() {
+const ADMIN_POSTS_PER_PAGE = 20;
+const ADMIN_SORT_OPTIONS: PostSortField[] = ['date', 'title', 'viewCount'];
+const ADMIN_STATUS_OPTIONS: PostStatus[] = ['draft', 'scheduled', 'published', 'archived'];
+
+interface AdminPostsPageProps {
+  searchParams?: {
+    page?: string;
+    search?: string;
+    tag?: string;
+    status?: string;
+    sort?: string;
+  };
+}
+
+export default async function AdminPostsPage({ searchParams }: AdminPostsPageProps) {
   // This is a Server Component, so we can fetch data directly.
-  const posts = await postService.getAllPosts();
+  const currentUser = await getCurrentUser();
+  if (!currentUser || !canCreatePosts(currentUser)) {
+    return <AccessDenied message="Your role does not include managing posts." />;
+  }
+  const ownPostsOnly = !canViewAllPosts(currentUser);
+
+  const currentPage = Math.max(Number(searchParams?.page) || 1, 1);
+  const searchTerm = searchParams?.search || '';
+  const tagFilter = searchParams?.tag || '';
+  const statusFilter = ADMIN_STATUS_OPTIONS.find(option => option === searchParams?.status);
+  const sort = ADMIN_SORT_OPTIONS.find(option => option === searchParams?.sort) ?? 'date';
+
+  const { posts, total } = await postService.queryPosts({
+    limit: ADMIN_POSTS_PER_PAGE,
+    offset: (currentPage - 1) * ADMIN_POSTS_PER_PAGE,
+    sort,
+    order: sort === 'title' ? 'asc' : 'desc',
+    search: searchTerm,
+    tag: tagFilter,
+    status: statusFilter,
+    authorId: ownPostsOnly ? currentUser.id : undefined, // Authors only see their own posts
+    includeUnpublished: true,
+    columns: postService.POST_SUMMARY_COLUMNS,
+  });
 
   return (
     <div className="space-y-6">
       <Suspense fallback={<PostsTableSkeleton />}>
-        <AdminPostsClientPage initialPosts={posts} />
+        <AdminPostsClientPage
+          initialPosts={posts}
+          totalPosts={total}
+          currentPage={currentPage}
+          totalPages={Math.ceil(total / ADMIN_POSTS_PER_PAGE)}
+          searchTerm={searchTerm}
+          tagFilter={tagFilter}
+          statusFilter={statusFilter ?? ''}
+          sort={sort}
+          ownPostsOnly={ownPostsOnly}
+        />
       </Suspense>
     </div>
   );
 }
-
-    
\ No newline at end of file
@@ -0,0 +1,110 @@
+
+import * as postService from '@/lib/post-service';
+import { getSettings } from '@/lib/settings-service';
+import { getTrustedEmbedHosts, sanitizePostHtml } from '@/lib/html-sanitizer';
+import { notFound } from 'next/navigation';
+import Image from 'next/image';
+import Link from 'next/link';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import TagBadge from '@/components/TagBadge';
+import { CalendarDays, Edit2, EyeOff, User as UserIcon } from 'lucide-react';
+import { getCurrentUser } from '@/lib/auth';
+import { canEditPost } from '@/lib/permissions';
+import AccessDenied from '@/components/AccessDenied';
+
+export const dynamic = 'force-dynamic';
+
+// Renders any post, whatever its status, the way readers will see it. Lives under /admin so the
+// middleware keeps it behind the admin session.
+export default async function PostPreviewPage({ params }: { params: { id: string } }) {
+  const post = await postService.getPostById(params.id);
+  if (!post) {
+    notFound();
+  }
+
+  const currentUser = await getCurrentUser();
+  if (!currentUser || !canEditPost(currentUser, post)) {
+    return <AccessDenied message="You can only preview your own posts." />;
+  }
+
+  const settings = await getSettings();
+  const isPublic = postService.isPostPubliclyVisible(post);
+  const formattedDate = new Date(post.date).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+
+  return (
+    <div className="space-y-6">
+      <Alert>
+        <EyeOff className="h-4 w-4" />
+        <AlertTitle>Preview</AlertTitle>
+        <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+          <span>
+            {isPublic
+              ? 'This post is live. This preview does not count as a read.'
+              : post.status === 'scheduled'
+                ? `This post is scheduled and will go live on ${new Date(post.date).toLocaleString()}.`
+                : `This post is ${post.status} and is not visible to readers.`}
+          </span>
+          <Button variant="outline" size="sm" asChild>
+            <Link href={`/admin/posts/edit/${post.id}`}>
+              <Edit2 className="w-4 h-4 mr-2" />
+              Edit Post
+            </Link>
+          </Button>
+        </AlertDescription>
+      </Alert>
+
+      <article className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 bg-card shadow-xl rounded-lg">
+        <header className="mb-8">
+          <h1 className="font-headline text-3xl md:text-4xl font-bold text-primary mb-4 break-words">
+            {post.title}
+          </h1>
+          <div className="text-muted-foreground flex items-center space-x-4 text-sm">
+            <div className="flex items-center">
+              <CalendarDays className="w-4 h-4 mr-1.5" />
+              <time dateTime={post.date}>{formattedDate}</time>
+            </div>
+            {post.authorName && (
+              <div className="flex items-center">
+                <UserIcon className="w-4 h-4 mr-1.5" />
+                <span>By {post.authorName}</span>
+              </div>
+            )}
+          </div>
+          {post.thumbnailUrl && (
+            <div className="mt-6 relative w-full h-72 md:h-96 rounded-lg overflow-hidden shadow-md">
+              <Image
+                src={post.thumbnailUrl}
+                alt={post.title}
+                fill
+                style={{objectFit:"cover"}}
+                priority
+                data-ai-hint="article banner"
+              />
+            </div>
+          )}
+        </header>
+
+        <div
+          className="prose prose-lg max-w-none text-foreground leading-relaxed selection:bg-primary/30"
+          dangerouslySetInnerHTML={{ __html: sanitizePostHtml(post.content, getTrustedEmbedHosts(settings)) }}
+        />
+
+        {post.tags && post.tags.length > 0 && (
+          <footer className="mt-12 pt-8 border-t">
+            <h3 className="text-lg font-semibold mb-3 font-headline">Tags:</h3>
+            <div className="flex flex-wrap gap-3">
+              {post.tags.map((tag) => (
+                <TagBadge key={tag} tag={tag} />
+              ))}
+            </div>
+          </footer>
+        )}
+      </article>
+    </div>
+  );
+}
@@ -0,0 +1,501 @@
+'use client';
+
+import { useEffect, useState, useTransition, type FormEvent } from 'react';
+import Image from 'next/image';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import type { ScrapeConfidence, ScraperHookName, ScraperSiteRule } from '@/types';
+import { AlertTriangle, Edit2, FlaskConical, Loader2, Plus, Save, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  createSiteRuleAction,
+  updateSiteRuleAction,
+  deleteSiteRuleAction,
+  testSiteRuleAction,
+  type SiteRuleTestResult,
+} from '@/app/actions';
+import { SCRAPER_HOOK_DESCRIPTIONS, SCRAPER_HOOK_LABELS, SCRAPER_HOOK_NAMES } from '@/lib/scraper-hooks';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+
+interface AdminScraperRulesClientPageProps {
+  initialRules: ScraperSiteRule[];
+}
+
+type FieldErrors = Record<string, string[] | undefined> | null;
+
+// The editor keeps selector lists as text, one selector per line, exactly as they are submitted
+interface RuleFormValues {
+  hostname: string;
+  contentSelectors: string;
+  removeSelectors: string;
+  useDefaultRemovals: boolean;
+  titleSelectors: string;
+  imageSelectors: string;
+  hooks: ScraperHookName[];
+  notes: string;
+}
+
+const EMPTY_RULE: RuleFormValues = {
+  hostname: '',
+  contentSelectors: '',
+  removeSelectors: '',
+  useDefaultRemovals: true,
+  titleSelectors: '',
+  imageSelectors: '',
+  hooks: [],
+  notes: '',
+};
+
+const SELECTOR_FIELDS: { name: 'contentSelectors' | 'removeSelectors' | 'titleSelectors' | 'imageSelectors'; label: string; placeholder: string; help: string }[] = [
+  {
+    name: 'contentSelectors',
+    label: 'Content Selectors',
+    placeholder: 'article .story-body\n#article-content',
+    help: 'The element holding the article text. The first selector that matches is used; the built-in selectors are tried after these.',
+  },
+  {
+    name: 'removeSelectors',
+    label: 'Removal Selectors',
+    placeholder: '.newsletter-signup\n.inline-related',
+    help: 'Elements removed from the extracted content, such as sign-up boxes or "read more" lists.',
+  },
+  {
+    name: 'titleSelectors',
+    label: 'Title Selectors',
+    placeholder: 'h1.headline',
+    help: 'Tried before og:title and the page title. A <meta> element gives its content attribute.',
+  },
+  {
+    name: 'imageSelectors',
+    label: 'Featured Image Selectors',
+    placeholder: '.hero img\nmeta[name="parsely-image-url"]',
+    help: 'Tried before og:image. Matches an <img>, an element containing one, or a <meta>/<link> with the URL.',
+  },
+];
+
+const CONFIDENCE_BADGE_VARIANTS: Record<ScrapeConfidence['level'], 'default' | 'secondary' | 'destructive'> = {
+  high: 'default',
+  medium: 'secondary',
+  low: 'destructive',
+};
+
+function FieldError({ errors, name }: { errors: FieldErrors; name: string }) {
+  const messages = errors?.[name];
+  if (!messages?.length) return null;
+  return <p className="text-sm font-medium text-destructive">{messages[0]}</p>;
+}
+
+function toFormValues(rule: ScraperSiteRule): RuleFormValues {
+  return {
+    hostname: rule.hostname,
+    contentSelectors: rule.contentSelectors.join('\n'),
+    removeSelectors: rule.removeSelectors.join('\n'),
+    useDefaultRemovals: rule.useDefaultRemovals,
+    titleSelectors: rule.titleSelectors.join('\n'),
+    imageSelectors: rule.imageSelectors.join('\n'),
+    hooks: rule.hooks,
+    notes: rule.notes || '',
+  };
+}
+
+function toFormData(values: RuleFormValues): FormData {
+  const formData = new FormData();
+  formData.append('hostname', values.hostname);
+  formData.append('contentSelectors', values.contentSelectors);
+  formData.append('removeSelectors', values.removeSelectors);
+  formData.append('useDefaultRemovals', String(values.useDefaultRemovals));
+  formData.append('titleSelectors', values.titleSelectors);
+  formData.append('imageSelectors', values.imageSelectors);
+  values.hooks.forEach(hook => formData.append('hooks', hook));
+  formData.append('notes', values.notes);
+  return formData;
+}
+
+export default function AdminScraperRulesClientPage({ initialRules }: AdminScraperRulesClientPageProps) {
+  const [rules, setRules] = useState<ScraperSiteRule[]>(initialRules);
+  const { toast } = useToast();
+  const [isProcessing, startTransition] = useTransition();
+  const [isTesting, startTestTransition] = useTransition();
+
+  // null while no rule is open; 'new' for a rule that hasn't been saved yet
+  const [editingRuleId, setEditingRuleId] = useState<string | 'new' | null>(null);
+  const [values, setValues] = useState<RuleFormValues>(EMPTY_RULE);
+  const [errors, setErrors] = useState<FieldErrors>(null);
+
+  const [testUrl, setTestUrl] = useState('');
+  const [testResult, setTestResult] = useState<SiteRuleTestResult | null>(null);
+  const [testError, setTestError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setRules(initialRules);
+  }, [initialRules]);
+
+  const openEditor = (rule: ScraperSiteRule | null) => {
+    setEditingRuleId(rule ? rule.id : 'new');
+    setValues(rule ? toFormValues(rule) : EMPTY_RULE);
+    setErrors(null);
+    setTestResult(null);
+    setTestError(null);
+    setTestUrl(rule ? `https://${rule.hostname}/` : '');
+  };
+
+  const closeEditor = () => {
+    setEditingRuleId(null);
+    setErrors(null);
+    setTestResult(null);
+    setTestError(null);
+  };
+
+  const toggleHook = (hook: ScraperHookName, enabled: boolean) => {
+    setValues(prev => ({
+      ...prev,
+      hooks: enabled ? [...prev.hooks.filter(h => h !== hook), hook] : prev.hooks.filter(h => h !== hook),
+    }));
+  };
+
+  const handleSave = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editingRuleId) return;
+    const formData = toFormData(values);
+
+    startTransition(async () => {
+      const result = editingRuleId === 'new'
+        ? await createSiteRuleAction(formData)
+        : await updateSiteRuleAction(editingRuleId, formData);
+      if (result.success && result.rule) {
+        const savedRule = result.rule;
+        setRules(prev => [...prev.filter(rule => rule.id !== savedRule.id), savedRule].sort((a, b) => a.hostname.localeCompare(b.hostname)));
+        setEditingRuleId(savedRule.id);
+        setValues(toFormValues(savedRule));
+        setErrors(null);
+        toast({ title: 'Rule Saved', description: result.message });
+      } else {
+        setErrors(result.errors as FieldErrors);
+        toast({ variant: 'destructive', title: 'Error Saving Rule', description: result.message || 'Could not save the rule.' });
+      }
+    });
+  };
+
+  const handleDelete = (rule: ScraperSiteRule) => {
+    startTransition(async () => {
+      const result = await deleteSiteRuleAction(rule.id);
+      if (result.success) {
+        setRules(prev => prev.filter(r => r.id !== rule.id));
+        if (editingRuleId === rule.id) closeEditor();
+        toast({ title: 'Rule Deleted', description: result.message });
+      } else {
+        toast({ variant: 'destructive', title: 'Error Deleting Rule', description: result.message || 'Could not delete the rule.' });
+      }
+    });
+  };
+
+  // Tests what is in the editor, so changes can be tried out before they are saved
+  const handleTest = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = toFormData(values);
+    formData.append('testUrl', testUrl);
+
+    startTestTransition(async () => {
+      const result = await testSiteRuleAction(formData);
+      setErrors(result.errors as FieldErrors);
+      if (result.success && result.result) {
+        setTestResult(result.result);
+        setTestError(null);
+      } else {
+        setTestResult(null);
+        setTestError(result.message || 'Could not extract the article.');
+      }
+    });
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  return (
+    <>
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Scraper Rules</h1>
+          <p className="text-muted-foreground">
+            Tell the post importer where the article is on sites you import from regularly. A rule also covers the site&apos;s subdomains.
+          </p>
+        </div>
+        <Button onClick={() => openEditor(null)} disabled={isProcessing}>
+          <Plus className="w-5 h-5 mr-2" />
+          Add Rule
+        </Button>
+      </div>
+
+      <Card className="shadow-sm mb-6">
+        <CardContent className="pt-6">
+          {rules.length === 0 ? (
+            <p className="text-muted-foreground text-center py-10">No rules yet. Imports use the built-in selectors for every site.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Hostname</TableHead>
+                  <TableHead className="hidden md:table-cell">Selectors</TableHead>
+                  <TableHead className="hidden lg:table-cell">Hooks</TableHead>
+                  <TableHead className="hidden sm:table-cell">Updated</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule.id} data-state={editingRuleId === rule.id ? 'selected' : undefined}>
+                    <TableCell>
+                      <div className="font-medium">{rule.hostname}</div>
+                      {rule.notes && <div className="text-xs text-muted-foreground line-clamp-1">{rule.notes}</div>}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell text-sm text-muted-foreground">
+                      {rule.contentSelectors.length} content, {rule.removeSelectors.length} removal
+                      {!rule.useDefaultRemovals && <Badge variant="outline" className="ml-2">No default removals</Badge>}
+                    </TableCell>
+                    <TableCell className="hidden lg:table-cell">
+                      <div className="flex flex-wrap gap-1">
+                        {rule.hooks.map(hook => <Badge key={hook} variant="secondary">{SCRAPER_HOOK_LABELS[hook]}</Badge>)}
+                      </div>
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell text-sm">{formatDate(rule.updatedAt)}</TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="icon" title="Edit Rule" onClick={() => openEditor(rule)} disabled={isProcessing}>
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" title="Delete Rule" disabled={isProcessing}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this rule?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              Imports from &quot;{rule.hostname}&quot; will go back to the built-in selectors.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel disabled={isProcessing}>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDelete(rule)}
+                              disabled={isProcessing}
+                              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {editingRuleId && (
+        <div className="grid gap-6 xl:grid-cols-2">
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle>{editingRuleId === 'new' ? 'New Rule' : `Edit ${values.hostname}`}</CardTitle>
+              <CardDescription>Enter one CSS selector per line. Selectors are tried in order.</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSave} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="hostname">Hostname</Label>
+                  <Input
+                    id="hostname"
+                    placeholder="example.com"
+                    value={values.hostname}
+                    onChange={(e) => setValues(prev => ({ ...prev, hostname: e.target.value }))}
+                    disabled={isProcessing}
+                  />
+                  <FieldError errors={errors} name="hostname" />
+                </div>
+                {SELECTOR_FIELDS.map(field => (
+                  <div key={field.name} className="space-y-2">
+                    <Label htmlFor={field.name}>{field.label}</Label>
+                    <Textarea
+                      id={field.name}
+                      rows={3}
+                      className="font-mono text-xs"
+                      placeholder={field.placeholder}
+                      value={values[field.name]}
+                      onChange={(e) => setValues(prev => ({ ...prev, [field.name]: e.target.value }))}
+                      disabled={isProcessing}
+                    />
+                    <p className="text-xs text-muted-foreground">{field.help}</p>
+                    <FieldError errors={errors} name={field.name} />
+                  </div>
+                ))}
+                <div className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <Label htmlFor="useDefaultRemovals">Remove common page furniture</Label>
+                    <p className="text-xs text-muted-foreground">
+                      The built-in list of navigation, ad, share and comment elements. Turn off if it removes parts of this site&apos;s articles.
+                    </p>
+                  </div>
+                  <Switch
+                    id="useDefaultRemovals"
+                    checked={values.useDefaultRemovals}
+                    onCheckedChange={(checked) => setValues(prev => ({ ...prev, useDefaultRemovals: checked }))}
+                    disabled={isProcessing}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Post-processing</Label>
+                  <div className="space-y-3 rounded-lg border p-3">
+                    {SCRAPER_HOOK_NAMES.map(hook => (
+                      <div key={hook} className="flex items-start gap-3">
+                        <Checkbox
+                          id={`hook-${hook}`}
+                          checked={values.hooks.includes(hook)}
+                          onCheckedChange={(checked) => toggleHook(hook, checked === true)}
+                          disabled={isProcessing}
+                        />
+                        <div className="grid gap-1 leading-none">
+                          <Label htmlFor={`hook-${hook}`}>{SCRAPER_HOOK_LABELS[hook]}</Label>
+                          <p className="text-xs text-muted-foreground">{SCRAPER_HOOK_DESCRIPTIONS[hook]}</p>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  <FieldError errors={errors} name="hooks" />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Notes</Label>
+                  <Textarea
+                    id="notes"
+                    rows={2}
+                    placeholder="Why this rule exists, e.g. which page layout it was written for"
+                    value={values.notes}
+                    onChange={(e) => setValues(prev => ({ ...prev, notes: e.target.value }))}
+                    disabled={isProcessing}
+                  />
+                  <FieldError errors={errors} name="notes" />
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button type="button" variant="outline" onClick={closeEditor} disabled={isProcessing}>Close</Button>
+                  <Button type="submit" disabled={isProcessing}>
+                    {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                    Save Rule
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-sm">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FlaskConical className="w-5 h-5 text-primary" />
+                Test Against a Page
+              </CardTitle>
+              <CardDescription>Runs the rule as entered above, saved or not, and shows what an import would produce.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <form onSubmit={handleTest} className="flex gap-2">
+                <Input
+                  type="url"
+                  placeholder="https://example.com/news/some-article"
+                  value={testUrl}
+                  onChange={(e) => setTestUrl(e.target.value)}
+                  disabled={isTesting}
+                  aria-label="Article URL"
+                />
+                <Button type="submit" disabled={isTesting || !testUrl}>
+                  {isTesting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Test
+                </Button>
+              </form>
+              <FieldError errors={errors} name="testUrl" />
+
+              {testError && (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Extraction failed</AlertTitle>
+                  <AlertDescription>{testError}</AlertDescription>
+                </Alert>
+              )}
+
+              {testResult && (
+                <div className="space-y-4">
+                  {!testResult.hostMatches && (
+                    <Alert>
+                      <AlertTriangle className="h-4 w-4" />
+                      <AlertTitle>Different site</AlertTitle>
+                      <AlertDescription>
+                        The page ended up on {new URL(testResult.url).hostname}, which this rule doesn&apos;t cover. Imports from it won&apos;t use this rule.
+                      </AlertDescription>
+                    </Alert>
+                  )}
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span>Content from</span>
+                    <Badge variant={testResult.method === 'body' ? 'destructive' : 'secondary'} className="font-mono">
+                      {testResult.contentSelector}
+                    </Badge>
+                    {testResult.method === 'density' && <span>(picked by text density)</span>}
+                    <span className="ml-auto">Confidence</span>
+                    <Badge variant={CONFIDENCE_BADGE_VARIANTS[testResult.confidence.level]}>
+                      {testResult.confidence.level} ({Math.round(testResult.confidence.score * 100)}%)
+                    </Badge>
+                  </div>
+                  {testResult.confidence.notes.length > 0 && (
+                    <ul className="list-disc pl-5 text-xs text-muted-foreground space-y-1">
+                      {testResult.confidence.notes.map(note => <li key={note}>{note}</li>)}
+                    </ul>
+                  )}
+                  <h2 className="text-xl font-semibold">{testResult.title}</h2>
+                  <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                    <dt className="text-muted-foreground">Author</dt>
+                    <dd>{testResult.metadata.author || '—'}</dd>
+                    <dt className="text-muted-foreground">Published</dt>
+                    <dd>{testResult.metadata.publishedAt ? new Date(testResult.metadata.publishedAt).toLocaleString() : '—'}</dd>
+                    <dt className="text-muted-foreground">Canonical URL</dt>
+                    <dd className="break-all">{testResult.metadata.canonicalUrl || '—'}</dd>
+                    <dt className="text-muted-foreground">Tags</dt>
+                    <dd>{testResult.metadata.tags.length > 0 ? testResult.metadata.tags.join(', ') : '—'}</dd>
+                  </dl>
+                  {testResult.imageUrl && (
+                    <Image src={testResult.imageUrl} alt="Featured image" width={320} height={180} style={{objectFit:"cover"}} className="rounded-md" unoptimized />
+                  )}
+                  <div
+                    className="prose prose-sm max-w-none max-h-[32rem] overflow-y-auto rounded-md border p-4 text-foreground"
+                    dangerouslySetInnerHTML={{ __html: testResult.content || '<p><em>No content extracted.</em></p>' }}
+                  />
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,17 @@
+import AdminScraperRulesClientPage from './client-page';
+import * as siteRuleService from '@/lib/site-rule-service';
+import { getCurrentUser } from '@/lib/auth';
+import { canManageSettings } from '@/lib/permissions';
+import AccessDenied from '@/components/AccessDenied';
+
+export default async function AdminScraperRulesPage() {
+  const currentUser = await getCurrentUser();
+  if (!currentUser || !canManageSettings(currentUser)) {
+    return <AccessDenied message="Only admins can manage scraper rules." />;
+  }
+
+  const rules = await siteRuleService.getAllSiteRules();
+  return <AdminScraperRulesClientPage initialRules={rules} />;
+}
+
+export const dynamic = 'force-dynamic';
@@ -7,6 +7,7 @@ import * as z from 'zod';
 import { useEffect, useState, type ChangeEvent } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
+import Link from 'next/link';
 
 import { Button } from '@/components/ui/button';
 import {
@@ -22,13 +23,16 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2 as Loader2Icon, Save, ShieldAlert, ShieldCheck, TerminalSquare, Heading1, ImagePlus, Trash2 } from 'lucide-react';
-import { updateSiteSettingsAction } from '@/app/actions'; 
+import { Loader2 as Loader2Icon, Save, Users, TerminalSquare, Heading1, ImagePlus, Trash2, MessageSquareWarning, LogOut, Search, ShieldCheck, Globe } from 'lucide-react';
+import { updateSiteSettingsAction, revokeAllSessionsAction } from '@/app/actions'; 
 import type { SiteSettings } from '@/types';
+import type { CspViolationSummary } from '@/lib/csp-report-service';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import TwoFactorSettings from '@/components/TwoFactorSettings';
 
 
 const CLIENT_DEFAULT_SETTINGS: SiteSettings = {
@@ -36,8 +40,6 @@ const CLIENT_DEFAULT_SETTINGS: SiteSettings = {
   siteDescription: "A modern blog platform with AI-powered tagging.",
   postsPerPage: 6,
   siteLogoUrl: "",
-  adminUsername: '',
-  adminPassword: '',
   globalHeaderScriptsEnabled: false,
   globalHeaderScriptsCustomHtml: '',
   globalFooterScriptsEnabled: false,
@@ -48,6 +50,18 @@ const CLIENT_DEFAULT_SETTINGS: SiteSettings = {
   bannerImageLink: '',
   bannerImageAltText: '',
   bannerCustomHtml: '',
+  commentBannedWords: '',
+  commentMaxLinks: 2,
+  commentRateLimitPerHour: 5,
+  commentAiModerationEnabled: false,
+  feedFullContent: false,
+  robotsAllowIndexing: true,
+  robotsTxtCustomRules: '',
+  trustedEmbedHosts: '',
+  cspMode: 'report-only',
+  cspScriptSources: '',
+  scrapeAllowedDomains: '',
+  scrapeBlockedDomains: '',
 };
 
 const MAX_LOGO_SIZE_MB = 1;
@@ -62,12 +76,30 @@ const siteSettingsFormSchema = z.object({
     .int({ message: 'Must be a whole number.'})
     .min(1, { message: 'Must display at least 1 post per page.' })
     .max(50, { message: 'Cannot display more than 50 posts per page.' }),
-  adminUsername: z.string().min(3, {message: "Admin username must be at least 3 characters."}).max(50, {message: "Admin username must be 50 characters or less."}).optional().or(z.literal('')),
-  adminPassword: z.string().min(6, {message: "Admin password must be at least 6 characters."}).max(100, {message: "Admin password must be 100 characters or less."}).optional().or(z.literal('')),
   globalHeaderScriptsEnabled: z.boolean().default(false),
   globalHeaderScriptsCustomHtml: z.string().optional(),
   globalFooterScriptsEnabled: z.boolean().default(false),
   globalFooterScriptsCustomHtml: z.string().optional(),
+  commentBannedWords: z.string().max(10000, { message: 'Banned words list must be 10000 characters or less.' }).optional(),
+  commentMaxLinks: z.coerce
+    .number({ invalid_type_error: 'Must be a number.'})
+    .int({ message: 'Must be a whole number.'})
+    .min(0, { message: 'Link limit cannot be negative.' })
+    .max(50, { message: 'Link limit must be 50 or less.' }),
+  commentRateLimitPerHour: z.coerce
+    .number({ invalid_type_error: 'Must be a number.'})
+    .int({ message: 'Must be a whole number.'})
+    .min(0, { message: 'Rate limit cannot be negative.' })
+    .max(1000, { message: 'Rate limit must be 1000 or less.' }),
+  commentAiModerationEnabled: z.boolean().default(false),
+  feedFullContent: z.boolean().default(false),
+  robotsAllowIndexing: z.boolean().default(true),
+  robotsTxtCustomRules: z.string().max(5000, { message: 'robots.txt rules must be 5000 characters or less.' }).optional(),
+  trustedEmbedHosts: z.string().max(2000, { message: 'Trusted embed hosts must be 2000 characters or less.' }).optional(),
+  cspMode: z.enum(['enforce', 'report-only', 'off']),
+  cspScriptSources: z.string().max(2000, { message: 'Script sources must be 2000 characters or less.' }).optional(),
+  scrapeAllowedDomains: z.string().max(5000, { message: 'Allowed domains must be 5000 characters or less.' }).optional(),
+  scrapeBlockedDomains: z.string().max(5000, { message: 'Blocked domains must be 5000 characters or less.' }).optional(),
   // siteLogoUrl is handled by file input and specific logic, not direct form field for Zod here
 }).superRefine((data, ctx) => {
   if (data.globalHeaderScriptsEnabled && (!data.globalHeaderScriptsCustomHtml || data.globalHeaderScriptsCustomHtml.trim() === '')) {
@@ -86,51 +118,20 @@ const siteSettingsFormSchema = z.object({
     });
   }
 
-  const usernameProvided = data.adminUsername && data.adminUsername.trim().length > 0;
-  const passwordFieldHasInput = data.adminPassword && data.adminPassword.length > 0;
-  const initialUsername = initialSettings?.adminUsername || '';
-  const initialPasswordExists = !!initialSettings?.adminPassword && initialSettings.adminPassword.length > 0;
-
-  if (usernameProvided) {
-    if (initialUsername === '' || data.adminUsername !== initialUsername) {
-      if (!passwordFieldHasInput) {
-        ctx.addIssue({
-          code: z.ZodIssueCode.custom,
-          message: "A new password is required when setting or changing the username.",
-          path: ['adminPassword'],
-        });
-      }
-    }
-    else if (data.adminUsername === initialUsername && !initialPasswordExists) {
-        if (!passwordFieldHasInput) {
-            ctx.addIssue({
-                code: z.ZodIssueCode.custom,
-                message: "Password is required when setting up admin access for the first time.",
-                path: ['adminPassword'],
-            });
-        }
-    }
-  } else if (passwordFieldHasInput && !usernameProvided) { 
-     ctx.addIssue({
-      code: z.ZodIssueCode.custom,
-      message: "Username is required if a password is set or being entered.",
-      path: ['adminUsername'],
-    });
-  }
 });
 
 type SiteSettingsFormValues = z.infer<typeof siteSettingsFormSchema>;
 
 interface ClientSettingsPageProps {
   initialSettings: SiteSettings;
+  twoFactor: { enabled: boolean; recoveryCodesRemaining: number }; // For the signed-in admin's own account
+  cspViolations: CspViolationSummary[]; // Last week's policy violations, most frequent first
 }
 
-let initialSettings: SiteSettings | null = null; 
-
-export default function ClientSettingsPage({ initialSettings: propsInitialSettings }: ClientSettingsPageProps) {
-  initialSettings = propsInitialSettings; 
+export default function ClientSettingsPage({ initialSettings: propsInitialSettings, twoFactor, cspViolations }: ClientSettingsPageProps) {
   const { toast } = useToast();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isRevokingSessions, setIsRevokingSessions] = useState(false);
   const router = useRouter();
 
   const [selectedLogoFile, setSelectedLogoFile] = useState<File | null>(null);
@@ -143,28 +144,47 @@ export default function ClientSettingsPage({ initialSettings: propsInitialSettin
       siteTitle: propsInitialSettings?.siteTitle || CLIENT_DEFAULT_SETTINGS.siteTitle,
       siteDescription: propsInitialSettings?.siteDescription || CLIENT_DEFAULT_SETTINGS.siteDescription,
       postsPerPage: propsInitialSettings?.postsPerPage || CLIENT_DEFAULT_SETTINGS.postsPerPage,
-      adminUsername: propsInitialSettings?.adminUsername || CLIENT_DEFAULT_SETTINGS.adminUsername,
-      adminPassword: '', 
       globalHeaderScriptsEnabled: propsInitialSettings?.globalHeaderScriptsEnabled || CLIENT_DEFAULT_SETTINGS.globalHeaderScriptsEnabled,
       globalHeaderScriptsCustomHtml: propsInitialSettings?.globalHeaderScriptsCustomHtml || CLIENT_DEFAULT_SETTINGS.globalHeaderScriptsCustomHtml,
       globalFooterScriptsEnabled: propsInitialSettings?.globalFooterScriptsEnabled || CLIENT_DEFAULT_SETTINGS.globalFooterScriptsEnabled,
       globalFooterScriptsCustomHtml: propsInitialSettings?.globalFooterScriptsCustomHtml || CLIENT_DEFAULT_SETTINGS.globalFooterScriptsCustomHtml,
+      commentBannedWords: propsInitialSettings?.commentBannedWords || CLIENT_DEFAULT_SETTINGS.commentBannedWords,
+      commentMaxLinks: propsInitialSettings?.commentMaxLinks ?? CLIENT_DEFAULT_SETTINGS.commentMaxLinks,
+      commentRateLimitPerHour: propsInitialSettings?.commentRateLimitPerHour ?? CLIENT_DEFAULT_SETTINGS.commentRateLimitPerHour,
+      commentAiModerationEnabled: propsInitialSettings?.commentAiModerationEnabled || CLIENT_DEFAULT_SETTINGS.commentAiModerationEnabled,
+      feedFullContent: propsInitialSettings?.feedFullContent || CLIENT_DEFAULT_SETTINGS.feedFullContent,
+      robotsAllowIndexing: propsInitialSettings?.robotsAllowIndexing ?? CLIENT_DEFAULT_SETTINGS.robotsAllowIndexing,
+      robotsTxtCustomRules: propsInitialSettings?.robotsTxtCustomRules || CLIENT_DEFAULT_SETTINGS.robotsTxtCustomRules,
+      trustedEmbedHosts: propsInitialSettings?.trustedEmbedHosts || CLIENT_DEFAULT_SETTINGS.trustedEmbedHosts,
+      cspMode: propsInitialSettings?.cspMode || CLIENT_DEFAULT_SETTINGS.cspMode!,
+      cspScriptSources: propsInitialSettings?.cspScriptSources || CLIENT_DEFAULT_SETTINGS.cspScriptSources,
+      scrapeAllowedDomains: propsInitialSettings?.scrapeAllowedDomains || CLIENT_DEFAULT_SETTINGS.scrapeAllowedDomains,
+      scrapeBlockedDomains: propsInitialSettings?.scrapeBlockedDomains || CLIENT_DEFAULT_SETTINGS.scrapeBlockedDomains,
     },
     mode: 'onChange',
   });
   
   useEffect(() => {
-    initialSettings = propsInitialSettings; 
     form.reset({
       siteTitle: propsInitialSettings?.siteTitle || CLIENT_DEFAULT_SETTINGS.siteTitle,
       siteDescription: propsInitialSettings?.siteDescription || CLIENT_DEFAULT_SETTINGS.siteDescription,
       postsPerPage: propsInitialSettings?.postsPerPage || CLIENT_DEFAULT_SETTINGS.postsPerPage,
-      adminUsername: propsInitialSettings?.adminUsername || CLIENT_DEFAULT_SETTINGS.adminUsername,
-      adminPassword: '',
       globalHeaderScriptsEnabled: propsInitialSettings?.globalHeaderScriptsEnabled || CLIENT_DEFAULT_SETTINGS.globalHeaderScriptsEnabled,
       globalHeaderScriptsCustomHtml: propsInitialSettings?.globalHeaderScriptsCustomHtml || CLIENT_DEFAULT_SETTINGS.globalHeaderScriptsCustomHtml,
       globalFooterScriptsEnabled: propsInitialSettings?.globalFooterScriptsEnabled || CLIENT_DEFAULT_SETTINGS.globalFooterScriptsEnabled,
       globalFooterScriptsCustomHtml: propsInitialSettings?.globalFooterScriptsCustomHtml || CLIENT_DEFAULT_SETTINGS.globalFooterScriptsCustomHtml,
+      commentBannedWords: propsInitialSettings?.commentBannedWords || CLIENT_DEFAULT_SETTINGS.commentBannedWords,
+      commentMaxLinks: propsInitialSettings?.commentMaxLinks ?? CLIENT_DEFAULT_SETTINGS.commentMaxLinks,
+      commentRateLimitPerHour: propsInitialSettings?.commentRateLimitPerHour ?? CLIENT_DEFAULT_SETTINGS.commentRateLimitPerHour,
+      commentAiModerationEnabled: propsInitialSettings?.commentAiModerationEnabled || CLIENT_DEFAULT_SETTINGS.commentAiModerationEnabled,
+      feedFullContent: propsInitialSettings?.feedFullContent || CLIENT_DEFAULT_SETTINGS.feedFullContent,
+      robotsAllowIndexing: propsInitialSettings?.robotsAllowIndexing ?? CLIENT_DEFAULT_SETTINGS.robotsAllowIndexing,
+      robotsTxtCustomRules: propsInitialSettings?.robotsTxtCustomRules || CLIENT_DEFAULT_SETTINGS.robotsTxtCustomRules,
+      trustedEmbedHosts: propsInitialSettings?.trustedEmbedHosts || CLIENT_DEFAULT_SETTINGS.trustedEmbedHosts,
+      cspMode: propsInitialSettings?.cspMode || CLIENT_DEFAULT_SETTINGS.cspMode!,
+      cspScriptSources: propsInitialSettings?.cspScriptSources || CLIENT_DEFAULT_SETTINGS.cspScriptSources,
+      scrapeAllowedDomains: propsInitialSettings?.scrapeAllowedDomains || CLIENT_DEFAULT_SETTINGS.scrapeAllowedDomains,
+      scrapeBlockedDomains: propsInitialSettings?.scrapeBlockedDomains || CLIENT_DEFAULT_SETTINGS.scrapeBlockedDomains,
     });
     setLogoPreviewUrl(propsInitialSettings?.siteLogoUrl || null);
     setSelectedLogoFile(null);
@@ -199,30 +219,47 @@ export default function ClientSettingsPage({ initialSettings: propsInitialSettin
     form.trigger();
   };
 
-  const watchedAdminUsername = form.watch('adminUsername');
-  const watchedAdminPassword = form.watch('adminPassword');
   const watchedGlobalHeaderScriptsEnabled = form.watch('globalHeaderScriptsEnabled');
   const watchedGlobalFooterScriptsEnabled = form.watch('globalFooterScriptsEnabled');
 
   // Define field groups for dirty checking
   const baseGeneralSettingFields: (keyof SiteSettingsFormValues)[] = [
-    'siteTitle', 'siteDescription', 'postsPerPage',
+    'siteTitle', 'siteDescription', 'postsPerPage', 'feedFullContent', 'trustedEmbedHosts',
   ];
   const scriptSettingFields: (keyof SiteSettingsFormValues)[] = [
     'globalHeaderScriptsEnabled', 'globalHeaderScriptsCustomHtml',
     'globalFooterScriptsEnabled', 'globalFooterScriptsCustomHtml',
+    'cspMode', 'cspScriptSources',
+  ];
+  const commentSettingFields: (keyof SiteSettingsFormValues)[] = [
+    'commentBannedWords', 'commentMaxLinks', 'commentRateLimitPerHour', 'commentAiModerationEnabled',
+  ];
+  const searchEngineSettingFields: (keyof SiteSettingsFormValues)[] = [
+    'robotsAllowIndexing', 'robotsTxtCustomRules',
   ];
-  const adminSettingFields: (keyof SiteSettingsFormValues)[] = [
-    'adminUsername', 'adminPassword',
+  const importSettingFields: (keyof SiteSettingsFormValues)[] = [
+    'scrapeAllowedDomains', 'scrapeBlockedDomains',
   ];
 
   const isLogoDirty = selectedLogoFile !== null || (userWantsToRemoveLogo && propsInitialSettings?.siteLogoUrl);
   
   const isBaseGeneralSettingsDirty = baseGeneralSettingFields.some(field => form.formState.dirtyFields[field]) || isLogoDirty;
   const isScriptSettingsDirty = scriptSettingFields.some(field => form.formState.dirtyFields[field]);
-  const isAdminCredentialsDirty = adminSettingFields.some(field => form.formState.dirtyFields[field.valueOf() as keyof typeof form.formState.dirtyFields]);
+  const isCommentSettingsDirty = commentSettingFields.some(field => form.formState.dirtyFields[field]);
+  const isSearchEngineSettingsDirty = searchEngineSettingFields.some(field => form.formState.dirtyFields[field]);
+  const isImportSettingsDirty = importSettingFields.some(field => form.formState.dirtyFields[field]);
 
 
+  const handleRevokeAllSessions = async () => {
+    setIsRevokingSessions(true);
+    // Redirects to the login page on success
+    const result = await revokeAllSessionsAction();
+    if (result && !result.success) {
+      toast({ variant: 'destructive', title: 'Sign Out Failed', description: result.message });
+    }
+    setIsRevokingSessions(false);
+  };
+
   const onSubmit = async (data: SiteSettingsFormValues) => {
     setIsSubmitting(true);
     
@@ -230,11 +267,22 @@ export default function ClientSettingsPage({ initialSettings: propsInitialSettin
     formData.append('siteTitle', data.siteTitle);
     formData.append('siteDescription', data.siteDescription);
     formData.append('postsPerPage', String(data.postsPerPage));
-    formData.append('adminUsername', data.adminUsername || '');
     formData.append('globalHeaderScriptsEnabled', data.globalHeaderScriptsEnabled ? 'on' : 'off');
     formData.append('globalHeaderScriptsCustomHtml', data.globalHeaderScriptsCustomHtml || '');
     formData.append('globalFooterScriptsEnabled', data.globalFooterScriptsEnabled ? 'on' : 'off');
     formData.append('globalFooterScriptsCustomHtml', data.globalFooterScriptsCustomHtml || '');
+    formData.append('commentBannedWords', data.commentBannedWords || '');
+    formData.append('commentMaxLinks', String(data.commentMaxLinks));
+    formData.append('commentRateLimitPerHour', String(data.commentRateLimitPerHour));
+    formData.append('commentAiModerationEnabled', data.commentAiModerationEnabled ? 'on' : 'off');
+    formData.append('feedFullContent', data.feedFullContent ? 'on' : 'off');
+    formData.append('robotsAllowIndexing', data.robotsAllowIndexing ? 'on' : 'off');
+    formData.append('robotsTxtCustomRules', data.robotsTxtCustomRules || '');
+    formData.append('trustedEmbedHosts', data.trustedEmbedHosts || '');
+    formData.append('cspMode', data.cspMode);
+    formData.append('cspScriptSources', data.cspScriptSources || '');
+    formData.append('scrapeAllowedDomains', data.scrapeAllowedDomains || '');
+    formData.append('scrapeBlockedDomains', data.scrapeBlockedDomains || '');
 
     if (selectedLogoFile) {
       formData.append('logoFile', selectedLogoFile);
@@ -244,15 +292,6 @@ export default function ClientSettingsPage({ initialSettings: propsInitialSettin
     }
 
 
-    if (data.adminPassword && data.adminPassword.length > 0) {
-      formData.append('adminPassword', data.adminPassword);
-    } else if (data.adminUsername && propsInitialSettings.adminUsername === data.adminUsername && propsInitialSettings.adminPassword) {
-       formData.append('adminPassword', ''); 
-    } else {
-       formData.append('adminPassword', data.adminPassword || ''); 
-    }
-
-
     try {
       const result = await updateSiteSettingsAction(formData);
       if (result?.success) {
@@ -265,17 +304,10 @@ export default function ClientSettingsPage({ initialSettings: propsInitialSettin
           ...propsInitialSettings,
           ...data,
           siteLogoUrl: result.newSiteLogoUrl !== undefined ? result.newSiteLogoUrl : propsInitialSettings.siteLogoUrl,
-          adminPassword: (data.adminPassword && data.adminPassword.length > 0) 
-                          ? data.adminPassword 
-                          : (data.adminUsername === propsInitialSettings.adminUsername && propsInitialSettings.adminPassword)
-                            ? propsInitialSettings.adminPassword 
-                            : ''
         };
-        initialSettings = newPersistedSettings; 
 
         form.reset({ 
           ...newPersistedSettings,
-          adminPassword: '', 
         });
         
         setLogoPreviewUrl(result.newSiteLogoUrl || null);
@@ -329,15 +361,18 @@ export default function ClientSettingsPage({ initialSettings: propsInitialSettin
     <Card className="max-w-2xl mx-auto shadow-lg">
       <CardHeader>
         <CardTitle className="text-2xl font-bold tracking-tight">Site Settings</CardTitle>
-        <CardDescription>Manage general configuration for your website and admin access.</CardDescription>
+        <CardDescription>Manage general configuration for your website and admin sessions.</CardDescription>
       </CardHeader>
       <CardContent>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)}>
             <Tabs defaultValue="general">
-              <TabsList className="grid w-full grid-cols-3 mb-6">
+              <TabsList className="grid w-full grid-cols-6 mb-6">
                 <TabsTrigger value="general">General</TabsTrigger>
                 <TabsTrigger value="scripts">Scripts</TabsTrigger>
+                <TabsTrigger value="comments">Comments</TabsTrigger>
+                <TabsTrigger value="seo">SEO</TabsTrigger>
+                <TabsTrigger value="import">Import</TabsTrigger>
                 <TabsTrigger value="admin_access">Admin Access</TabsTrigger>
               </TabsList>
 
@@ -384,6 +419,39 @@ export default function ClientSettingsPage({ initialSettings: propsInitialSettin
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="feedFullContent"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Full Articles in Feeds</FormLabel>
+                        <FormDescription>
+                          Include the whole article in the RSS and Atom feeds (/feed.xml, /atom.xml). When off, feeds carry a short excerpt that links to the site.
+                        </FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} disabled={isSubmitting} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="trustedEmbedHosts"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Trusted Embed Hosts</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder={"open.spotify.com\nwww.instagram.com"} {...field} rows={3} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormDescription>
+                        One host per line. Iframes in post content are removed unless they load over https from one of these hosts or from YouTube or Vimeo.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
 
                 {/* Site Logo Section */}
                 <div className="space-y-2">
@@ -554,6 +622,85 @@ export default function ClientSettingsPage({ initialSettings: propsInitialSettin
                   )}
                 </div>
 
+                <Separator />
+
+                <div>
+                  <h3 className="text-lg font-medium mb-1 flex items-center">
+                    <ShieldCheck className="w-5 h-5 mr-2 text-primary" />
+                    Content Security Policy
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Limits which scripts can run on the site. Inline scripts above are always allowed; scripts they load from other sites
+                    (analytics, ad networks) must be listed below. Try report-only first and check the violations before enforcing.
+                  </p>
+                </div>
+                <FormField
+                  control={form.control}
+                  name="cspMode"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Policy Mode</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange} disabled={isSubmitting}>
+                        <FormControl>
+                          <SelectTrigger className="w-full sm:w-[260px]">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value="report-only">Report only</SelectItem>
+                          <SelectItem value="enforce">Enforce</SelectItem>
+                          <SelectItem value="off">Off</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>Report only lets everything run but records what enforcing would block. Changes apply within a few seconds.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="cspScriptSources"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Allowed Script Sources</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={"https://www.googletagmanager.com\nhttps://pagead2.googlesyndication.com\n*.adnetwork.example"}
+                          className="font-mono text-xs"
+                          {...field}
+                          rows={5}
+                          disabled={isSubmitting}
+                        />
+                      </FormControl>
+                      <FormDescription>One per line. This site and the post editor&apos;s CDN are always allowed.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="space-y-2">
+                  <FormLabel>Recent Violations</FormLabel>
+                  {cspViolations.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No violations reported in the last 7 days.</p>
+                  ) : (
+                    <div className="rounded-md border divide-y text-sm">
+                      {cspViolations.slice(0, 20).map((violation) => (
+                        <div key={`${violation.directive} ${violation.blockedUri} ${violation.disposition}`} className="flex items-start justify-between gap-4 p-3">
+                          <div className="min-w-0">
+                            <p className="font-mono text-xs break-all">{violation.blockedUri}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {violation.directive}
+                              {violation.exampleDocumentUri && <> on {violation.exampleDocumentUri}</>}
+                              {' '}&middot; last seen {new Date(violation.lastSeenAt).toLocaleString('en-US')}
+                            </p>
+                          </div>
+                          <span className="shrink-0 text-xs text-muted-foreground">
+                            {violation.count}&times; {violation.disposition === 'enforce' ? 'blocked' : 'reported'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
 
                 <div className="flex justify-end pt-4">
                   <Button type="submit" variant="primary" disabled={isSubmitting || !isScriptSettingsDirty}>
@@ -566,74 +713,225 @@ export default function ClientSettingsPage({ initialSettings: propsInitialSettin
                 </div>
               </TabsContent>
 
-              <TabsContent value="admin_access" className="space-y-6">
+              <TabsContent value="comments" className="space-y-8">
                 <div>
-                  <h3 className="text-lg font-medium mb-1">Admin Credentials</h3>
-                  <p className="text-sm text-muted-foreground mb-4">Set or update the local admin username and password.</p>
-                  
-                  <Alert variant="destructive" className="mb-6">
-                    <ShieldAlert className="h-5 w-5" />
-                    <AlertTitle className="font-semibold">Security Warning!</AlertTitle>
-                    <AlertDescription>
-                      The password stored here is **plaintext** in a local file. This is **NOT SECURE** for production environments.
-                      Use this local authentication for development or testing purposes only. For a live site, implement a robust authentication system with hashed passwords.
-                    </AlertDescription>
-                  </Alert>
+                  <h3 className="text-lg font-medium mb-1 flex items-center">
+                    <MessageSquareWarning className="w-5 h-5 mr-2 text-primary" />
+                    Spam &amp; Abuse Filtering
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Every new comment passes through these filters in order: honeypot, rate limit, banned words, link count, then AI moderation.
+                    Flagged comments are held for review or rejected; nothing is approved automatically.
+                  </p>
+                </div>
+                <FormField
+                  control={form.control}
+                  name="commentBannedWords"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Banned Words</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder={"casino\nfree money\ncheap pills"} {...field} rows={5} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormDescription>One word or phrase per line (or comma-separated). Comments containing any of them are rejected.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                  <FormField
+                    control={form.control}
+                    name="commentMaxLinks"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Maximum Links</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} {...field} disabled={isSubmitting} />
+                        </FormControl>
+                        <FormDescription>Comments with more links are held for review.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="commentRateLimitPerHour"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Comments Per Hour (per IP)</FormLabel>
+                        <FormControl>
+                          <Input type="number" min={0} {...field} disabled={isSubmitting} />
+                        </FormControl>
+                        <FormDescription>Further comments are rejected. Set to 0 to disable.</FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <FormField
+                  control={form.control}
+                  name="commentAiModerationEnabled"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>AI Moderation</FormLabel>
+                        <FormDescription>Ask the AI model to classify comments that pass the other filters as spam or abuse.</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} disabled={isSubmitting} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <div className="flex justify-end pt-4">
+                  <Button type="submit" disabled={isSubmitting || !isCommentSettingsDirty}>
+                    {isSubmitting ? (
+                      <><Loader2Icon className="mr-2 h-4 w-4 animate-spin" />Saving...</>
+                    ) : (
+                      <><Save className="w-4 h-4 mr-2" />Save Comment Settings</>
+                    )}
+                  </Button>
+                </div>
+              </TabsContent>
 
-                  <div className="space-y-6 p-4 border rounded-md bg-muted/30">
-                    <FormField
-                      control={form.control}
-                      name="adminUsername"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Admin Username</FormLabel>
-                          <FormControl>
-                            <Input placeholder="admin" {...field} disabled={isSubmitting} autoComplete="username" />
-                          </FormControl>
-                          <FormDescription>Username to log into the admin panel. Leave empty to disable local admin login (not recommended if you need to manage settings).</FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                    <FormField
-                      control={form.control}
-                      name="adminPassword"
-                      render={({ field }) => (
-                        <FormItem>
-                          <FormLabel>Admin Password</FormLabel>
-                          <FormControl>
-                            <Input type="password" placeholder="••••••••" {...field} disabled={isSubmitting} autoComplete="new-password"/>
-                          </FormControl>
-                          <FormDescription>
-                            {propsInitialSettings?.adminUsername ? 'Enter a new password to change it. Leave blank ONLY if you are NOT changing the username AND a password was previously set (this will keep the current password).' : 'Set a password for the admin user.'}
-                            {' Minimum 6 characters.'}
-                          </FormDescription>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
-                  </div>
-                  {!propsInitialSettings.adminUsername && !watchedAdminUsername && (
-                    <Alert className="mt-4">
-                      <ShieldCheck className="h-5 w-5" />
-                      <AlertTitle>Setup Admin Access</AlertTitle>
-                      <AlertDescription>
-                        To secure your admin panel, please set an Admin Username and Password.
-                        If both are left empty, the admin panel might be unprotected or use default (insecure) credentials if any were previously set.
-                      </AlertDescription>
-                    </Alert>
+              <TabsContent value="seo" className="space-y-8">
+                <div>
+                  <h3 className="text-lg font-medium mb-1 flex items-center">
+                    <Search className="w-5 h-5 mr-2 text-primary" />
+                    Search Engines
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    Crawlers read <a href="/robots.txt" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">/robots.txt</a>,
+                    which points them to <a href="/sitemap.xml" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">/sitemap.xml</a> listing every post, tag and page.
+                  </p>
+                </div>
+                <FormField
+                  control={form.control}
+                  name="robotsAllowIndexing"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3 shadow-sm">
+                      <div className="space-y-0.5">
+                        <FormLabel>Allow Search Engines</FormLabel>
+                        <FormDescription>When off, robots.txt asks every crawler to stay away from the whole site, e.g. while it is being set up.</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} disabled={isSubmitting} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="robotsTxtCustomRules"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Additional robots.txt Rules</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder={'Disallow: /*?search=\n\nUser-agent: GPTBot\nDisallow: /'}
+                          className="min-h-[140px] font-mono text-xs"
+                          {...field}
+                          disabled={isSubmitting}
+                        />
+                      </FormControl>
+                      <FormDescription>
+                        Added after the built-in rules, which always block /admin and /login. Lines apply to all crawlers until a new User-agent line starts a group of its own.
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
                   )}
+                />
+                <div className="flex justify-end pt-4">
+                  <Button type="submit" disabled={isSubmitting || !isSearchEngineSettingsDirty}>
+                    {isSubmitting ? (
+                      <><Loader2Icon className="mr-2 h-4 w-4 animate-spin" />Saving...</>
+                    ) : (
+                      <><Save className="w-4 h-4 mr-2" />Save SEO Settings</>
+                    )}
+                  </Button>
                 </div>
+              </TabsContent>
+
+              <TabsContent value="import" className="space-y-8">
+                <div>
+                  <h3 className="text-lg font-medium mb-1 flex items-center">
+                    <Globe className="w-5 h-5 mr-2 text-primary" />
+                    Importing From URLs
+                  </h3>
+                  <p className="text-sm text-muted-foreground mb-4">
+                    &quot;Import Content from URL&quot; on the new post page fetches other sites from this server. Private and internal
+                    network addresses are always refused; these lists narrow it down further. Where the article is found on each
+                    site is set under <Link href="/admin/scraper-rules" className="font-medium text-primary hover:underline">Scraper Rules</Link>.
+                  </p>
+                </div>
+                <FormField
+                  control={form.control}
+                  name="scrapeAllowedDomains"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Allowed Domains</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder={"example.com\nnews.example.org"} className="font-mono text-xs" {...field} rows={5} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormDescription>One domain per line; each also covers its subdomains. Leave empty to allow importing from any public site.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="scrapeBlockedDomains"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Blocked Domains</FormLabel>
+                      <FormControl>
+                        <Textarea placeholder={"tracker.example.com"} className="font-mono text-xs" {...field} rows={5} disabled={isSubmitting} />
+                      </FormControl>
+                      <FormDescription>Never fetched, neither as a page to import nor for its images.</FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <div className="flex justify-end pt-4">
-                  <Button type="submit" variant="primary" disabled={isSubmitting || !isAdminCredentialsDirty}>
+                  <Button type="submit" disabled={isSubmitting || !isImportSettingsDirty}>
                     {isSubmitting ? (
                       <><Loader2Icon className="mr-2 h-4 w-4 animate-spin" />Saving...</>
                     ) : (
-                      <><Save className="w-4 h-4 mr-2" />Save Admin Access</>
+                      <><Save className="w-4 h-4 mr-2" />Save Import Settings</>
                     )}
                   </Button>
                 </div>
               </TabsContent>
+
+              <TabsContent value="admin_access" className="space-y-6">
+                <div>
+                  <h3 className="text-lg font-medium mb-1">Admin Access</h3>
+                  <p className="text-sm text-muted-foreground mb-4">Accounts and roles for the admin panel.</p>
+
+                  <Alert className="mb-6">
+                    <Users className="h-5 w-5" />
+                    <AlertTitle className="font-semibold">User Accounts</AlertTitle>
+                    <AlertDescription>
+                      Admins, editors, authors and moderators are managed on the{' '}
+                      <Link href="/admin/users" className="font-medium text-primary hover:underline">Users page</Link>.
+                      Passwords are stored as salted hashes.
+                    </AlertDescription>
+                  </Alert>
+
+                  <TwoFactorSettings enabled={twoFactor.enabled} recoveryCodesRemaining={twoFactor.recoveryCodesRemaining} />
+
+                  <div className="flex items-center justify-between gap-4 p-4 border rounded-md mt-6">
+                    <div>
+                      <p className="text-sm font-medium">Active Sessions</p>
+                      <p className="text-sm text-muted-foreground">Sign every user out of the admin panel on every device, including you.</p>
+                    </div>
+                    <Button type="button" variant="outline" onClick={handleRevokeAllSessions} disabled={isSubmitting || isRevokingSessions}>
+                      {isRevokingSessions ? <Loader2Icon className="mr-2 h-4 w-4 animate-spin" /> : <LogOut className="mr-2 h-4 w-4" />}
+                      Sign Out Everywhere
+                    </Button>
+                  </div>
+                </div>
+              </TabsContent>
             </Tabs>
           </form>
         </Form>
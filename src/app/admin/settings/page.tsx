@@ -3,7 +3,11 @@ import { getSettings } from '@/lib/settings-service';
 import ClientSettingsPage from './client-settings-page';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardHeader } from '@/components/ui/card';
-import type { SiteSettings } from '@/types';
+import * as userService from '@/lib/user-service';
+import * as cspReportService from '@/lib/csp-report-service';
+import { getCurrentUser } from '@/lib/auth';
+import { canManageSettings } from '@/lib/permissions';
+import AccessDenied from '@/components/AccessDenied';
 
 function SettingsPageSkeleton() {
   return (
@@ -74,10 +78,24 @@ function SettingsPageSkeleton() {
 
 
 export default async function AdminSettingsPage() {
-  const currentSettings: SiteSettings = await getSettings();
-  // Pass the complete currentSettings object.
-  // ClientSettingsPage will handle defaultValues for the form, including setting adminPassword to '' for display.
-  return <ClientSettingsPage initialSettings={currentSettings} />;
+  const currentUser = await getCurrentUser();
+  if (!currentUser || !canManageSettings(currentUser)) {
+    return <AccessDenied message="Only admins can change site settings." />;
+  }
+
+  const [currentSettings, recoveryCodesRemaining, cspViolations] = await Promise.all([
+    getSettings(),
+    userService.getRemainingRecoveryCodeCount(currentUser.id),
+    cspReportService.getCspViolationSummary(),
+  ]);
+  // Legacy admin credentials, if any are left, are never sent to the client
+  return (
+    <ClientSettingsPage
+      initialSettings={{ ...currentSettings, adminUsername: undefined, adminPassword: undefined }}
+      twoFactor={{ enabled: currentUser.twoFactorEnabled, recoveryCodesRemaining }}
+      cspViolations={cspViolations}
+    />
+  );
 }
 
 export const dynamic = 'force-dynamic'; 
@@ -0,0 +1,413 @@
+
+'use client';
+
+import { useEffect, useState, useTransition, type FormEvent } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import type { User, UserRole } from '@/types';
+import { Edit2, Loader2, Trash2, UserPlus, ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { createUserAction, updateUserAction, deleteUserAction, resetUserTwoFactorAction } from '@/app/actions';
+import { ROLE_DESCRIPTIONS, ROLE_LABELS } from '@/lib/permissions';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+
+interface AdminUsersClientPageProps {
+  initialUsers: User[];
+  currentUserId: string | null;
+  isFirstAdminSetup: boolean; // No admin exists yet; the form creates the first one and signs it in
+}
+
+type FieldErrors = Record<string, string[] | undefined> | null;
+
+const ROLES = Object.keys(ROLE_LABELS) as UserRole[];
+
+function FieldError({ errors, name }: { errors: FieldErrors; name: string }) {
+  const messages = errors?.[name];
+  if (!messages?.length) return null;
+  return <p className="text-sm font-medium text-destructive">{messages[0]}</p>;
+}
+
+function RoleSelect({ value, onChange, disabled }: { value: UserRole; onChange: (role: UserRole) => void; disabled?: boolean }) {
+  return (
+    <>
+      <Select value={value} onValueChange={(role) => onChange(role as UserRole)} disabled={disabled}>
+        <SelectTrigger id="role">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {ROLES.map(role => (
+            <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{ROLE_DESCRIPTIONS[value]}</p>
+    </>
+  );
+}
+
+export default function AdminUsersClientPage({ initialUsers, currentUserId, isFirstAdminSetup }: AdminUsersClientPageProps) {
+  const [users, setUsers] = useState<User[]>(initialUsers);
+  const { toast } = useToast();
+  const [isProcessing, startTransition] = useTransition();
+
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [newUser, setNewUser] = useState({ username: '', displayName: '', role: 'author' as UserRole, password: '' });
+  const [createErrors, setCreateErrors] = useState<FieldErrors>(null);
+
+  const [editTarget, setEditTarget] = useState<User | null>(null);
+  const [editValues, setEditValues] = useState({ displayName: '', role: 'author' as UserRole, disabled: false, password: '' });
+  const [editErrors, setEditErrors] = useState<FieldErrors>(null);
+
+  useEffect(() => {
+    setUsers(initialUsers);
+  }, [initialUsers]);
+
+  const openEditDialog = (user: User) => {
+    setEditTarget(user);
+    setEditValues({ displayName: user.displayName, role: user.role, disabled: user.disabled, password: '' });
+    setEditErrors(null);
+  };
+
+  const handleCreateUser = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const formData = new FormData();
+    formData.append('username', newUser.username);
+    formData.append('displayName', newUser.displayName);
+    formData.append('role', isFirstAdminSetup ? 'admin' : newUser.role);
+    formData.append('password', newUser.password);
+
+    startTransition(async () => {
+      // During first-admin setup a successful call signs in and redirects to the dashboard
+      const result = await createUserAction(formData);
+      if (result.success && result.user) {
+        const createdUser = result.user;
+        setUsers(prev => [...prev, createdUser]);
+        setNewUser({ username: '', displayName: '', role: 'author', password: '' });
+        setCreateErrors(null);
+        setIsCreateOpen(false);
+        toast({ title: 'User Created', description: result.message });
+      } else {
+        setCreateErrors(result.errors as FieldErrors);
+        toast({ variant: 'destructive', title: 'Error Creating User', description: result.message || 'Could not create the user.' });
+      }
+    });
+  };
+
+  const handleUpdateUser = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!editTarget) return;
+    const formData = new FormData();
+    formData.append('displayName', editValues.displayName);
+    formData.append('role', editValues.role);
+    formData.append('disabled', String(editValues.disabled));
+    formData.append('password', editValues.password);
+
+    startTransition(async () => {
+      const result = await updateUserAction(editTarget.id, formData);
+      if (result.success && result.user) {
+        const updatedUser = result.user;
+        setUsers(prev => prev.map(user => user.id === updatedUser.id ? updatedUser : user));
+        setEditTarget(null);
+        toast({ title: 'User Updated', description: result.message });
+      } else {
+        setEditErrors(result.errors as FieldErrors);
+        toast({ variant: 'destructive', title: 'Error Updating User', description: result.message || 'Could not update the user.' });
+      }
+    });
+  };
+
+  const handleResetTwoFactor = (user: User) => {
+    startTransition(async () => {
+      const result = await resetUserTwoFactorAction(user.id);
+      if (result.success && result.user) {
+        const updatedUser = result.user;
+        setUsers(prev => prev.map(u => u.id === updatedUser.id ? updatedUser : u));
+        setEditTarget(updatedUser);
+        toast({ title: 'Two-Factor Reset', description: result.message });
+      } else {
+        toast({ variant: 'destructive', title: 'Error Resetting Two-Factor', description: result.message || 'Could not reset two-factor authentication.' });
+      }
+    });
+  };
+
+  const handleDeleteUser = (user: User) => {
+    startTransition(async () => {
+      const result = await deleteUserAction(user.id);
+      if (result.success) {
+        setUsers(prev => prev.filter(u => u.id !== user.id));
+        toast({ title: 'User Deleted', description: result.message });
+      } else {
+        toast({ variant: 'destructive', title: 'Error Deleting User', description: result.message || 'Could not delete the user.' });
+      }
+    });
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+    });
+  };
+
+  const createForm = (
+    <form onSubmit={handleCreateUser} className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="username">Username</Label>
+        <Input
+          id="username"
+          autoComplete="off"
+          value={newUser.username}
+          onChange={(e) => setNewUser(prev => ({ ...prev, username: e.target.value }))}
+          disabled={isProcessing}
+        />
+        <FieldError errors={createErrors} name="username" />
+      </div>
+      <div className="space-y-2">
+        <Label htmlFor="displayName">Display Name</Label>
+        <Input
+          id="displayName"
+          value={newUser.displayName}
+          onChange={(e) => setNewUser(prev => ({ ...prev, displayName: e.target.value }))}
+          disabled={isProcessing}
+        />
+        <p className="text-xs text-muted-foreground">Shown as the author of their posts.</p>
+        <FieldError errors={createErrors} name="displayName" />
+      </div>
+      {!isFirstAdminSetup && (
+        <div className="space-y-2">
+          <Label htmlFor="role">Role</Label>
+          <RoleSelect value={newUser.role} onChange={(role) => setNewUser(prev => ({ ...prev, role }))} disabled={isProcessing} />
+          <FieldError errors={createErrors} name="role" />
+        </div>
+      )}
+      <div className="space-y-2">
+        <Label htmlFor="password">Password</Label>
+        <Input
+          id="password"
+          type="password"
+          autoComplete="new-password"
+          value={newUser.password}
+          onChange={(e) => setNewUser(prev => ({ ...prev, password: e.target.value }))}
+          disabled={isProcessing}
+        />
+        <FieldError errors={createErrors} name="password" />
+      </div>
+      <Button type="submit" className="w-full" disabled={isProcessing}>
+        {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+        {isFirstAdminSetup ? 'Create Admin Account' : 'Create User'}
+      </Button>
+    </form>
+  );
+
+  if (isFirstAdminSetup) {
+    return (
+      <Card className="max-w-md mx-auto shadow-sm">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-6 h-6 text-primary" />
+            Create the First Admin
+          </CardTitle>
+          <CardDescription>
+            No admin account exists yet. The account created here gets full access and is signed in straight away.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>{createForm}</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <>
+      <div className="flex flex-col sm:flex-row items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight">Users</h1>
+          <p className="text-muted-foreground">
+            Manage who can sign in to the admin panel and what each role may do.
+          </p>
+        </div>
+        <Button onClick={() => { setCreateErrors(null); setIsCreateOpen(true); }}>
+          <UserPlus className="w-5 h-5 mr-2" />
+          Add User
+        </Button>
+      </div>
+
+      <Card className="shadow-sm">
+        <CardContent className="pt-6">
+          {users.length === 0 ? (
+            <p className="text-muted-foreground text-center py-10">No users found.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead className="hidden sm:table-cell">Status</TableHead>
+                  <TableHead className="hidden md:table-cell">Created</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {user.displayName}
+                        {user.id === currentUserId && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                      </div>
+                      <div className="text-xs text-muted-foreground">{user.username}</div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={user.role === 'admin' ? 'default' : 'secondary'}>{ROLE_LABELS[user.role]}</Badge>
+                    </TableCell>
+                    <TableCell className="hidden sm:table-cell">
+                      {user.disabled ? <Badge variant="outline">Disabled</Badge> : <span className="text-sm">Active</span>}
+                      {user.twoFactorEnabled && <Badge variant="secondary" className="ml-2" title="Two-factor authentication enabled">2FA</Badge>}
+                    </TableCell>
+                    <TableCell className="hidden md:table-cell text-sm">{formatDate(user.createdAt)}</TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="icon" title="Edit User" onClick={() => openEditDialog(user)} disabled={isProcessing}>
+                        <Edit2 className="w-4 h-4" />
+                      </Button>
+                      <AlertDialog>
+                        <AlertDialogTrigger asChild>
+                          <Button variant="ghost" size="icon" title="Delete User" disabled={isProcessing || user.id === currentUserId}>
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </AlertDialogTrigger>
+                        <AlertDialogContent>
+                          <AlertDialogHeader>
+                            <AlertDialogTitle>Delete this user?</AlertDialogTitle>
+                            <AlertDialogDescription>
+                              &quot;{user.username}&quot; will be signed out and can no longer sign in. Their posts are kept.
+                            </AlertDialogDescription>
+                          </AlertDialogHeader>
+                          <AlertDialogFooter>
+                            <AlertDialogCancel disabled={isProcessing}>Cancel</AlertDialogCancel>
+                            <AlertDialogAction
+                              onClick={() => handleDeleteUser(user)}
+                              disabled={isProcessing}
+                              className="bg-destructive hover:bg-destructive/90 text-destructive-foreground"
+                            >
+                              Delete
+                            </AlertDialogAction>
+                          </AlertDialogFooter>
+                        </AlertDialogContent>
+                      </AlertDialog>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isCreateOpen} onOpenChange={(open) => !isProcessing && setIsCreateOpen(open)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Add User</DialogTitle>
+            <DialogDescription>The new user signs in with this username and password.</DialogDescription>
+          </DialogHeader>
+          {createForm}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editTarget} onOpenChange={(open) => !open && !isProcessing && setEditTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit {editTarget?.username}</DialogTitle>
+            <DialogDescription>Changing the password or disabling the account signs the user out everywhere.</DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleUpdateUser} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="editDisplayName">Display Name</Label>
+              <Input
+                id="editDisplayName"
+                value={editValues.displayName}
+                onChange={(e) => setEditValues(prev => ({ ...prev, displayName: e.target.value }))}
+                disabled={isProcessing}
+              />
+              <FieldError errors={editErrors} name="displayName" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="role">Role</Label>
+              <RoleSelect
+                value={editValues.role}
+                onChange={(role) => setEditValues(prev => ({ ...prev, role }))}
+                disabled={isProcessing || editTarget?.id === currentUserId}
+              />
+              <FieldError errors={editErrors} name="role" />
+            </div>
+            <div className="flex items-center justify-between rounded-lg border p-3">
+              <div>
+                <Label htmlFor="editDisabled">Disabled</Label>
+                <p className="text-xs text-muted-foreground">Disabled users cannot sign in.</p>
+              </div>
+              <Switch
+                id="editDisabled"
+                checked={editValues.disabled}
+                onCheckedChange={(checked) => setEditValues(prev => ({ ...prev, disabled: checked }))}
+                disabled={isProcessing || editTarget?.id === currentUserId}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="editPassword">New Password</Label>
+              <Input
+                id="editPassword"
+                type="password"
+                autoComplete="new-password"
+                placeholder="Leave blank to keep the current password"
+                value={editValues.password}
+                onChange={(e) => setEditValues(prev => ({ ...prev, password: e.target.value }))}
+                disabled={isProcessing}
+              />
+              <FieldError errors={editErrors} name="password" />
+            </div>
+            {editTarget?.twoFactorEnabled && editTarget.id !== currentUserId && (
+              <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+                <p className="text-xs text-muted-foreground">
+                  Two-factor authentication is on. Reset it if the user lost their authenticator and recovery codes.
+                </p>
+                <Button type="button" variant="outline" size="sm" onClick={() => handleResetTwoFactor(editTarget)} disabled={isProcessing}>
+                  Reset 2FA
+                </Button>
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setEditTarget(null)} disabled={isProcessing}>Cancel</Button>
+              <Button type="submit" disabled={isProcessing}>
+                {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Save Changes
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,30 @@
+import AdminUsersClientPage from './client-page';
+import * as userService from '@/lib/user-service';
+import { getCurrentUser } from '@/lib/auth';
+import { canManageUsers } from '@/lib/permissions';
+import AccessDenied from '@/components/AccessDenied';
+
+export default async function AdminUsersPage() {
+  // Moves a legacy site settings admin into the users table before deciding whether setup is needed
+  try {
+    await userService.migrateLegacyAdminAccount();
+  } catch (error: any) {
+    console.error('Failed to migrate the legacy admin account:', error.message);
+  }
+
+  // Until an admin exists, the middleware lets anyone reach this page to create the first one
+  const adminCount = await userService.countUsers({ role: 'admin' });
+  if (adminCount === 0) {
+    return <AdminUsersClientPage initialUsers={[]} currentUserId={null} isFirstAdminSetup />;
+  }
+
+  const currentUser = await getCurrentUser();
+  if (!currentUser || !canManageUsers(currentUser)) {
+    return <AccessDenied message="Only admins can manage users." />;
+  }
+
+  const users = await userService.getAllUsers();
+  return <AdminUsersClientPage initialUsers={users} currentUserId={currentUser.id} isFirstAdminSetup={false} />;
+}
+
+export const dynamic = 'force-dynamic';
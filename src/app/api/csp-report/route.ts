@@ -0,0 +1,122 @@
+import { type NextRequest } from 'next/server';
+import * as cspReportService from '@/lib/csp-report-service';
+import { getClientIpFromHeaders } from '@/lib/client-ip';
+import { createSlidingWindowLimiter } from '@/lib/rate-limit';
+import type { CspViolationReport } from '@/types';
+
+// Receives Content Security Policy violations (see lib/csp) in both formats browsers send:
+// the legacy `report-uri` body ({"csp-report": {...}}) and Reporting API batches for `report-to`
+const MAX_BODY_BYTES = 64 * 1024;
+const MAX_REPORTS_PER_REQUEST = 20;
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const MAX_REQUESTS_PER_WINDOW = 30; // Per IP; a page load rarely triggers more than a few reports
+
+// The endpoint is public, so each IP gets a budget before anything is read or stored
+const reportRateLimiter = createSlidingWindowLimiter(RATE_LIMIT_WINDOW_MS);
+
+// Reads at most `maxBytes` of the body, and null if there is more, without buffering the rest
+async function readBodyWithLimit(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (!request.body) return '';
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let totalBytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    totalBytes += value.byteLength;
+    if (totalBytes > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+// Full URLs can carry query strings with personal data, so only origins and paths are kept
+function toOriginOrKeyword(value: unknown): string {
+  if (typeof value !== 'string' || !value) return 'unknown';
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.origin : url.protocol.replace(/:$/, '');
+  } catch {
+    return value.slice(0, 50); // A keyword such as "inline" or "eval"
+  }
+}
+
+function toPath(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value) return undefined;
+  try {
+    return new URL(value).pathname;
+  } catch {
+    return undefined;
+  }
+}
+
+function toLineNumber(value: unknown): number | undefined {
+  const lineNumber = Number(value);
+  return Number.isInteger(lineNumber) && lineNumber >= 0 ? lineNumber : undefined;
+}
+
+function parseLegacyReport(report: any): CspViolationReport | null {
+  if (!report || typeof report !== 'object') return null;
+  const directive = report['effective-directive'] || String(report['violated-directive'] || '').split(' ')[0];
+  if (!directive) return null;
+  return {
+    directive: String(directive),
+    blockedUri: toOriginOrKeyword(report['blocked-uri']),
+    documentUri: toPath(report['document-uri']),
+    sourceFile: report['source-file'] ? toOriginOrKeyword(report['source-file']) : undefined,
+    lineNumber: toLineNumber(report['line-number']),
+    disposition: report.disposition === 'enforce' ? 'enforce' : 'report',
+  };
+}
+
+function parseReportingApiReport(report: any): CspViolationReport | null {
+  if (!report || report.type !== 'csp-violation' || !report.body?.effectiveDirective) return null;
+  const { body } = report;
+  return {
+    directive: String(body.effectiveDirective),
+    blockedUri: toOriginOrKeyword(body.blockedURL),
+    documentUri: toPath(body.documentURL || report.url),
+    sourceFile: body.sourceFile ? toOriginOrKeyword(body.sourceFile) : undefined,
+    lineNumber: toLineNumber(body.lineNumber),
+    disposition: body.disposition === 'enforce' ? 'enforce' : 'report',
+  };
+}
+
+export async function POST(request: NextRequest) {
+  const declaredLength = Number(request.headers.get('content-length'));
+  if (declaredLength > MAX_BODY_BYTES) {
+    return new Response(null, { status: 413 });
+  }
+
+  const ipAddress = getClientIpFromHeaders(request.headers);
+  if (ipAddress && reportRateLimiter.recordAndCount(ipAddress) > MAX_REQUESTS_PER_WINDOW) {
+    return new Response(null, { status: 429 });
+  }
+
+  const text = await readBodyWithLimit(request, MAX_BODY_BYTES);
+  if (text === null) {
+    return new Response(null, { status: 413 });
+  }
+
+  let payload: any;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    return new Response(null, { status: 400 });
+  }
+
+  const reports = (Array.isArray(payload) ? payload.map(parseReportingApiReport) : [parseLegacyReport(payload?.['csp-report'])])
+    .filter((report): report is CspViolationReport => report !== null)
+    .slice(0, MAX_REPORTS_PER_REQUEST);
+
+  try {
+    await cspReportService.recordCspViolations(reports);
+  } catch (error: any) {
+    // Browsers don't retry failed reports, so there is nothing useful to tell them
+    console.error('Failed to store CSP violation reports:', error.message);
+  }
+  return new Response(null, { status: 204 });
+}
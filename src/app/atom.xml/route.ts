@@ -0,0 +1,7 @@
+import { createFeedResponse } from '@/lib/feed';
+
+// Atom 1.0 feed of the newest posts; `?search=` narrows it to a site search
+export async function GET(request: Request) {
+  const search = new URL(request.url).searchParams.get('search')?.trim();
+  return createFeedResponse(request, 'atom', { search: search || undefined });
+}
@@ -5,7 +5,11 @@ import { Toaster } from '@/components/ui/toaster';
 import Header from '@/components/Header';
 import { getSettings } from '@/lib/settings-service';
 import type { SiteSettings } from '@/types';
-import { cookies } from 'next/headers'; // Import cookies
+import { getCurrentUser } from '@/lib/auth';
+import { getSiteUrl } from '@/lib/site-url';
+import { getFeedPath } from '@/lib/feed';
+import { CSP_NONCE_HEADER } from '@/lib/csp';
+import { headers } from 'next/headers';
 import RenderHtmlContent from '@/components/RenderHtmlContent';
 import HeadScriptInjector from '@/components/HeadScriptInjector';
 import { ThemeProvider } from '@/contexts/ThemeProvider';
@@ -15,23 +19,28 @@ import { Facebook, Twitter, Instagram, Linkedin, Youtube } from 'lucide-react';
 
 export async function generateMetadata(): Promise<Metadata> {
   const settings = await getSettings();
+  const siteTitle = settings.siteTitle || 'Blogstatic';
   return {
-    title: settings.siteTitle || 'Blogstatic',
+    metadataBase: new URL(getSiteUrl()),
+    title: siteTitle,
     description: settings.siteDescription || 'A modern blog platform with AI-powered tagging.',
+    alternates: {
+      types: {
+        'application/rss+xml': [{ url: getFeedPath('rss'), title: `${siteTitle} (RSS)` }],
+        'application/atom+xml': [{ url: getFeedPath('atom'), title: `${siteTitle} (Atom)` }],
+      },
+    },
   };
 }
 
-const SESSION_COOKIE_NAME = 'newstoday-adminsession';
-
 export default async function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
   const settings: SiteSettings = await getSettings();
-  const cookieStore = cookies();
-  const sessionCookie = cookieStore.get(SESSION_COOKIE_NAME);
-  const isAdminLoggedIn = !!sessionCookie && sessionCookie.value === 'true';
+  const isAdminLoggedIn = !!(await getCurrentUser());
+  const nonce = (await headers()).get(CSP_NONCE_HEADER) ?? undefined; // Set by the middleware
 
   return (
     <html lang="en" suppressHydrationWarning>
@@ -41,13 +50,14 @@ export default async function RootLayout({
         {/* Updated to import Inter font as configured in tailwind.config.ts */}
         <link href="https://fonts.googleapis.com/css2?family=Inter:wght@300;400;500;600;700&display=swap" rel="stylesheet" />
         {settings.globalHeaderScriptsEnabled && settings.globalHeaderScriptsCustomHtml && (
-          <HeadScriptInjector htmlString={settings.globalHeaderScriptsCustomHtml} />
+          <HeadScriptInjector htmlString={settings.globalHeaderScriptsCustomHtml} nonce={nonce} />
         )}
       </head>
       <body className="font-body antialiased min-h-screen flex flex-col bg-background text-foreground">
         <ThemeProvider storageKey="newstoday-theme" defaultTheme="light">
           {/* Banner Ad is now rendered by the Header component */}
-          <Header siteSettings={settings} isAdminLoggedIn={isAdminLoggedIn} />
+          {/* The admin password hash stays on the server */}
+          <Header siteSettings={{ ...settings, adminUsername: undefined, adminPassword: undefined }} isAdminLoggedIn={isAdminLoggedIn} nonce={nonce} />
           <main className="flex-grow container mx-auto px-4 py-8">
             {children}
           </main>
@@ -59,6 +69,7 @@ export default async function RootLayout({
                 <nav className="flex flex-wrap justify-center md:justify-end gap-x-6 gap-y-2">
                   <Link href="/contact" className="hover:text-primary transition-colors">Contact Us</Link>
                   <Link href="/privacy-policy" className="hover:text-primary transition-colors">Privacy Policy</Link>
+                  <a href={getFeedPath('rss')} className="hover:text-primary transition-colors">RSS Feed</a>
                 </nav>
               </div>
               <div className="flex justify-center md:justify-end items-center space-x-4 mt-6">
@@ -83,6 +94,7 @@ export default async function RootLayout({
           {settings.globalFooterScriptsEnabled && settings.globalFooterScriptsCustomHtml && (
             <RenderHtmlContent
               htmlString={settings.globalFooterScriptsCustomHtml}
+              nonce={nonce}
             />
           )}
         </ThemeProvider>
@@ -1,23 +1,27 @@
 
 'use client';
 
-import { useActionState, useEffect } from 'react';
+import { useActionState, useEffect, useState } from 'react';
 import { useFormStatus } from 'react-dom';
 import Link from 'next/link'; // Import Link
-import { loginAction } from '@/app/actions';
+import { loginAction, verifyTwoFactorLoginAction } from '@/app/actions';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { AlertCircle, LogIn } from 'lucide-react';
+import { AlertCircle, LogIn, Timer, ShieldCheck } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
 
-function SubmitButton() {
+function SubmitButton({ retryInSeconds, label = 'Sign In' }: { retryInSeconds: number; label?: string }) {
   const { pending } = useFormStatus();
   return (
-    <Button type="submit" className="w-full" disabled={pending}>
-      {pending ? (
+    <Button type="submit" className="w-full" disabled={pending || retryInSeconds > 0}>
+      {retryInSeconds > 0 ? (
+        <>
+          <Timer className="mr-2 h-5 w-5" /> Try again in {retryInSeconds}s
+        </>
+      ) : pending ? (
         <>
           <svg className="animate-spin -ml-1 mr-3 h-5 w-5 text-white" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
             <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle>
@@ -27,22 +31,59 @@ function SubmitButton() {
         </>
       ) : (
         <>
-          <LogIn className="mr-2 h-5 w-5" /> Sign In
+          <LogIn className="mr-2 h-5 w-5" /> {label}
         </>
       )}
     </Button>
   );
 }
 
-const ADMIN_NOT_CONFIGURED_MESSAGE = 'Admin account is not configured. Please set it up in Site Settings.';
+const ADMIN_NOT_CONFIGURED_MESSAGE = 'Admin account is not configured. Please create one on the Users page.';
 
 export default function LoginPage() {
   const [state, formAction] = useActionState(loginAction, undefined);
+  const [twoFactorState, twoFactorFormAction] = useActionState(verifyTwoFactorLoginAction, undefined);
+  const [step, setStep] = useState<'password' | 'twoFactor'>('password');
   const { toast } = useToast();
   const router = useRouter();
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [retryInSeconds, setRetryInSeconds] = useState(0);
+
+  useEffect(() => {
+    if (state?.retryAfterSeconds) setRetryAt(Date.now() + state.retryAfterSeconds * 1000);
+    if (state?.twoFactorRequired) setStep('twoFactor');
+  }, [state]);
+
+  useEffect(() => {
+    if (twoFactorState?.retryAfterSeconds) setRetryAt(Date.now() + twoFactorState.retryAfterSeconds * 1000);
+    // The password step has to be repeated once the two-factor challenge has expired
+    if (twoFactorState && twoFactorState.twoFactorRequired === false) setStep('password');
+    if (twoFactorState?.success === false && twoFactorState.message) {
+      toast({
+        variant: 'destructive',
+        title: 'Verification Failed',
+        description: twoFactorState.message,
+      });
+    }
+  }, [twoFactorState, toast]);
+
+  // Counts down the throttling delay reported by the server; the server enforces it either way
+  useEffect(() => {
+    if (!retryAt) return;
+    const updateRemaining = () => {
+      const remaining = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+      setRetryInSeconds(remaining);
+      return remaining;
+    };
+    updateRemaining();
+    const timer = setInterval(() => {
+      if (updateRemaining() === 0) clearInterval(timer);
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
 
   useEffect(() => {
-    if (state?.success === false && state.message && state.message !== ADMIN_NOT_CONFIGURED_MESSAGE) {
+    if (state?.success === false && state.message && !state.twoFactorRequired && state.message !== ADMIN_NOT_CONFIGURED_MESSAGE) {
       toast({
         variant: 'destructive',
         title: 'Login Failed',
@@ -69,44 +110,77 @@ export default function LoginPage() {
           <CardDescription>Enter your credentials to access the admin panel.</CardDescription>
         </CardHeader>
         <CardContent>
-          <form action={formAction} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                name="username"
-                type="text"
-                placeholder="admin"
-                required
-                autoComplete="username"
-              />
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <Input
-                id="password"
-                name="password"
-                type="password"
-                required
-                autoComplete="current-password"
-              />
-            </div>
-            {state?.success === false && state.message && state.message !== ADMIN_NOT_CONFIGURED_MESSAGE && (
-              <div className="flex items-center text-sm text-destructive">
-                <AlertCircle className="mr-2 h-4 w-4" />
-                <p>{state.message}</p>
+          {step === 'twoFactor' ? (
+            <form action={twoFactorFormAction} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="code" className="flex items-center gap-2">
+                  <ShieldCheck className="h-4 w-4 text-primary" /> Authentication Code
+                </Label>
+                <Input
+                  id="code"
+                  name="code"
+                  type="text"
+                  inputMode="numeric"
+                  placeholder="123456"
+                  required
+                  autoFocus
+                  autoComplete="one-time-code"
+                />
+                <p className="text-sm text-muted-foreground">
+                  Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+                </p>
               </div>
-            )}
-            <SubmitButton />
-          </form>
+              {twoFactorState?.success === false && twoFactorState.message && (
+                <div className="flex items-center text-sm text-destructive">
+                  <AlertCircle className="mr-2 h-4 w-4" />
+                  <p>{twoFactorState.message}</p>
+                </div>
+              )}
+              <SubmitButton retryInSeconds={retryInSeconds} label="Verify" />
+              <Button type="button" variant="ghost" className="w-full" onClick={() => setStep('password')}>
+                Back to Sign In
+              </Button>
+            </form>
+          ) : (
+            <form action={formAction} className="space-y-6">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  name="username"
+                  type="text"
+                  placeholder="admin"
+                  required
+                  autoComplete="username"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="password">Password</Label>
+                <Input
+                  id="password"
+                  name="password"
+                  type="password"
+                  required
+                  autoComplete="current-password"
+                />
+              </div>
+              {state?.success === false && state.message && !state.twoFactorRequired && state.message !== ADMIN_NOT_CONFIGURED_MESSAGE && (
+                <div className="flex items-center text-sm text-destructive">
+                  <AlertCircle className="mr-2 h-4 w-4" />
+                  <p>{state.message}</p>
+                </div>
+              )}
+              <SubmitButton retryInSeconds={retryInSeconds} />
+            </form>
+          )}
            {state?.success === false && state.message === ADMIN_NOT_CONFIGURED_MESSAGE && (
               <div className="mt-4 text-center text-sm">
                 <div className="flex items-center justify-center text-sm text-destructive mb-2">
                   <AlertCircle className="mr-2 h-4 w-4 flex-shrink-0" />
                   <p>{state.message}</p>
                 </div>
-                <Link href="/admin/settings" className="font-medium text-primary hover:underline">
-                  Go to Site Settings to configure admin access.
+                <Link href="/admin/users" className="font-medium text-primary hover:underline">
+                  Create the first admin account.
                 </Link>
               </div>
             )}
@@ -1,9 +1,10 @@
 
-import type { Post } from '@/types';
+import type { PostSummary } from '@/types';
 import * as postService from '@/lib/post-service';
 import { getSettings } from '@/lib/settings-service';
 import PostCard from '@/components/PostCard';
 import PaginationControlsClient from '@/components/PaginationControlsClient';
+import type { SearchSnippetSegment } from '@/lib/post-search';
 
 interface HomePageProps {
   searchParams?: {
@@ -13,29 +14,36 @@ interface HomePageProps {
 }
 
 export default async function HomePage({ searchParams }: HomePageProps) {
-  const allPosts = await postService.getAllPosts();
   const settings = await getSettings();
   const postsPerPage = settings.postsPerPage > 0 ? settings.postsPerPage : 6;
 
   const currentPage = Number(searchParams?.page) || 1;
   const searchTerm = searchParams?.search || '';
 
-  const filteredPosts = searchTerm
-    ? allPosts.filter(
-        (post) =>
-          post.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
-          post.tags.some(tag => tag.toLowerCase().includes(searchTerm.toLowerCase()))
-      )
-    : allPosts;
-
-  const paginatedPosts = filteredPosts.slice(
-    (currentPage - 1) * postsPerPage,
-    currentPage * postsPerPage
-  );
+  // Either way only the current page is fetched from the database: search results come back
+  // ranked with a highlighted excerpt, otherwise the newest posts are listed.
+  let paginatedResults: Array<{ post: PostSummary; snippet?: SearchSnippetSegment[] }>;
+  let totalResults: number;
+  if (searchTerm) {
+    const search = await postService.searchPosts(searchTerm, {
+      limit: postsPerPage,
+      offset: (currentPage - 1) * postsPerPage,
+    });
+    paginatedResults = search.results;
+    totalResults = search.total;
+  } else {
+    const page = await postService.queryPosts({
+      limit: postsPerPage,
+      offset: (currentPage - 1) * postsPerPage,
+      columns: postService.POST_SUMMARY_COLUMNS,
+    });
+    paginatedResults = page.posts.map(post => ({ post }));
+    totalResults = page.total;
+  }
 
-  const totalPages = Math.ceil(filteredPosts.length / postsPerPage);
+  const totalPages = Math.ceil(totalResults / postsPerPage);
 
-  if (allPosts.length === 0 && !searchTerm) {
+  if (totalResults === 0 && !searchTerm) {
      return (
         <div className="py-8"> {/* Adjusted padding */}
           <p className="text-center text-muted-foreground text-xl py-10">
@@ -47,16 +55,16 @@ export default async function HomePage({ searchParams }: HomePageProps) {
 
   return (
     <div className="py-8"> {/* Adjusted padding */}
-      {paginatedPosts.length === 0 && searchTerm && (
+      {paginatedResults.length === 0 && searchTerm && (
         <p className="text-center text-muted-foreground text-xl py-10">
           No posts found for &quot;{searchTerm}&quot;. Try a different search term.
         </p>
       )}
 
-      {paginatedPosts.length > 0 && (
+      {paginatedResults.length > 0 && (
          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-10"> {/* Increased gap */}
-          {paginatedPosts.map((post) => (
-            <PostCard key={post.id} post={post} />
+          {paginatedResults.map(({ post, snippet }) => (
+            <PostCard key={post.id} post={post} snippet={snippet} />
           ))}
         </div>
       )}
@@ -0,0 +1,108 @@
+import { ImageResponse } from 'next/og';
+import * as postService from '@/lib/post-service';
+import { getSettings } from '@/lib/settings-service';
+import { getSiteUrl, toAbsoluteUrl } from '@/lib/site-url';
+import { getScrapeFetchPolicies } from '@/lib/scraper';
+import { fetchWithPolicy } from '@/lib/safe-fetch';
+import type { SiteSettings } from '@/types';
+
+// Social preview card for posts without a thumbnail (see getPostOgImagePath in lib/seo)
+const IMAGE_WIDTH = 1200;
+const IMAGE_HEIGHT = 630;
+const MAX_TITLE_LENGTH = 140;
+const MAX_LOGO_BYTES = 1024 * 1024;
+const LOGO_FETCH_TIMEOUT_MS = 3000;
+
+// Colors from the site theme in globals.css
+const PRIMARY_COLOR = 'hsl(200, 70%, 50%)';
+const FOREGROUND_COLOR = 'hsl(220, 15%, 25%)';
+const MUTED_COLOR = 'hsl(220, 10%, 45%)';
+const BACKGROUND_COLOR = 'hsl(220, 20%, 98%)';
+
+interface OgImageRouteContext {
+  params: Promise<{ slug: string }>;
+}
+
+// The logo is inlined as a data URI so a slow or broken logo URL drops the logo instead of failing the whole image.
+// It is fetched under the import image policy, like any other URL an admin can type in (no private hosts, checked redirects).
+async function fetchLogoDataUri(logoUrl: string, settings: SiteSettings): Promise<string | null> {
+  try {
+    const policy = { ...getScrapeFetchPolicies(settings).image, maxBytes: MAX_LOGO_BYTES, timeoutMs: LOGO_FETCH_TIMEOUT_MS };
+    const logo = await fetchWithPolicy(logoUrl, policy);
+    return `data:${logo.contentType};base64,${logo.data.toString('base64')}`;
+  } catch (error: any) {
+    console.warn('Could not load the site logo for an Open Graph image:', error.message);
+    return null;
+  }
+}
+
+export async function GET(_request: Request, { params }: OgImageRouteContext) {
+  const { slug } = await params;
+  const post = await postService.getPostBySlug(slug);
+  if (!post) {
+    return new Response('Not found', { status: 404 });
+  }
+
+  const settings = await getSettings();
+  const siteUrl = getSiteUrl();
+  const siteTitle = settings.siteTitle || 'Newstoday';
+  const logoDataUri = settings.siteLogoUrl ? await fetchLogoDataUri(toAbsoluteUrl(settings.siteLogoUrl, siteUrl), settings) : null;
+  const title = post.title.length > MAX_TITLE_LENGTH ? `${post.title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : post.title;
+  const formattedDate = new Date(post.date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+  const primaryTag = post.tags[0];
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: '64px 72px',
+          backgroundColor: BACKGROUND_COLOR,
+          borderTop: `16px solid ${PRIMARY_COLOR}`,
+          color: FOREGROUND_COLOR,
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center' }}>
+          {logoDataUri && (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={logoDataUri} alt="" height={64} style={{ maxWidth: 240, objectFit: 'contain', marginRight: 24 }} />
+          )}
+          <div style={{ fontSize: 36, color: PRIMARY_COLOR }}>{siteTitle}</div>
+        </div>
+
+        <div style={{ display: 'flex', fontSize: title.length > 80 ? 52 : 64, lineHeight: 1.2 }}>
+          {title}
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', fontSize: 28, color: MUTED_COLOR }}>
+          <div>{formattedDate}</div>
+          {primaryTag && (
+            <div
+              style={{
+                marginLeft: 24,
+                padding: '6px 20px',
+                borderRadius: 9999,
+                backgroundColor: PRIMARY_COLOR,
+                color: 'white',
+              }}
+            >
+              {primaryTag}
+            </div>
+          )}
+        </div>
+      </div>
+    ),
+    {
+      width: IMAGE_WIDTH,
+      height: IMAGE_HEIGHT,
+      headers: {
+        // The URL carries the post's last update (?v=), so an edited post gets a new image URL
+        'Cache-Control': 'public, max-age=86400, s-maxage=86400',
+      },
+    }
+  );
+}
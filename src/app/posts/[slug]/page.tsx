@@ -1,14 +1,26 @@
 
 import * as postService from '@/lib/post-service';
+import * as commentService from '@/lib/comment-service';
 import type { Metadata } from 'next';
 import { notFound } from 'next/navigation';
 import Image from 'next/image';
 import TagBadge from '@/components/TagBadge';
-import { CalendarDays, BookOpen } from 'lucide-react';
+import { CalendarDays, BookOpen, User as UserIcon } from 'lucide-react';
 import PostCard from '@/components/PostCard';
-import type { Post } from '@/types';
+import type { PostSummary } from '@/types';
 import SocialShareButtons from '@/components/SocialShareButtons';
-import { headers } from 'next/headers';
+import { getSettings } from '@/lib/settings-service';
+import { getTrustedEmbedHosts, sanitizePostHtml } from '@/lib/html-sanitizer';
+import { getSiteUrl, toAbsoluteUrl } from '@/lib/site-url';
+import {
+  buildNewsArticleJsonLd,
+  buildPostBreadcrumbJsonLd,
+  getPostPath,
+  getPostSeoDescription,
+  getPostSeoTitle,
+  getPostShareImageUrl,
+  serializeJsonLd,
+} from '@/lib/seo';
 import CommentSection from '@/components/CommentSection';
 import { suggestRelatedArticles } from '@/ai/flows/suggest-related-articles';
 import * as cheerio from 'cheerio';
@@ -19,8 +31,11 @@ interface PostPageProps {
   };
 }
 
+const PRERENDERED_POST_COUNT = 100; // Older posts are rendered on their first request instead of at build time
+const RELATED_POST_CANDIDATE_COUNT = 100;
+
 export async function generateStaticParams() {
-  const posts = await postService.getAllPosts();
+  const { posts } = await postService.queryPosts({ columns: ['slug'], limit: PRERENDERED_POST_COUNT });
   return posts.map(post => ({
     slug: post.slug,
   }));
@@ -33,9 +48,39 @@ export async function generateMetadata({ params }: PostPageProps): Promise<Metad
       title: 'Post Not Found',
     };
   }
+  const settings = await getSettings();
+  const siteUrl = getSiteUrl();
+  const siteTitle = settings.siteTitle || 'Newstoday';
+  const title = getPostSeoTitle(post);
+  const description = getPostSeoDescription(post);
+  const canonicalUrl = toAbsoluteUrl(getPostPath(post), siteUrl);
+  const imageUrl = getPostShareImageUrl(post, siteUrl);
+  const imageSize = post.thumbnailUrl ? {} : { width: 1200, height: 630 }; // Thumbnail dimensions aren't stored
+
   return {
-    title: `${post.title} | Newstoday`,
-    description: post.content.substring(0, 150).replace(/<[^>]*>?/gm, ''),
+    title: `${title} | ${siteTitle}`,
+    description,
+    alternates: {
+      canonical: canonicalUrl,
+    },
+    openGraph: {
+      type: 'article',
+      url: canonicalUrl,
+      title,
+      description,
+      siteName: siteTitle,
+      publishedTime: post.date,
+      modifiedTime: post.updatedAt || post.date,
+      authors: post.authorName ? [post.authorName] : undefined,
+      tags: post.tags,
+      images: [{ url: imageUrl, alt: post.title, ...imageSize }],
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+      images: [imageUrl],
+    },
   };
 }
 
@@ -75,14 +120,33 @@ export default async function PostPage({ params }: PostPageProps) {
     post = { ...post, id: postIdAsString }; // Ensure id is string even if view count fails
   }
 
+  const approvedComments = await commentService.getApprovedCommentsByPostId(post.id);
+
   const formattedDate = new Date(post.date).toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
   });
 
-  const allPosts = await postService.getAllPosts();
-  let relatedPosts: Post[] = [];
+  // Credit for imported posts; the hostname labels the link to the original
+  let sourceHostname: string | null = null;
+  if (post.sourceUrl) {
+    try {
+      sourceHostname = new URL(post.sourceUrl).hostname.replace(/^www\./, '');
+    } catch {
+      sourceHostname = null;
+    }
+  }
+  const sourcePublishedDate = post.sourcePublishedAt
+    ? new Date(post.sourcePublishedAt).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+    : null;
+
+  // Related posts are picked from the most recent posts, without their HTML content
+  const { posts: allPosts } = await postService.queryPosts({
+    columns: postService.POST_SUMMARY_COLUMNS,
+    limit: RELATED_POST_CANDIDATE_COUNT,
+  });
+  let relatedPosts: PostSummary[] = [];
   const MAX_RELATED_POSTS = 8;
 
   try {
@@ -112,7 +176,7 @@ export default async function PostPage({ params }: PostPageProps) {
         const suggestedPostMap = new Map(allPosts.map(p => [String(p.id), p])); // Use string IDs for map
         relatedPosts = aiSuggestions.relatedPostIds
           .map(id => suggestedPostMap.get(String(id))) // Lookup with string ID
-          .filter(p => p !== undefined) as Post[];
+          .filter(p => p !== undefined) as PostSummary[];
       }
     }
     
@@ -167,25 +231,22 @@ export default async function PostPage({ params }: PostPageProps) {
     }
   }
 
-  const FALLBACK_SITE_URL = 'http://localhost:3000';
-  let baseUrlToUse = process.env.NEXT_PUBLIC_SITE_URL;
-
-  if (!baseUrlToUse) {
-    const headersList = headers();
-    const hostHeader = headersList.get('host');
-    const protocolHeader = headersList.get('x-forwarded-proto') || (hostHeader?.includes('localhost') ? 'http' : 'https');
-    if (hostHeader) {
-      baseUrlToUse = `${protocolHeader}://${hostHeader}`;
-    } else {
-      baseUrlToUse = FALLBACK_SITE_URL;
-    }
-  }
-  const postUrl = `${baseUrlToUse}/posts/${post.slug}`;
-  const pageDescription = getExcerptFromHtml(post.content, 160);
+  const settings = await getSettings();
+  const siteUrl = getSiteUrl();
+  const postUrl = toAbsoluteUrl(getPostPath(post), siteUrl);
+  const pageDescription = getPostSeoDescription(post);
 
 
   return (
     <>
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildNewsArticleJsonLd(post, settings, siteUrl)) }}
+      />
+      <script
+        type="application/ld+json"
+        dangerouslySetInnerHTML={{ __html: serializeJsonLd(buildPostBreadcrumbJsonLd(post, settings, siteUrl)) }}
+      />
       <article className="max-w-3xl mx-auto py-8 px-4 sm:px-6 lg:px-8 bg-card shadow-xl rounded-lg">
         <header className="mb-8">
           <h1 className="font-headline text-3xl md:text-4xl font-bold text-primary mb-4 break-words">
@@ -196,6 +257,12 @@ export default async function PostPage({ params }: PostPageProps) {
               <CalendarDays className="w-4 h-4 mr-1.5" />
               <time dateTime={post.date}>{formattedDate}</time>
             </div>
+            {post.authorName && (
+              <div className="flex items-center">
+                <UserIcon className="w-4 h-4 mr-1.5" />
+                <span>By {post.authorName}</span>
+              </div>
+            )}
             <div className="flex items-center">
               <BookOpen className="w-4 h-4 mr-1.5" />
               <span>{post.viewCount ?? 0} Reads</span>
@@ -217,9 +284,21 @@ export default async function PostPage({ params }: PostPageProps) {
 
         <div
           className="prose prose-lg max-w-none text-foreground leading-relaxed selection:bg-primary/30"
-          dangerouslySetInnerHTML={{ __html: post.content }}
+          dangerouslySetInnerHTML={{ __html: sanitizePostHtml(post.content, getTrustedEmbedHosts(settings)) }}
         />
 
+        {(sourceHostname || post.sourceAuthor) && (
+          <p className="mt-8 text-sm text-muted-foreground italic">
+            Originally published
+            {post.sourceAuthor && <> by {post.sourceAuthor}</>}
+            {sourcePublishedDate && <> on <time dateTime={post.sourcePublishedAt}>{sourcePublishedDate}</time></>}
+            {sourceHostname && (
+              <> at <a href={post.sourceUrl} target="_blank" rel="noopener noreferrer nofollow" className="underline hover:text-primary">{sourceHostname}</a></>
+            )}
+            .
+          </p>
+        )}
+
         {(post.tags && post.tags.length > 0) || postUrl ? (
           <footer className="mt-12 pt-8 border-t">
             {post.tags && post.tags.length > 0 && (
@@ -252,7 +331,7 @@ export default async function PostPage({ params }: PostPageProps) {
         </section>
       )}
 
-      <CommentSection />
+      <CommentSection postId={post.id} comments={approvedComments} />
     </>
   );
 }
@@ -0,0 +1,28 @@
+import { getSettings } from '@/lib/settings-service';
+import { getSiteUrl } from '@/lib/site-url';
+
+// Never crawlable, whatever the settings say
+const ALWAYS_DISALLOWED_PATHS = ['/admin', '/login', '/api/'];
+
+export async function GET() {
+  const settings = await getSettings();
+  const siteUrl = getSiteUrl();
+
+  const lines = ['User-agent: *'];
+  if (settings.robotsAllowIndexing === false) {
+    lines.push('Disallow: /');
+  } else {
+    lines.push(...ALWAYS_DISALLOWED_PATHS.map(path => `Disallow: ${path}`));
+  }
+  // Custom rules continue the "*" group unless they start their own User-agent group
+  const customRules = settings.robotsTxtCustomRules?.trim();
+  if (customRules) lines.push(customRules);
+  lines.push('', `Sitemap: ${siteUrl}/sitemap.xml`, '');
+
+  return new Response(lines.join('\n'), {
+    headers: {
+      'Content-Type': 'text/plain; charset=utf-8',
+      'Cache-Control': 'public, max-age=0, s-maxage=3600',
+    },
+  });
+}
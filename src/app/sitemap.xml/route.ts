@@ -0,0 +1,5 @@
+import { createSitemapResponse } from '@/lib/sitemap';
+
+export async function GET() {
+  return createSitemapResponse();
+}
@@ -0,0 +1,12 @@
+import { createSitemapPartResponse } from '@/lib/sitemap';
+
+interface SitemapPartRouteContext {
+  params: Promise<{ name: string }>;
+}
+
+// One file of the sitemap index, e.g. /sitemaps/pages.xml or /sitemaps/posts-2.xml
+export async function GET(_request: Request, { params }: SitemapPartRouteContext) {
+  const { name } = await params;
+  const response = await createSitemapPartResponse(name);
+  return response ?? new Response('Not found', { status: 404 });
+}
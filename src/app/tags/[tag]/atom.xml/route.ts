@@ -0,0 +1,12 @@
+import { createFeedResponse } from '@/lib/feed';
+import { decodeTagParam } from '@/lib/tags';
+
+interface TagFeedRouteContext {
+  params: Promise<{ tag: string }>;
+}
+
+// Atom 1.0 feed of the newest posts with this tag
+export async function GET(request: Request, { params }: TagFeedRouteContext) {
+  const { tag } = await params;
+  return createFeedResponse(request, 'atom', { tag: decodeTagParam(tag) });
+}
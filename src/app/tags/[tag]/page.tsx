@@ -0,0 +1,89 @@
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import * as postService from '@/lib/post-service';
+import { getSettings } from '@/lib/settings-service';
+import PostCard from '@/components/PostCard';
+import PaginationControlsClient from '@/components/PaginationControlsClient';
+import { decodeTagParam, getTagHref } from '@/lib/tags';
+import { getFeedPath } from '@/lib/feed';
+import { TagIcon, Rss } from 'lucide-react';
+
+interface TagPageProps {
+  params: {
+    tag: string;
+  };
+  searchParams?: {
+    page?: string;
+  };
+}
+
+export async function generateMetadata({ params }: TagPageProps): Promise<Metadata> {
+  const tag = decodeTagParam(params.tag);
+  const settings = await getSettings();
+  const siteTitle = settings.siteTitle || 'Blogstatic';
+  return {
+    title: `Posts tagged "${tag}" | ${siteTitle}`,
+    description: `All articles on ${siteTitle} tagged with "${tag}".`,
+    alternates: {
+      canonical: getTagHref(tag),
+      types: {
+        'application/rss+xml': [{ url: getFeedPath('rss', { tag }), title: `${siteTitle}: ${tag} (RSS)` }],
+        'application/atom+xml': [{ url: getFeedPath('atom', { tag }), title: `${siteTitle}: ${tag} (Atom)` }],
+      },
+    },
+  };
+}
+
+export default async function TagPage({ params, searchParams }: TagPageProps) {
+  const tag = decodeTagParam(params.tag);
+  const settings = await getSettings();
+  const postsPerPage = settings.postsPerPage > 0 ? settings.postsPerPage : 6;
+
+  const currentPage = Number(searchParams?.page) || 1;
+  const { posts: paginatedPosts, total: totalTaggedPosts } = await postService.queryPosts({
+    tag,
+    limit: postsPerPage,
+    offset: (currentPage - 1) * postsPerPage,
+    columns: postService.POST_SUMMARY_COLUMNS,
+  });
+  const totalPages = Math.ceil(totalTaggedPosts / postsPerPage);
+
+  return (
+    <div className="py-8">
+      <header className="mb-10">
+        <p className="text-sm text-muted-foreground mb-2">
+          <Link href="/tags" className="hover:text-primary hover:underline">All tags</Link>
+        </p>
+        <h1 className="font-headline text-3xl md:text-4xl font-bold text-primary flex items-center break-words">
+          <TagIcon className="w-7 h-7 mr-3 flex-shrink-0" />
+          {tag}
+        </h1>
+        <p className="text-muted-foreground mt-2 flex items-center gap-4">
+          <span>{totalTaggedPosts} {totalTaggedPosts === 1 ? 'post' : 'posts'}</span>
+          <a href={getFeedPath('rss', { tag })} className="inline-flex items-center text-sm hover:text-primary hover:underline">
+            <Rss className="w-4 h-4 mr-1" />
+            Subscribe
+          </a>
+        </p>
+      </header>
+
+      {paginatedPosts.length === 0 ? (
+        <p className="text-center text-muted-foreground text-xl py-10">
+          No posts found for the tag &quot;{tag}&quot;.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-10">
+          {paginatedPosts.map((post) => (
+            <PostCard key={post.id} post={post} />
+          ))}
+        </div>
+      )}
+
+      <PaginationControlsClient
+        currentPage={currentPage}
+        totalPages={totalPages}
+        basePath={getTagHref(tag)}
+      />
+    </div>
+  );
+}
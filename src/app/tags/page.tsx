@@ -0,0 +1,43 @@
+import type { Metadata } from 'next';
+import * as postService from '@/lib/post-service';
+import { getSettings } from '@/lib/settings-service';
+import TagBadge from '@/components/TagBadge';
+import { TagsIcon } from 'lucide-react';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const settings = await getSettings();
+  return {
+    title: `All Tags | ${settings.siteTitle || 'Blogstatic'}`,
+    description: `Browse every topic covered on ${settings.siteTitle || 'Blogstatic'}.`,
+  };
+}
+
+export default async function TagsIndexPage() {
+  const tagCounts = await postService.getTagCounts();
+
+  return (
+    <div className="py-8 max-w-4xl mx-auto">
+      <header className="mb-10">
+        <h1 className="font-headline text-3xl md:text-4xl font-bold text-primary flex items-center">
+          <TagsIcon className="w-8 h-8 mr-3" />
+          All Tags
+        </h1>
+        <p className="text-muted-foreground mt-2">
+          {tagCounts.length} {tagCounts.length === 1 ? 'tag' : 'tags'} across the site.
+        </p>
+      </header>
+
+      {tagCounts.length === 0 ? (
+        <p className="text-center text-muted-foreground text-xl py-10">
+          No tags have been used yet.
+        </p>
+      ) : (
+        <div className="flex flex-wrap gap-3">
+          {tagCounts.map(({ tag, count }) => (
+            <TagBadge key={tag} tag={tag} count={count} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,25 @@
+
+import Link from 'next/link';
+import { ShieldX } from 'lucide-react';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+
+interface AccessDeniedProps {
+  message: string;
+}
+
+// Shown by admin pages whose content the signed-in user's role does not allow
+export default function AccessDenied({ message }: AccessDeniedProps) {
+  return (
+    <div className="max-w-xl mx-auto space-y-4">
+      <Alert variant="destructive">
+        <ShieldX className="h-5 w-5" />
+        <AlertTitle>Access Denied</AlertTitle>
+        <AlertDescription>{message}</AlertDescription>
+      </Alert>
+      <Button variant="outline" asChild>
+        <Link href="/admin">Back to Dashboard</Link>
+      </Button>
+    </div>
+  );
+}
@@ -4,19 +4,31 @@
 import type { SiteSettings } from '@/types';
 import Image from 'next/image';
 import Link from 'next/link';
-import React, { useEffect, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import { createInjectableNodes } from '@/lib/html-injection';
 
 interface BannerAdProps {
   settings: SiteSettings | null;
+  nonce?: string; // This request's CSP nonce, given to inline ad scripts
 }
 
-const BannerAd: React.FC<BannerAdProps> = ({ settings }) => {
+const BannerAd: React.FC<BannerAdProps> = ({ settings, nonce }) => {
   const [mounted, setMounted] = useState(false);
+  const customHtmlContainerRef = useRef<HTMLDivElement>(null);
+  const customHtml = settings?.bannerEnabled && settings.bannerType === 'customHtml' ? settings.bannerCustomHtml : undefined;
 
   useEffect(() => {
     setMounted(true);
   }, []);
 
+  // Appended rather than set through dangerouslySetInnerHTML, which never runs the ad network's scripts
+  useEffect(() => {
+    const container = customHtmlContainerRef.current;
+    if (!mounted || !container || !customHtml) return;
+    container.replaceChildren(...createInjectableNodes(customHtml, nonce));
+    return () => container.replaceChildren();
+  }, [mounted, customHtml, nonce]);
+
   if (!settings || !settings.bannerEnabled) {
     return null;
   }
@@ -47,12 +59,13 @@ const BannerAd: React.FC<BannerAdProps> = ({ settings }) => {
             className="rounded shadow-md object-contain"
             data-ai-hint="advertisement banner"
             priority // If this is above the fold, consider priority
+            unoptimized // Ad images can come from any host, which next.config.ts doesn't allow for optimization
           />
         </Link>
       )}
       {settings.bannerType === 'customHtml' && settings.bannerCustomHtml && mounted && (
         <div
-          dangerouslySetInnerHTML={{ __html: settings.bannerCustomHtml }}
+          ref={customHtmlContainerRef}
           className="w-full flex justify-center" // Ensure the div takes space and centers content
         />
       )}
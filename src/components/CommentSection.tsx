@@ -1,17 +1,68 @@
-
 'use client';
 
-import { useState, type FormEvent } from 'react';
+import { useMemo, useState, useTransition, type FormEvent } from 'react';
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { MessageCircle, Send } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, MessageCircle, Reply, Send, ShieldCheck, UserCircle } from "lucide-react";
 import { useToast } from '@/hooks/use-toast';
+import { submitCommentAction } from '@/app/actions';
+import type { Comment } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface CommentSectionProps {
+  postId: string;
+  comments: Comment[]; // Approved comments only
+}
+
+type CommentFieldErrors = Partial<Record<'authorName' | 'authorEmail' | 'content', string[]>>;
+
+interface CommentNode extends Comment {
+  replies: CommentNode[];
+}
+
+// Builds the reply tree from the flat, date-ordered list. Replies whose parent is not
+// visible (e.g. rejected after the reply was approved) are dropped rather than shown out of context.
+function buildCommentTree(comments: Comment[]): CommentNode[] {
+  const nodes = new Map<string, CommentNode>(comments.map(c => [c.id, { ...c, replies: [] }]));
+  const roots: CommentNode[] = [];
+  nodes.forEach(node => {
+    if (!node.parentId) {
+      roots.push(node);
+    } else {
+      nodes.get(node.parentId)?.replies.push(node);
+    }
+  });
+  return roots;
+}
 
-export default function CommentSection() {
+const formatDate = (dateString: string) => {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  });
+};
+
+interface CommentFormProps {
+  postId: string;
+  parentId?: string;
+  onSubmitted?: () => void;
+  onCancel?: () => void;
+}
+
+function CommentForm({ postId, parentId, onSubmitted, onCancel }: CommentFormProps) {
+  const [authorName, setAuthorName] = useState('');
+  const [authorEmail, setAuthorEmail] = useState('');
   const [commentText, setCommentText] = useState('');
+  const [website, setWebsite] = useState(''); // Honeypot, see the hidden input below
+  const [fieldErrors, setFieldErrors] = useState<CommentFieldErrors>({});
+  const [isSubmitting, startTransition] = useTransition();
   const { toast } = useToast();
+  const idPrefix = parentId ? `reply-${parentId}` : 'comment';
 
   const handleSubmitComment = (event: FormEvent<HTMLFormElement>) => {
     event.preventDefault();
@@ -24,46 +75,194 @@ export default function CommentSection() {
       return;
     }
 
-    // Simulate submission
-    console.log('Simulated comment submission:', commentText);
-    toast({
-      title: 'Comment Submitted (Simulation)',
-      description: 'Your comment has been sent for admin approval. This is a simulation and the comment is not actually saved.',
+    const formData = new FormData();
+    formData.append('authorName', authorName);
+    formData.append('authorEmail', authorEmail);
+    formData.append('content', commentText);
+    formData.append('website', website);
+    if (parentId) formData.append('parentId', parentId);
+
+    startTransition(async () => {
+      const result = await submitCommentAction(postId, formData);
+      if (result.success) {
+        toast({
+          title: parentId ? 'Reply Submitted' : 'Comment Submitted',
+          description: result.message,
+        });
+        setCommentText(''); // Clear the textarea, keep name/email for follow-up comments
+        setFieldErrors({});
+        onSubmitted?.();
+      } else {
+        setFieldErrors((result.errors as CommentFieldErrors) || {});
+        toast({
+          variant: 'destructive',
+          title: 'Could Not Submit Comment',
+          description: result.message,
+        });
+      }
     });
-    setCommentText(''); // Clear the textarea
   };
 
+  return (
+    <form onSubmit={handleSubmitComment} className="relative space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-author-name`}>Name</Label>
+          <Input
+            id={`${idPrefix}-author-name`}
+            className="bg-background"
+            value={authorName}
+            onChange={(e) => setAuthorName(e.target.value)}
+            disabled={isSubmitting}
+            required
+            autoComplete="name"
+          />
+          {fieldErrors.authorName && <p className="text-xs text-destructive">{fieldErrors.authorName[0]}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor={`${idPrefix}-author-email`}>Email (optional, not published)</Label>
+          <Input
+            id={`${idPrefix}-author-email`}
+            type="email"
+            className="bg-background"
+            value={authorEmail}
+            onChange={(e) => setAuthorEmail(e.target.value)}
+            disabled={isSubmitting}
+            autoComplete="email"
+          />
+          {fieldErrors.authorEmail && <p className="text-xs text-destructive">{fieldErrors.authorEmail[0]}</p>}
+        </div>
+      </div>
+      {/* Honeypot: hidden from people and assistive tech, but naive bots fill in every field. */}
+      <div className="absolute -left-[10000px] w-px h-px overflow-hidden" aria-hidden="true">
+        <label htmlFor={`${idPrefix}-website`}>Website</label>
+        <input
+          id={`${idPrefix}-website`}
+          name="website"
+          type="text"
+          tabIndex={-1}
+          autoComplete="off"
+          value={website}
+          onChange={(e) => setWebsite(e.target.value)}
+        />
+      </div>
+      <div>
+        <Label htmlFor={`${idPrefix}-textarea`} className="sr-only">{parentId ? 'Your Reply' : 'Your Comment'}</Label>
+        <Textarea
+          id={`${idPrefix}-textarea`}
+          placeholder={parentId ? 'Write your reply here...' : 'Write your comment here...'}
+          className="bg-background"
+          rows={parentId ? 3 : 4}
+          value={commentText}
+          onChange={(e) => setCommentText(e.target.value)}
+          disabled={isSubmitting}
+          aria-label={parentId ? 'Reply input area' : 'Comment input area'}
+        />
+        {fieldErrors.content && <p className="text-xs text-destructive mt-1">{fieldErrors.content[0]}</p>}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button type="button" variant="ghost" onClick={onCancel} disabled={isSubmitting}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" disabled={isSubmitting}>
+          {isSubmitting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+          {isSubmitting ? 'Posting...' : parentId ? 'Post Reply' : 'Post Comment'}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface CommentThreadProps {
+  postId: string;
+  node: CommentNode;
+  replyingTo: string | null;
+  onReply: (commentId: string | null) => void;
+}
+
+function CommentThread({ postId, node, replyingTo, onReply }: CommentThreadProps) {
+  return (
+    <li>
+      <div className={cn("rounded-lg border bg-card p-4 shadow-sm", node.isAdminReply && "border-primary/50")}>
+        <div className="flex items-center flex-wrap text-sm mb-2 gap-y-1">
+          <UserCircle className="w-5 h-5 mr-2 text-muted-foreground" />
+          <span className="font-semibold">{node.authorName}</span>
+          {node.isAdminReply && (
+            <Badge variant="default" className="ml-2 text-[10px] px-1.5 py-0">
+              <ShieldCheck className="w-3 h-3 mr-1" />
+              Author
+            </Badge>
+          )}
+          <span className="mx-2 text-muted-foreground">&middot;</span>
+          <time dateTime={node.date} className="text-muted-foreground">{formatDate(node.date)}</time>
+        </div>
+        <p className="text-sm leading-relaxed whitespace-pre-line break-words">{node.content}</p>
+        <div className="mt-2">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs text-muted-foreground"
+            onClick={() => onReply(replyingTo === node.id ? null : node.id)}
+          >
+            <Reply className="w-3.5 h-3.5 mr-1" />
+            Reply
+          </Button>
+        </div>
+      </div>
+
+      {replyingTo === node.id && (
+        <div className="mt-3 ml-4 sm:ml-8 rounded-lg border bg-muted/50 p-4">
+          <CommentForm
+            postId={postId}
+            parentId={node.id}
+            onSubmitted={() => onReply(null)}
+            onCancel={() => onReply(null)}
+          />
+        </div>
+      )}
+
+      {node.replies.length > 0 && (
+        <ul className="mt-3 ml-4 sm:ml-8 space-y-3 border-l pl-4">
+          {node.replies.map(reply => (
+            <CommentThread key={reply.id} postId={postId} node={reply} replyingTo={replyingTo} onReply={onReply} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+export default function CommentSection({ postId, comments }: CommentSectionProps) {
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const commentTree = useMemo(() => buildCommentTree(comments), [comments]);
+
   return (
     <section className="max-w-3xl mx-auto mt-12 py-8 border-t">
+      {comments.length > 0 && (
+        <div className="mb-10">
+          <h2 className="text-2xl font-headline font-bold text-primary mb-6 flex items-center">
+            <MessageCircle className="w-6 h-6 mr-2" />
+            {comments.length} {comments.length === 1 ? 'Comment' : 'Comments'}
+          </h2>
+          <ul className="space-y-4">
+            {commentTree.map((node) => (
+              <CommentThread key={node.id} postId={postId} node={node} replyingTo={replyingTo} onReply={setReplyingTo} />
+            ))}
+          </ul>
+        </div>
+      )}
+
       <h2 className="text-2xl font-headline font-bold text-primary mb-6 flex items-center">
         <MessageCircle className="w-6 h-6 mr-2" />
         Leave a Comment
       </h2>
       <Card className="bg-muted/50 shadow-sm">
         <CardContent className="pt-6 space-y-4">
-          <form onSubmit={handleSubmitComment} className="space-y-4">
-            <div>
-              <Label htmlFor="comment-textarea" className="sr-only">Your Comment</Label>
-              <Textarea
-                id="comment-textarea"
-                placeholder="Write your comment here..."
-                className="bg-background"
-                rows={4}
-                value={commentText}
-                onChange={(e) => setCommentText(e.target.value)}
-                aria-label="Comment input area"
-              />
-            </div>
-            <div className="flex justify-end">
-              <Button type="submit" variant="primary">
-                <Send className="w-4 h-4 mr-2" />
-                Post Comment
-              </Button>
-            </div>
-          </form>
+          <CommentForm postId={postId} />
           <p className="text-xs text-muted-foreground text-center pt-2">
-            This is a placeholder comment section. Comments are not actually saved.
-            A third-party service (like Disqus, Commento, etc.) or a custom backend would need to be integrated to enable actual commenting. All comments would be subject to admin approval.
+            Comments are reviewed by a moderator before they appear on the site.
           </p>
         </CardContent>
       </Card>
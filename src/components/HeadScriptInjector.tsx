@@ -1,12 +1,14 @@
 'use client';
 import type React from 'react';
 import { useEffect, useRef, useState } from 'react';
+import { createInjectableNodes } from '@/lib/html-injection';
 
 interface HeadScriptInjectorProps {
   htmlString?: string;
+  nonce?: string; // This request's CSP nonce, given to inline scripts
 }
 
-const HeadScriptInjector: React.FC<HeadScriptInjectorProps> = ({ htmlString }) => {
+const HeadScriptInjector: React.FC<HeadScriptInjectorProps> = ({ htmlString, nonce }) => {
   const [mounted, setMounted] = useState(false);
   const injectedNodesRef = useRef<Node[]>([]); // Ref to store the actual injected nodes
 
@@ -25,10 +27,7 @@ const HeadScriptInjector: React.FC<HeadScriptInjectorProps> = ({ htmlString }) =
     injectedNodesRef.current = []; // Clear the ref
 
     if (mounted && htmlString && typeof window !== 'undefined' && document.head) {
-      const tempContainer = document.createElement('div');
-      tempContainer.innerHTML = htmlString;
-      
-      const nodesToAppend: Node[] = Array.from(tempContainer.childNodes); // Get all nodes (scripts, comments, etc.)
+      const nodesToAppend: Node[] = createInjectableNodes(htmlString, nonce); // Get all nodes (scripts, comments, etc.)
       
       // Append nodes to document.head and store references for cleanup
       nodesToAppend.forEach(node => {
@@ -49,7 +48,7 @@ const HeadScriptInjector: React.FC<HeadScriptInjectorProps> = ({ htmlString }) =
       });
       injectedNodesRef.current = [];
     };
-  }, [mounted, htmlString]); // Re-run if htmlString changes or mounted status changes
+  }, [mounted, htmlString, nonce]); // Re-run if htmlString changes or mounted status changes
 
   return null; // This component renders nothing itself into the React tree
 };
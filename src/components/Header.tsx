@@ -14,9 +14,10 @@ import Image from 'next/image'; // Import next/image
 interface HeaderProps {
   siteSettings: SiteSettings | null;
   isAdminLoggedIn?: boolean;
+  nonce?: string; // CSP nonce for the banner's scripts
 }
 
-export default function Header({ siteSettings, isAdminLoggedIn }: HeaderProps) {
+export default function Header({ siteSettings, isAdminLoggedIn, nonce }: HeaderProps) {
   const [isSearchOpen, setIsSearchOpen] = useState(false);
   const searchWrapperRef = useRef<HTMLDivElement>(null);
 
@@ -48,7 +49,7 @@ export default function Header({ siteSettings, isAdminLoggedIn }: HeaderProps) {
     <>
       {/* Main Header with Logo */}
       <header className="bg-card border-b border-border">
-        <BannerAd settings={siteSettings} />
+        <BannerAd settings={siteSettings} nonce={nonce} />
         <div className="container mx-auto px-4 py-4 flex flex-col sm:flex-row justify-between items-center">
           <Link href="/" className="flex items-center gap-4 text-3xl font-headline font-bold text-primary hover:text-primary/90 transition-colors">
             {hasValidLogo ? (
@@ -77,7 +78,9 @@ export default function Header({ siteSettings, isAdminLoggedIn }: HeaderProps) {
         <div className="container mx-auto px-4 py-3 flex items-center">
           {/* Left side (future nav links can go here) */}
           <div className="flex items-center space-x-6">
-            {/* Future nav links can go here */}
+            <Link href="/tags" className="text-sm font-medium hover:text-primary transition-colors">
+              Tags
+            </Link>
           </div>
 
           {/* Spacer to push subsequent items to the right */}
@@ -9,12 +9,14 @@ interface PaginationControlsClientProps {
   currentPage: number;
   totalPages: number;
   currentSearchTerm?: string; // To preserve search term during pagination
+  basePath?: string; // Listing route to paginate, e.g. '/tags/news'; defaults to the home page
 }
 
 export default function PaginationControlsClient({
   currentPage,
   totalPages,
   currentSearchTerm,
+  basePath = '/',
 }: PaginationControlsClientProps) {
   const router = useRouter();
   const searchParams = useSearchParams(); // To get other existing params
@@ -31,7 +33,7 @@ export default function PaginationControlsClient({
     } else {
       newParams.delete('search'); // Remove search if it's empty/undefined
     }
-    router.push(`/?${newParams.toString()}`);
+    router.push(`${basePath}?${newParams.toString()}`);
   };
 
   const handlePrevious = () => {
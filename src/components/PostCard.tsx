@@ -1,16 +1,18 @@
 
 import Link from 'next/link';
 import Image from 'next/image';
-import type { Post } from '@/types';
+import type { PostSummary } from '@/types';
+import type { SearchSnippetSegment } from '@/lib/post-search';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 // TagBadge is no longer used directly in the card for a minimal look
 import { CalendarDays, BookOpen } from 'lucide-react'; // Changed Eye to BookOpen
 
 interface PostCardProps {
-  post: Post;
+  post: PostSummary;
+  snippet?: SearchSnippetSegment[]; // Set on search results; matched words are highlighted
 }
 
-export default function PostCard({ post }: PostCardProps) {
+export default function PostCard({ post, snippet }: PostCardProps) {
   const formattedDate = new Date(post.date).toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
@@ -52,7 +54,18 @@ export default function PostCard({ post }: PostCardProps) {
         </div>
       </CardHeader>
       <CardContent className="px-3 sm:px-4 pb-3 sm:pb-4 pt-0 flex-grow">
-        {/* Minimal design, so no excerpt by default. */}
+        {/* Minimal design, so no excerpt by default. Search results show where the query matched. */}
+        {snippet && snippet.length > 0 && (
+          <p className="text-sm text-muted-foreground line-clamp-4 leading-relaxed">
+            {snippet.map((segment, index) =>
+              segment.highlight ? (
+                <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{segment.text}</mark>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              )
+            )}
+          </p>
+        )}
       </CardContent>
     </Card>
   );
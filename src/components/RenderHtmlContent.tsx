@@ -1,12 +1,14 @@
 'use client';
 import type React from 'react';
 import { useEffect, useRef, useState } from 'react';
+import { createInjectableNodes } from '@/lib/html-injection';
 
 interface RenderHtmlContentProps {
   htmlString: string;
+  nonce?: string; // This request's CSP nonce, given to inline scripts
 }
 
-const RenderHtmlContent: React.FC<RenderHtmlContentProps> = ({ htmlString }) => {
+const RenderHtmlContent: React.FC<RenderHtmlContentProps> = ({ htmlString, nonce }) => {
   const [mounted, setMounted] = useState(false);
   const injectedNodesRef = useRef<Node[]>([]);
 
@@ -24,10 +26,7 @@ const RenderHtmlContent: React.FC<RenderHtmlContentProps> = ({ htmlString }) =>
     injectedNodesRef.current = []; // Clear the ref
 
     if (mounted && htmlString && typeof window !== 'undefined' && document.body) {
-      const tempContainer = document.createElement('div');
-      tempContainer.innerHTML = htmlString;
-      
-      const nodesToAppend: Node[] = Array.from(tempContainer.childNodes);
+      const nodesToAppend: Node[] = createInjectableNodes(htmlString, nonce);
       
       nodesToAppend.forEach(node => {
         document.body.appendChild(node);
@@ -44,7 +43,7 @@ const RenderHtmlContent: React.FC<RenderHtmlContentProps> = ({ htmlString }) =>
       });
       injectedNodesRef.current = [];
     };
-  }, [mounted, htmlString]);
+  }, [mounted, htmlString, nonce]);
 
   return null;
 };
@@ -1,15 +1,21 @@
+import Link from 'next/link';
 import { Badge } from '@/components/ui/badge';
 import { TagIcon } from 'lucide-react'; // Using TagIcon, not TagsIcon
+import { getTagHref } from '@/lib/tags';
 
 interface TagBadgeProps {
   tag: string;
+  count?: number; // Shown after the tag name, e.g. on the tag index
 }
 
-export default function TagBadge({ tag }: TagBadgeProps) {
+export default function TagBadge({ tag, count }: TagBadgeProps) {
   return (
-    <Badge variant="secondary" className="text-xs hover:bg-secondary/80 transition-colors cursor-pointer">
-      <TagIcon className="w-3 h-3 mr-1" />
-      {tag}
-    </Badge>
+    <Link href={getTagHref(tag)} aria-label={`View posts tagged ${tag}`}>
+      <Badge variant="secondary" className="text-xs hover:bg-secondary/80 transition-colors cursor-pointer">
+        <TagIcon className="w-3 h-3 mr-1" />
+        {tag}
+        {count !== undefined && <span className="ml-1.5 text-muted-foreground">({count})</span>}
+      </Badge>
+    </Link>
   );
 }
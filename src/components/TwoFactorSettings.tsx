@@ -0,0 +1,245 @@
+
+'use client';
+
+import { useState, useTransition, type FormEvent } from 'react';
+import { useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Loader2, ShieldCheck, ShieldOff, KeyRound, Copy } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  startTwoFactorEnrollmentAction,
+  confirmTwoFactorEnrollmentAction,
+  regenerateRecoveryCodesAction,
+  disableTwoFactorAction,
+} from '@/app/actions';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+interface TwoFactorSettingsProps {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+type PasswordPrompt = 'disable' | 'regenerate' | null;
+
+// Enrollment and management of TOTP two-factor sign-in for the signed-in account
+export default function TwoFactorSettings({ enabled, recoveryCodesRemaining }: TwoFactorSettingsProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [isProcessing, startTransition] = useTransition();
+  const [enrollment, setEnrollment] = useState<{ secret: string; qrCodeDataUrl: string } | null>(null);
+  const [code, setCode] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [passwordPrompt, setPasswordPrompt] = useState<PasswordPrompt>(null);
+  const [password, setPassword] = useState('');
+
+  const handleStartEnrollment = () => {
+    startTransition(async () => {
+      const result = await startTwoFactorEnrollmentAction();
+      if (result.success && result.secret && result.qrCodeDataUrl) {
+        setEnrollment({ secret: result.secret, qrCodeDataUrl: result.qrCodeDataUrl });
+        setCode('');
+      } else {
+        toast({ variant: 'destructive', title: 'Could Not Start Setup', description: result.message });
+      }
+    });
+  };
+
+  // Not a <form> submit: this component is also rendered inside the site settings form
+  const handleConfirmEnrollment = () => {
+    if (code.length !== 6) return;
+    startTransition(async () => {
+      const result = await confirmTwoFactorEnrollmentAction(code);
+      if (result.success && result.recoveryCodes) {
+        setEnrollment(null);
+        setRecoveryCodes(result.recoveryCodes);
+        toast({ title: 'Two-Factor Enabled', description: result.message });
+        router.refresh();
+      } else {
+        toast({ variant: 'destructive', title: 'Invalid Code', description: result.message });
+      }
+    });
+  };
+
+  const handlePasswordConfirm = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    event.stopPropagation(); // React submit events bubble out of the dialog portal to any surrounding form
+    const prompt = passwordPrompt;
+    startTransition(async () => {
+      if (prompt === 'disable') {
+        const result = await disableTwoFactorAction(password);
+        if (result.success) {
+          setRecoveryCodes(null);
+          setPasswordPrompt(null);
+          toast({ title: 'Two-Factor Disabled', description: result.message });
+          router.refresh();
+        } else {
+          toast({ variant: 'destructive', title: 'Could Not Disable', description: result.message });
+        }
+      } else if (prompt === 'regenerate') {
+        const result = await regenerateRecoveryCodesAction(password);
+        if (result.success && result.recoveryCodes) {
+          setRecoveryCodes(result.recoveryCodes);
+          setPasswordPrompt(null);
+          toast({ title: 'Recovery Codes Replaced', description: result.message });
+          router.refresh();
+        } else {
+          toast({ variant: 'destructive', title: 'Could Not Replace Codes', description: result.message });
+        }
+      }
+      setPassword('');
+    });
+  };
+
+  const handleCopyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    try {
+      await navigator.clipboard.writeText(recoveryCodes.join('\n'));
+      toast({ title: 'Copied', description: 'Recovery codes copied to the clipboard.' });
+    } catch {
+      toast({ variant: 'destructive', title: 'Copy Failed', description: 'Select the codes and copy them manually.' });
+    }
+  };
+
+  return (
+    <div className="space-y-4 p-4 border rounded-md">
+      <div>
+        <h4 className="font-medium flex items-center gap-2">
+          {enabled ? <ShieldCheck className="w-5 h-5 text-primary" /> : <ShieldOff className="w-5 h-5 text-muted-foreground" />}
+          Two-Factor Authentication
+        </h4>
+        <p className="text-sm text-muted-foreground mt-1">
+          {enabled
+            ? `Signing in to your account asks for a code from your authenticator app. ${recoveryCodesRemaining} recovery ${recoveryCodesRemaining === 1 ? 'code' : 'codes'} left.`
+            : 'Protect your account with a code from an authenticator app, in addition to your password.'}
+        </p>
+      </div>
+
+      {recoveryCodes && (
+        <Alert>
+          <KeyRound className="h-4 w-4" />
+          <AlertTitle>Save your recovery codes</AlertTitle>
+          <AlertDescription className="space-y-3">
+            <p>Each code signs you in once if you lose your authenticator. They won&apos;t be shown again.</p>
+            <div className="grid grid-cols-2 gap-1 font-mono text-sm bg-muted p-3 rounded-md">
+              {recoveryCodes.map(recoveryCode => <span key={recoveryCode}>{recoveryCode}</span>)}
+            </div>
+            <div className="flex gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={handleCopyRecoveryCodes}>
+                <Copy className="w-4 h-4 mr-2" /> Copy
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                I&apos;ve saved them
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {!enabled && !enrollment && (
+        <Button type="button" onClick={handleStartEnrollment} disabled={isProcessing}>
+          {isProcessing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShieldCheck className="w-4 h-4 mr-2" />}
+          Set Up Two-Factor Authentication
+        </Button>
+      )}
+
+      {!enabled && enrollment && (
+        <div className="space-y-4">
+          <div className="flex flex-col sm:flex-row gap-4 items-start">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            <img src={enrollment.qrCodeDataUrl} alt="QR code for your authenticator app" width={180} height={180} className="border rounded-md bg-white" />
+            <div className="space-y-2 text-sm">
+              <p>1. Scan the QR code with Google Authenticator, 1Password, Authy or a similar app.</p>
+              <p className="text-muted-foreground">
+                Can&apos;t scan it? Enter this key instead:
+                <code className="block mt-1 font-mono text-xs break-all bg-muted p-2 rounded">{enrollment.secret}</code>
+              </p>
+              <p>2. Enter the 6-digit code the app shows.</p>
+            </div>
+          </div>
+          <div className="flex gap-2 max-w-sm">
+            <Label htmlFor="twoFactorEnrollCode" className="sr-only">Authentication code</Label>
+            <Input
+              id="twoFactorEnrollCode"
+              inputMode="numeric"
+              autoComplete="one-time-code"
+              placeholder="123456"
+              maxLength={6}
+              value={code}
+              onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleConfirmEnrollment();
+                }
+              }}
+              disabled={isProcessing}
+            />
+            <Button type="button" onClick={handleConfirmEnrollment} disabled={isProcessing || code.length !== 6}>
+              {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Verify
+            </Button>
+          </div>
+          <Button type="button" variant="ghost" size="sm" onClick={() => setEnrollment(null)} disabled={isProcessing}>
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {enabled && (
+        <div className="flex flex-wrap gap-2">
+          <Button type="button" variant="outline" onClick={() => setPasswordPrompt('regenerate')} disabled={isProcessing}>
+            <KeyRound className="w-4 h-4 mr-2" /> New Recovery Codes
+          </Button>
+          <Button type="button" variant="destructive" onClick={() => setPasswordPrompt('disable')} disabled={isProcessing}>
+            <ShieldOff className="w-4 h-4 mr-2" /> Turn Off
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!passwordPrompt} onOpenChange={(open) => { if (!open && !isProcessing) { setPasswordPrompt(null); setPassword(''); } }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{passwordPrompt === 'disable' ? 'Turn off two-factor authentication?' : 'Replace recovery codes?'}</DialogTitle>
+            <DialogDescription>
+              {passwordPrompt === 'disable'
+                ? 'Your account will be protected by your password only. Enter your password to confirm.'
+                : 'Your current recovery codes will stop working. Enter your password to confirm.'}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handlePasswordConfirm} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="twoFactorPassword">Password</Label>
+              <Input
+                id="twoFactorPassword"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                disabled={isProcessing}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => { setPasswordPrompt(null); setPassword(''); }} disabled={isProcessing}>
+                Cancel
+              </Button>
+              <Button type="submit" variant={passwordPrompt === 'disable' ? 'destructive' : 'default'} disabled={isProcessing || !password}>
+                {isProcessing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Confirm
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+
+import { supabase } from './supabase-client'; // Public Supabase client
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from './supabase-admin';
+
+/**
+ * Edge-compatible check of whether admin access has been set up, for the middleware auth gate.
+ * Reads the same sources as user-service and settings-service (the admin_users table, plus the
+ * legacy single-admin username in `site_settings` that is migrated on first login), without
+ * their Node-only dependencies and without touching any password hash.
+ */
+
+export interface AdminAuthConfig {
+  isConfigured: boolean; // At least one enabled admin account exists (or is waiting to be migrated)
+}
+
+// Each middleware instance re-reads at most this often, so setup changes take effect within seconds
+const CACHE_TTL_MS = 15 * 1000;
+
+let cachedConfig: { value: AdminAuthConfig; expiresAt: number } | null = null;
+
+// Returns null when the configuration can't be read. Callers should then fail closed and treat
+// admin access as configured, so a database outage never opens up the first-admin setup page.
+export async function getAdminAuthConfig(): Promise<AdminAuthConfig | null> {
+  if (cachedConfig && cachedConfig.expiresAt > Date.now()) {
+    return cachedConfig.value;
+  }
+
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in getAdminAuthConfig:', e.message);
+    return null;
+  }
+
+  const [settingsResult, adminCountResult] = await Promise.all([
+    supabase
+      .from('site_settings')
+      .select('adminUsername:settings->>adminUsername')
+      .eq('id', 1)
+      .single(),
+    adminSupabase
+      .from('admin_users')
+      .select('id', { count: 'exact', head: true })
+      .eq('role', 'admin')
+      .eq('disabled', false),
+  ]);
+
+  // PGRST116 (no settings row yet) is also treated as unknown: the row is seeded on the first getSettings() call
+  if (settingsResult.error || adminCountResult.error) {
+    if (settingsResult.error?.code !== 'PGRST116') {
+      console.error('Error fetching admin configuration for middleware:', JSON.stringify(settingsResult.error || adminCountResult.error, null, 2));
+    }
+    return null;
+  }
+
+  const legacyUsername = String((settingsResult.data as any)?.adminUsername ?? '').trim();
+  const value: AdminAuthConfig = { isConfigured: legacyUsername !== '' || (adminCountResult.count ?? 0) > 0 };
+  cachedConfig = { value, expiresAt: Date.now() + CACHE_TTL_MS };
+  return value;
+}
@@ -0,0 +1,148 @@
+
+import type { AuditAction, AuditChange, AuditEntry, AuditTargetType } from '@/types';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseErrorFormatter, getSupabaseAdminClient } from './supabase-admin';
+
+// Expected table: public.audit_log (id uuid primary key default gen_random_uuid(), actor_id uuid null,
+// actor_name text not null, action text not null, target_type text not null, target_id text null,
+// target_label text null, summary text null, changes jsonb not null default '[]', ip_address text null,
+// created_at timestamptz default now())
+// Suggested indexes: (created_at desc), (actor_name, created_at desc), (action, created_at desc).
+// Append-only and admin-only: no anon RLS policy, and nothing in the app updates or deletes rows.
+
+const MAX_VALUE_LENGTH = 300;
+const MAX_FULL_TEXT_LENGTH = 5000; // For fields worth keeping whole, like injected scripts
+
+const formatSupabaseError = createSupabaseErrorFormatter({ table: 'audit_log' });
+
+const mapDbRowToAuditEntry = (row: any): AuditEntry => {
+  return {
+    id: String(row.id),
+    actorId: row.actor_id || undefined,
+    actorName: row.actor_name,
+    action: row.action,
+    targetType: row.target_type,
+    targetId: row.target_id || undefined,
+    targetLabel: row.target_label || undefined,
+    summary: row.summary || undefined,
+    changes: Array.isArray(row.changes) ? row.changes : [],
+    ipAddress: row.ip_address || undefined,
+    createdAt: row.created_at,
+  };
+};
+
+function formatAuditValue(value: unknown, maxLength: number): string | null {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value === 'boolean') return value ? 'on' : 'off';
+  const text = Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (text.length <= maxLength) return text;
+  return `${text.slice(0, maxLength)}… (${text.length} characters)`;
+}
+
+/**
+ * The fields that differ between two versions of a record, as before/after display strings.
+ * Long values are shortened; fields listed in `options.lengthOnly` (such as post content) only
+ * record their length, and those in `options.fullText` keep up to 5000 characters.
+ */
+export function diffForAudit<T extends object>(
+  before: Partial<T> | null,
+  after: Partial<T> | null,
+  fields: (keyof T & string)[],
+  options: { lengthOnly?: (keyof T & string)[]; fullText?: (keyof T & string)[] } = {}
+): AuditChange[] {
+  const changes: AuditChange[] = [];
+  for (const field of fields) {
+    const beforeValue = before?.[field];
+    const afterValue = after?.[field];
+    const maxLength = options.fullText?.includes(field) ? MAX_FULL_TEXT_LENGTH : MAX_VALUE_LENGTH;
+    let beforeText = formatAuditValue(beforeValue, Infinity);
+    let afterText = formatAuditValue(afterValue, Infinity);
+    if (beforeText === afterText) continue;
+
+    if (options.lengthOnly?.includes(field)) {
+      beforeText = beforeText === null ? null : `${beforeText.length} characters`;
+      afterText = afterText === null ? null : `${afterText.length} characters`;
+    } else {
+      beforeText = formatAuditValue(beforeValue, maxLength);
+      afterText = formatAuditValue(afterValue, maxLength);
+    }
+    changes.push({ field, before: beforeText, after: afterText });
+  }
+  return changes;
+}
+
+export interface NewAuditEntry {
+  actorId?: string;
+  actorName: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string;
+  targetLabel?: string;
+  summary?: string;
+  changes?: AuditChange[];
+  ipAddress?: string;
+}
+
+export const recordAuditEntry = async (entry: NewAuditEntry): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { error } = await adminSupabase
+    .from('audit_log')
+    .insert({
+      actor_id: entry.actorId || null,
+      actor_name: entry.actorName.slice(0, 100),
+      action: entry.action,
+      target_type: entry.targetType,
+      target_id: entry.targetId || null,
+      target_label: entry.targetLabel?.slice(0, 255) || null,
+      summary: entry.summary?.slice(0, 500) || null,
+      changes: entry.changes || [],
+      ip_address: entry.ipAddress || null,
+      created_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    console.error('Error recording audit entry (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not record audit entry. ${formatSupabaseError(error)}`);
+  }
+};
+
+export interface AuditQueryOptions {
+  actor?: string; // Partial, case-insensitive match on the actor's username
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  since?: string; // ISO string, inclusive
+  until?: string; // ISO string, exclusive
+  limit?: number;
+  offset?: number;
+}
+
+export const queryAuditEntries = async (options: AuditQueryOptions = {}): Promise<{ entries: AuditEntry[]; total: number }> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in queryAuditEntries:', e.message);
+    return { entries: [], total: 0 };
+  }
+
+  const limit = options.limit ?? 50;
+  const offset = options.offset ?? 0;
+  let query = adminSupabase.from('audit_log').select('*', { count: 'exact' });
+  if (options.actor) query = query.ilike('actor_name', `%${options.actor.replace(/[%_]/g, '\\$&')}%`);
+  if (options.action) query = query.eq('action', options.action);
+  if (options.targetType) query = query.eq('target_type', options.targetType);
+  if (options.targetId) query = query.eq('target_id', options.targetId);
+  if (options.since) query = query.gte('created_at', options.since);
+  if (options.until) query = query.lt('created_at', options.until);
+
+  const { data, count, error } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error('Error fetching audit entries:', JSON.stringify(error, null, 2));
+    return { entries: [], total: 0 };
+  }
+  return { entries: data.map(mapDbRowToAuditEntry), total: count ?? 0 };
+};
@@ -0,0 +1,25 @@
+
+import { cookies } from 'next/headers';
+import type { AdminSession, User } from '@/types';
+import { SESSION_COOKIE_NAME } from './session-token';
+import { validateSession } from './session-service';
+import { getUserByUsername } from './user-service';
+
+// The active session behind the current request, if any
+export async function getCurrentSession(): Promise<AdminSession | null> {
+  const cookieStore = await cookies();
+  return validateSession(cookieStore.get(SESSION_COOKIE_NAME)?.value);
+}
+
+// The signed-in user for the current request. Disabled or deleted accounts count as signed out.
+export async function getCurrentUser(): Promise<User | null> {
+  const session = await getCurrentSession();
+  if (!session) return null;
+  try {
+    const user = await getUserByUsername(session.username);
+    return user && !user.disabled ? user : null;
+  } catch (error: any) {
+    console.error('Failed to load the signed-in user:', error.message);
+    return null;
+  }
+}
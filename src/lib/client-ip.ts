@@ -0,0 +1,40 @@
+/**
+ * The client's IP address, for the login and comment rate limits and the audit log. Only headers
+ * written by infrastructure in front of the app are read, never values the client controls:
+ * - on Vercel, `x-vercel-forwarded-for`, which the platform sets (and overwrites if sent);
+ * - otherwise the right-most `X-Forwarded-For` entry, the one appended by the proxy directly in
+ *   front of the app. Everything to its left arrived with the request and may be made up. Set
+ *   TRUSTED_PROXY_COUNT when more than one proxy appends to the header (e.g. a CDN and a load balancer);
+ * - `X-Real-IP` only when TRUST_X_REAL_IP is set, for proxies such as nginx that set it from the
+ *   connection rather than passing on the client's value.
+ */
+
+interface HeaderReader {
+  get(name: string): string | null;
+}
+
+function getTrustedProxyCount(): number {
+  const parsed = parseInt(process.env.TRUSTED_PROXY_COUNT || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : 1;
+}
+
+export function getClientIpFromHeaders(headersList: HeaderReader): string | undefined {
+  if (process.env.VERCEL) {
+    const platformIp = headersList.get('x-vercel-forwarded-for')?.split(',')[0].trim();
+    if (platformIp) return platformIp;
+  }
+
+  const hops = (headersList.get('x-forwarded-for') || '')
+    .split(',')
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  if (hops.length > 0) {
+    // With N trusted proxies, the N-th entry from the right is the address the outermost one saw
+    return hops[Math.max(hops.length - getTrustedProxyCount(), 0)];
+  }
+
+  if (process.env.TRUST_X_REAL_IP === 'true') {
+    return headersList.get('x-real-ip')?.trim() || undefined;
+  }
+  return undefined;
+}
@@ -0,0 +1,136 @@
+
+import type { Comment, SiteSettings } from '@/types';
+import { moderateComment } from '@/ai/flows/moderate-comment';
+import { createSlidingWindowLimiter } from './rate-limit';
+
+export const DEFAULT_COMMENT_MAX_LINKS = 2;
+export const DEFAULT_COMMENT_RATE_LIMIT_PER_HOUR = 5;
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+const AI_REJECT_CONFIDENCE = 0.85; // Below this, AI-flagged comments are held for review instead of rejected
+
+export interface CommentFilterInput {
+  authorName: string;
+  authorEmail?: string;
+  content: string;
+  postTitle?: string;
+  ipAddress?: string;
+  honeypotValue?: string; // Value of the hidden field; humans never fill it in
+}
+
+export interface CommentFilterVerdict {
+  status: Exclude<Comment['status'], 'approved'>; // Filters can only hold or reject, never auto-approve
+  flaggedBy?: string;
+  flagReason?: string;
+}
+
+type CommentFilterResult = { action: 'reject' | 'hold'; reason: string } | null;
+
+interface CommentFilter {
+  name: string;
+  run: (input: CommentFilterInput, settings: SiteSettings) => CommentFilterResult | Promise<CommentFilterResult>;
+}
+
+// Submissions per IP (see client-ip for where the address comes from)
+const commentRateLimiter = createSlidingWindowLimiter(RATE_LIMIT_WINDOW_MS);
+
+export function parseBannedWords(rawList: string | undefined): string[] {
+  if (!rawList) return [];
+  return rawList
+    .split(/[\n,]/)
+    .map(word => word.trim().toLowerCase())
+    .filter(word => word.length > 0);
+}
+
+function countLinks(text: string): number {
+  const matches = text.match(/(https?:\/\/|www\.)[^\s<>"']+|<a\s/gi);
+  return matches ? matches.length : 0;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Order matters: cheap, high-certainty checks run first and short-circuit the rest,
+// so the AI flow is only called for comments that passed every local filter.
+const COMMENT_FILTERS: CommentFilter[] = [
+  {
+    name: 'honeypot',
+    run: (input) => input.honeypotValue && input.honeypotValue.trim() !== ''
+      ? { action: 'reject', reason: 'Hidden honeypot field was filled in.' }
+      : null,
+  },
+  {
+    name: 'rate-limit',
+    run: (input, settings) => {
+      if (!input.ipAddress) return null;
+      const limit = settings.commentRateLimitPerHour ?? DEFAULT_COMMENT_RATE_LIMIT_PER_HOUR;
+      if (limit <= 0) return null; // 0 disables the limit
+      const count = commentRateLimiter.recordAndCount(input.ipAddress);
+      return count > limit
+        ? { action: 'reject', reason: `${count} comments from this IP in the last hour (limit ${limit}).` }
+        : null;
+    },
+  },
+  {
+    name: 'banned-words',
+    run: (input, settings) => {
+      const bannedWords = parseBannedWords(settings.commentBannedWords);
+      if (bannedWords.length === 0) return null;
+      const haystack = `${input.authorName}\n${input.authorEmail || ''}\n${input.content}`.toLowerCase();
+      const hit = bannedWords.find(word => new RegExp(`(^|\\W)${escapeRegExp(word)}($|\\W)`, 'i').test(haystack));
+      return hit ? { action: 'reject', reason: `Contains banned word "${hit}".` } : null;
+    },
+  },
+  {
+    name: 'link-count',
+    run: (input, settings) => {
+      const maxLinks = settings.commentMaxLinks ?? DEFAULT_COMMENT_MAX_LINKS;
+      const linkCount = countLinks(input.content);
+      return linkCount > maxLinks
+        ? { action: 'hold', reason: `Contains ${linkCount} links (limit ${maxLinks}).` }
+        : null;
+    },
+  },
+  {
+    name: 'ai-moderation',
+    run: async (input, settings) => {
+      if (!settings.commentAiModerationEnabled) return null;
+      const verdict = await moderateComment({
+        authorName: input.authorName,
+        content: input.content,
+        postTitle: input.postTitle,
+      });
+      if (!verdict.isSpam && !verdict.isAbusive) return null;
+      const label = verdict.isSpam ? 'spam' : 'abusive';
+      return {
+        action: verdict.confidence >= AI_REJECT_CONFIDENCE ? 'reject' : 'hold',
+        reason: `AI classified as ${label} (${Math.round(verdict.confidence * 100)}%): ${verdict.reason}`,
+      };
+    },
+  },
+];
+
+/**
+ * Runs the filters in order. The first filter that rejects wins; a "hold" is remembered
+ * but later filters still run, since one of them may escalate it to a rejection.
+ */
+export async function runCommentFilters(input: CommentFilterInput, settings: SiteSettings): Promise<CommentFilterVerdict> {
+  let held: CommentFilterVerdict | null = null;
+
+  for (const filter of COMMENT_FILTERS) {
+    let result: CommentFilterResult;
+    try {
+      result = await filter.run(input, settings);
+    } catch (error: any) {
+      console.error(`[CommentFilters] Filter '${filter.name}' failed and was skipped:`, error.message || error);
+      continue;
+    }
+    if (!result) continue;
+    if (result.action === 'reject') {
+      return { status: 'rejected', flaggedBy: filter.name, flagReason: result.reason };
+    }
+    held = held ?? { status: 'pending', flaggedBy: filter.name, flagReason: result.reason };
+  }
+
+  return held ?? { status: 'pending' };
+}
@@ -0,0 +1,194 @@
+
+import type { Comment } from '@/types';
+import { supabase } from './supabase-client'; // Public Supabase client
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseErrorFormatter, getSupabaseAdminClient } from './supabase-admin';
+
+// Expected table: public.comments (id uuid default gen_random_uuid(), post_id uuid references posts(id) on delete cascade,
+// author_name text, author_email text null, content text, date timestamptz, status text check (status in ('pending','approved','rejected')),
+// parent_id uuid null references comments(id) on delete cascade, depth int default 0, is_admin_reply boolean default false,
+// flagged_by text null, flag_reason text null)
+
+export const MAX_COMMENT_DEPTH = 3; // Replies nested deeper than this are attached to the deepest allowed level
+
+const formatSupabaseError = createSupabaseErrorFormatter({
+  table: 'comments',
+  foreignKeyViolation: 'The post this comment belongs to no longer exists.',
+});
+
+// Helper function to map Supabase row to Comment, ensuring ids are strings
+const mapDbRowToComment = (row: any): Comment => {
+  return {
+    id: String(row.id),
+    postId: String(row.post_id),
+    authorName: row.author_name,
+    authorEmail: row.author_email || undefined,
+    content: row.content,
+    date: row.date,
+    status: row.status,
+    parentId: row.parent_id ? String(row.parent_id) : undefined,
+    depth: typeof row.depth === 'number' ? row.depth : 0,
+    isAdminReply: !!row.is_admin_reply,
+    flaggedBy: row.flagged_by || undefined,
+    flagReason: row.flag_reason || undefined,
+  };
+};
+
+/**
+ * Approved comments for a single post, oldest first. Uses the public client,
+ * so the 'comments' table needs an RLS policy allowing anon SELECT on approved rows.
+ */
+export const getApprovedCommentsByPostId = async (postId: string): Promise<Comment[]> => {
+  const { data, error } = await supabase
+    .from('comments')
+    .select('id, post_id, author_name, content, date, status, parent_id, depth, is_admin_reply')
+    .eq('post_id', postId)
+    .eq('status', 'approved')
+    .order('date', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching approved comments:', JSON.stringify(error, null, 2));
+    return [];
+  }
+  return data.map(mapDbRowToComment);
+};
+
+/**
+ * Every comment regardless of status, newest first, decorated with the title and slug
+ * of the post it belongs to. Admin-only: uses the service role client because
+ * pending/rejected rows and author emails are not publicly readable.
+ */
+export const getAllComments = async (): Promise<Comment[]> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in getAllComments:', e.message);
+    return [];
+  }
+
+  const { data, error } = await adminSupabase
+    .from('comments')
+    .select('*')
+    .order('date', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching comments:', JSON.stringify(error, null, 2));
+    return [];
+  }
+
+  const comments = data.map(mapDbRowToComment);
+  const postIds = Array.from(new Set(comments.map(c => c.postId)));
+  if (postIds.length === 0) return comments;
+
+  const { data: postRows, error: postsError } = await adminSupabase
+    .from('posts')
+    .select('id, slug, title')
+    .in('id', postIds);
+
+  if (postsError) {
+    console.warn('Could not load post titles for comments:', JSON.stringify(postsError, null, 2));
+    return comments;
+  }
+
+  const postMap = new Map((postRows || []).map((p: any) => [String(p.id), p]));
+  return comments.map(comment => {
+    const post = postMap.get(comment.postId);
+    return post ? { ...comment, postSlug: post.slug, postTitle: post.title } : comment;
+  });
+};
+
+export const getCommentById = async (commentId: string): Promise<Comment | undefined> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { data, error } = await adminSupabase
+    .from('comments')
+    .select('*')
+    .eq('id', commentId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return undefined; // Row not found
+    console.error('Error fetching comment by ID:', JSON.stringify(error, null, 2));
+    return undefined;
+  }
+  return data ? mapDbRowToComment(data) : undefined;
+};
+
+/**
+ * Where a reply to `parent` should live in the thread. Replies to a comment that is
+ * already at MAX_COMMENT_DEPTH become siblings of it instead of nesting further.
+ */
+export function getReplyPlacement(parent: Comment): { parentId: string; depth: number } {
+  if (parent.depth >= MAX_COMMENT_DEPTH && parent.parentId) {
+    return { parentId: parent.parentId, depth: parent.depth };
+  }
+  return { parentId: parent.id, depth: parent.depth + 1 };
+}
+
+export const addComment = async (newCommentData: Omit<Comment, 'id' | 'date' | 'postSlug' | 'postTitle'>): Promise<Comment> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in addComment:', e.message);
+    throw new Error(`Configuration error preventing comment submission: ${e.message}`);
+  }
+
+  const commentToInsert = {
+    post_id: newCommentData.postId,
+    author_name: newCommentData.authorName,
+    author_email: newCommentData.authorEmail || null,
+    content: newCommentData.content,
+    status: newCommentData.status,
+    parent_id: newCommentData.parentId || null,
+    depth: newCommentData.depth,
+    is_admin_reply: !!newCommentData.isAdminReply,
+    flagged_by: newCommentData.flaggedBy || null,
+    flag_reason: newCommentData.flagReason || null,
+    date: new Date().toISOString(),
+  };
+
+  const { data, error } = await adminSupabase
+    .from('comments')
+    .insert(commentToInsert)
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding comment (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not save comment. ${formatSupabaseError(error)}`);
+  }
+  return mapDbRowToComment(data);
+};
+
+export const updateCommentStatus = async (commentId: string, status: Comment['status']): Promise<Comment | undefined> => {
+  const adminSupabase = getSupabaseAdminClient();
+
+  const { data, error } = await adminSupabase
+    .from('comments')
+    .update({ status })
+    .eq('id', commentId)
+    .select()
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return undefined;
+    console.error('Error updating comment status (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not update comment. ${formatSupabaseError(error)}`);
+  }
+  return data ? mapDbRowToComment(data) : undefined;
+};
+
+export const deleteCommentById = async (commentId: string): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+
+  const { error } = await adminSupabase
+    .from('comments')
+    .delete()
+    .eq('id', commentId);
+
+  if (error) {
+    console.error('Error deleting comment (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not delete comment. ${formatSupabaseError(error)}`);
+  }
+};
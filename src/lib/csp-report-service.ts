@@ -0,0 +1,120 @@
+import type { CspViolationReport } from '@/types';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseErrorFormatter, getSupabaseAdminClient } from './supabase-admin';
+
+// Expected table: public.csp_reports (directive text not null, blocked_uri text not null,
+// disposition text not null check (disposition in ('enforce','report')), report_count integer not null default 1,
+// document_uri text null, source_file text null, line_number integer null, first_seen_at timestamptz default now(),
+// last_seen_at timestamptz default now(), primary key (directive, blocked_uri, disposition))
+// Suggested index: (last_seen_at desc).
+// One row per directive, blocked source and disposition, so repeated reports only raise a count; the location
+// columns hold the latest example. Rows not seen for a week are pruned.
+// Expected function, which adds to the counts in one statement so concurrent reports aren't lost:
+//   create function record_csp_violations(reports jsonb) returns void language sql as $$
+//     insert into csp_reports (directive, blocked_uri, disposition, report_count, document_uri, source_file, line_number)
+//     select directive, blocked_uri, disposition, report_count, document_uri, source_file, line_number
+//     from jsonb_to_recordset(reports) as r(directive text, blocked_uri text, disposition text, report_count integer,
+//       document_uri text, source_file text, line_number integer)
+//     on conflict (directive, blocked_uri, disposition) do update set
+//       report_count = csp_reports.report_count + excluded.report_count, last_seen_at = now(),
+//       document_uri = coalesce(excluded.document_uri, csp_reports.document_uri),
+//       source_file = excluded.source_file, line_number = excluded.line_number;
+//   $$;
+// Written by the public /api/csp-report endpoint through the service role; no anon RLS policy or grant.
+
+const RETENTION_DAYS = 7;
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+const SUMMARY_MAX_ROWS = 200;
+
+let lastPrunedAt = 0;
+
+const formatSupabaseError = createSupabaseErrorFormatter({ table: 'csp_reports' });
+
+// Violations seen in the last week, one row per directive, blocked source and disposition
+export interface CspViolationSummary {
+  directive: string;
+  blockedUri: string;
+  count: number; // Since first seen; rows that go a week without a report are dropped
+  lastSeenAt: string; // ISO string format
+  exampleDocumentUri?: string;
+  disposition: CspViolationReport['disposition'];
+}
+
+const mapDbRowToCspViolationSummary = (row: any): CspViolationSummary => {
+  return {
+    directive: row.directive,
+    blockedUri: row.blocked_uri,
+    count: Number(row.report_count) || 0,
+    lastSeenAt: row.last_seen_at,
+    exampleDocumentUri: row.document_uri || undefined,
+    disposition: row.disposition === 'enforce' ? 'enforce' : 'report',
+  };
+};
+
+function getRetentionCutoff(): string {
+  return new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString();
+}
+
+// Best-effort and at most hourly per server instance; a failure only delays the cleanup
+async function pruneStaleViolations(adminSupabase: SupabaseClient): Promise<void> {
+  const now = Date.now();
+  if (now - lastPrunedAt < PRUNE_INTERVAL_MS) return;
+  lastPrunedAt = now;
+  const { error } = await adminSupabase.from('csp_reports').delete().lt('last_seen_at', getRetentionCutoff());
+  if (error) {
+    console.error('Error pruning CSP reports (raw Supabase error):', JSON.stringify(error, null, 2));
+  }
+}
+
+export const recordCspViolations = async (reports: CspViolationReport[]): Promise<void> => {
+  if (reports.length === 0) return;
+  const adminSupabase = getSupabaseAdminClient();
+
+  // Reports in one batch are merged first: the upsert can't touch the same row twice in one statement
+  const rowsByKey = new Map<string, Record<string, any>>();
+  for (const report of reports) {
+    const row = {
+      directive: report.directive.slice(0, 100),
+      blocked_uri: report.blockedUri.slice(0, 500),
+      disposition: report.disposition,
+      report_count: 1,
+      document_uri: report.documentUri?.slice(0, 500) || null,
+      source_file: report.sourceFile?.slice(0, 500) || null,
+      line_number: report.lineNumber ?? null,
+    };
+    const key = `${row.directive} ${row.blocked_uri} ${row.disposition}`;
+    const existing = rowsByKey.get(key);
+    rowsByKey.set(key, existing ? { ...row, report_count: existing.report_count + 1 } : row);
+  }
+
+  const { error } = await adminSupabase.rpc('record_csp_violations', { reports: [...rowsByKey.values()] });
+  if (error) {
+    console.error('Error recording CSP reports (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not record CSP reports. ${formatSupabaseError(error)}`);
+  }
+  await pruneStaleViolations(adminSupabase);
+};
+
+export const getCspViolationSummary = async (): Promise<CspViolationSummary[]> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in getCspViolationSummary:', e.message);
+    return [];
+  }
+
+  const { data, error } = await adminSupabase
+    .from('csp_reports')
+    .select('*')
+    .gte('last_seen_at', getRetentionCutoff())
+    .order('report_count', { ascending: false })
+    .order('last_seen_at', { ascending: false })
+    .limit(SUMMARY_MAX_ROWS);
+
+  if (error) {
+    console.error('Error fetching CSP reports:', JSON.stringify(error, null, 2));
+    return [];
+  }
+  return data.map(mapDbRowToCspViolationSummary);
+};
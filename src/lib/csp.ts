@@ -0,0 +1,118 @@
+import type { CspMode } from '@/types';
+import { supabase } from './supabase-client'; // Public Supabase client
+
+/**
+ * Content Security Policy, generated by the middleware for every page request. Each request
+ * gets a fresh nonce: Next.js applies it to its own scripts (it reads the nonce back from the
+ * policy header), and the layout passes it to the header/footer script injectors and the
+ * banner, which give it to the inline scripts they run. External scripts only load from this
+ * site and the sources admins list in settings (`cspScriptSources`).
+ *
+ * `cspMode` in settings switches between enforcing the policy, sending it report-only (to find
+ * what a stricter policy would break before turning it on) and sending nothing. Violations are
+ * posted to /api/csp-report either way. Edge-compatible, like admin-config.
+ */
+
+export const CSP_NONCE_HEADER = 'x-nonce';
+export const CSP_REPORT_PATH = '/api/csp-report';
+const CSP_REPORT_GROUP = 'csp-endpoint';
+
+export const DEFAULT_CSP_MODE: CspMode = 'report-only';
+
+// The post editor loads TinyMCE and its plugins from Tiny's CDN
+const BUILT_IN_SCRIPT_SOURCES = ['https://cdn.tiny.cloud'];
+
+// Each middleware instance re-reads at most this often, so settings changes take effect within seconds
+const CACHE_TTL_MS = 15 * 1000;
+
+export interface CspConfig {
+  mode: CspMode;
+  scriptSources: string[];
+}
+
+let cachedConfig: { value: CspConfig; expiresAt: number } | null = null;
+
+// Host sources ("https://ads.example.com", "*.example.com", "cdn.example.com/js/") or a scheme ("https:").
+// Keywords like 'unsafe-inline' are deliberately not accepted: they would undo the nonces.
+const SCRIPT_SOURCE_PATTERN = /^((https?:\/\/)?(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*(:(\d{1,5}|\*))?(\/[^\s;,'"]*)?|https?:)$/i;
+
+export function isValidCspSource(source: string): boolean {
+  return SCRIPT_SOURCE_PATTERN.test(source);
+}
+
+// Source list from settings: one per line or separated by commas or spaces
+export function parseCspSources(rawList: string | undefined): string[] {
+  if (!rawList) return [];
+  return rawList.split(/[\s,]+/).map(source => source.trim()).filter(Boolean);
+}
+
+export function generateCspNonce(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return btoa(String.fromCharCode(...bytes));
+}
+
+export function buildContentSecurityPolicy(nonce: string, scriptSources: string[]): string {
+  const isDevelopment = process.env.NODE_ENV === 'development';
+  const directives = [
+    "default-src 'self'",
+    // Dev builds evaluate modules with eval() and hot-reload over a websocket
+    ["script-src 'self'", `'nonce-${nonce}'`, isDevelopment ? "'unsafe-eval'" : '', ...BUILT_IN_SCRIPT_SOURCES, ...scriptSources].filter(Boolean).join(' '),
+    // React style props, Tailwind and the editor all rely on inline styles
+    "style-src 'self' 'unsafe-inline' https://fonts.googleapis.com",
+    "font-src 'self' data: https://fonts.gstatic.com",
+    // Post images, embeds and ads come from many hosts, so these stay open to any https source
+    "img-src 'self' data: blob: https:",
+    "media-src 'self' https:",
+    "frame-src 'self' https:",
+    `connect-src 'self' https:${isDevelopment ? ' ws:' : ''}`,
+    "object-src 'none'",
+    "base-uri 'self'",
+    "form-action 'self'",
+    "frame-ancestors 'self'",
+    `report-uri ${CSP_REPORT_PATH}`,
+    `report-to ${CSP_REPORT_GROUP}`,
+  ];
+  return directives.join('; ');
+}
+
+// The Reporting API endpoint named by `report-to`; browsers that don't support it use `report-uri`
+export function buildReportingEndpointsHeader(origin: string): string {
+  return `${CSP_REPORT_GROUP}="${origin}${CSP_REPORT_PATH}"`;
+}
+
+export function getCspHeaderName(mode: CspMode): string {
+  return mode === 'report-only' ? 'Content-Security-Policy-Report-Only' : 'Content-Security-Policy';
+}
+
+// Falls back to the last known configuration (or the report-only default) when settings can't be
+// read, so a database hiccup neither drops the policy nor starts enforcing one nobody chose
+export async function getCspConfig(): Promise<CspConfig> {
+  if (cachedConfig && cachedConfig.expiresAt > Date.now()) {
+    return cachedConfig.value;
+  }
+
+  const { data, error } = await supabase
+    .from('site_settings')
+    .select('cspMode:settings->>cspMode, cspScriptSources:settings->>cspScriptSources')
+    .eq('id', 1)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Error fetching CSP settings for middleware:', JSON.stringify(error, null, 2));
+    }
+    return cachedConfig?.value ?? { mode: DEFAULT_CSP_MODE, scriptSources: [] };
+  }
+
+  const row = data as { cspMode?: string | null; cspScriptSources?: string | null } | null;
+  const mode: CspMode = row?.cspMode === 'enforce' || row?.cspMode === 'off' || row?.cspMode === 'report-only'
+    ? row.cspMode
+    : DEFAULT_CSP_MODE;
+  const value: CspConfig = {
+    mode,
+    // Entries are validated on save; anything else (e.g. a hand-edited row) is dropped rather than put in a header
+    scriptSources: parseCspSources(row?.cspScriptSources ?? undefined).filter(isValidCspSource),
+  };
+  cachedConfig = { value, expiresAt: Date.now() + CACHE_TTL_MS };
+  return value;
+}
@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import type { Post } from '@/types';
+import * as postService from './post-service';
+import { getSettings } from './settings-service';
+import { htmlToPlainText } from './post-search';
+import { getTrustedEmbedHosts, sanitizePostHtml } from './html-sanitizer';
+import { getSiteUrl, toAbsoluteUrl } from './site-url';
+
+/**
+ * RSS 2.0 and Atom 1.0 feeds of the newest public posts, for the whole site, a tag or a
+ * search query. Feeds are built per request from post-service, so a post shows up (or
+ * changes) in them as soon as it is saved or its scheduled time passes; responses carry an
+ * ETag and Last-Modified so readers polling an unchanged feed get a 304.
+ */
+
+export type FeedFormat = 'rss' | 'atom';
+
+export interface FeedScope {
+  tag?: string;
+  search?: string;
+}
+
+const FEED_ITEM_LIMIT = 20;
+const EXCERPT_LENGTH = 300;
+
+const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  rss: 'application/rss+xml; charset=utf-8',
+  atom: 'application/atom+xml; charset=utf-8',
+};
+
+// Paths of the feed routes; tag feeds live under the tag's own page
+export function getFeedPath(format: FeedFormat, scope: FeedScope = {}): string {
+  const fileName = format === 'rss' ? 'feed.xml' : 'atom.xml';
+  if (scope.tag) return `/tags/${encodeURIComponent(scope.tag.toLowerCase())}/${fileName}`;
+  if (scope.search) return `/${fileName}?search=${encodeURIComponent(scope.search)}`;
+  return `/${fileName}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// Raw HTML inside CDATA; a literal "]]>" in the content would end the section early
+function wrapCdata(value: string): string {
+  return `<![CDATA[${value.replace(/]]>/g, ']]]]><![CDATA[>')}]]>`;
+}
+
+// Thumbnails are stored without a MIME type, so it is inferred from the file extension
+function getImageMimeType(url: string): string {
+  const extension = url.split(/[?#]/)[0].split('.').pop()?.toLowerCase();
+  switch (extension) {
+    case 'png': return 'image/png';
+    case 'gif': return 'image/gif';
+    case 'webp': return 'image/webp';
+    case 'avif': return 'image/avif';
+    case 'svg': return 'image/svg+xml';
+    default: return 'image/jpeg';
+  }
+}
+
+function getExcerpt(html: string): string {
+  const text = htmlToPlainText(html);
+  return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : text;
+}
+
+interface FeedChannel {
+  title: string;
+  description: string;
+  pageUrl: string; // The HTML page the feed mirrors, e.g. the tag page
+  feedUrl: string;
+  imageUrl?: string;
+  updated: Date;
+}
+
+interface FeedEntry {
+  post: Post;
+  url: string;
+  imageUrl?: string;
+  excerpt: string;
+  fullContent?: string; // Only when the site publishes full articles in feeds
+}
+
+function buildRssFeed(channel: FeedChannel, entries: FeedEntry[]): string {
+  const items = entries.map(({ post, url, imageUrl, excerpt, fullContent }) => [
+    '    <item>',
+    `      <title>${escapeXml(post.title)}</title>`,
+    `      <link>${escapeXml(url)}</link>`,
+    `      <guid isPermaLink="true">${escapeXml(url)}</guid>`,
+    `      <pubDate>${new Date(post.date).toUTCString()}</pubDate>`,
+    post.authorName ? `      <dc:creator>${escapeXml(post.authorName)}</dc:creator>` : '',
+    ...post.tags.map(tag => `      <category>${escapeXml(tag)}</category>`),
+    `      <description>${escapeXml(excerpt)}</description>`,
+    fullContent ? `      <content:encoded>${wrapCdata(fullContent)}</content:encoded>` : '',
+    // Enclosures require a length; 0 is the accepted value when it isn't known
+    imageUrl ? `      <enclosure url="${escapeXml(imageUrl)}" length="0" type="${getImageMimeType(imageUrl)}" />` : '',
+    '    </item>',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:content="http://purl.org/rss/1.0/modules/content/" xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '  <channel>',
+    `    <title>${escapeXml(channel.title)}</title>`,
+    `    <link>${escapeXml(channel.pageUrl)}</link>`,
+    `    <description>${escapeXml(channel.description)}</description>`,
+    `    <atom:link href="${escapeXml(channel.feedUrl)}" rel="self" type="application/rss+xml" />`,
+    `    <lastBuildDate>${channel.updated.toUTCString()}</lastBuildDate>`,
+    channel.imageUrl
+      ? `    <image>\n      <url>${escapeXml(channel.imageUrl)}</url>\n      <title>${escapeXml(channel.title)}</title>\n      <link>${escapeXml(channel.pageUrl)}</link>\n    </image>`
+      : '',
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].filter(Boolean).join('\n');
+}
+
+function buildAtomFeed(channel: FeedChannel, entries: FeedEntry[]): string {
+  const items = entries.map(({ post, url, imageUrl, excerpt, fullContent }) => [
+    '  <entry>',
+    `    <title>${escapeXml(post.title)}</title>`,
+    `    <link rel="alternate" type="text/html" href="${escapeXml(url)}" />`,
+    `    <id>${escapeXml(url)}</id>`,
+    `    <published>${new Date(post.date).toISOString()}</published>`,
+    `    <updated>${new Date(post.updatedAt || post.date).toISOString()}</updated>`,
+    post.authorName ? `    <author><name>${escapeXml(post.authorName)}</name></author>` : '',
+    ...post.tags.map(tag => `    <category term="${escapeXml(tag)}" />`),
+    `    <summary>${escapeXml(excerpt)}</summary>`,
+    fullContent ? `    <content type="html">${escapeXml(fullContent)}</content>` : '',
+    imageUrl ? `    <link rel="enclosure" type="${getImageMimeType(imageUrl)}" href="${escapeXml(imageUrl)}" />` : '',
+    '  </entry>',
+  ].filter(Boolean).join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <title>${escapeXml(channel.title)}</title>`,
+    `  <subtitle>${escapeXml(channel.description)}</subtitle>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(channel.pageUrl)}" />`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(channel.feedUrl)}" />`,
+    `  <id>${escapeXml(channel.feedUrl)}</id>`,
+    `  <updated>${channel.updated.toISOString()}</updated>`,
+    // Entries without their own author inherit this one, which Atom requires
+    `  <author><name>${escapeXml(channel.title)}</name></author>`,
+    channel.imageUrl ? `  <logo>${escapeXml(channel.imageUrl)}</logo>` : '',
+    ...items,
+    '</feed>',
+    '',
+  ].filter(Boolean).join('\n');
+}
+
+async function getFeedPosts(scope: FeedScope): Promise<Post[]> {
+  // A search feed uses the same matching as the site search, but newest first like any other feed
+  const { posts } = await postService.queryPosts({
+    tag: scope.tag,
+    search: scope.search,
+    sort: 'date',
+    limit: FEED_ITEM_LIMIT,
+  });
+  return posts;
+}
+
+/**
+ * The feed as a response to `request`, or a 304 when the reader already has this version.
+ * Readers must revalidate every time (`no-cache`), which is cheap thanks to the ETag and keeps
+ * edits, deletions and newly due scheduled posts from being hidden behind a stale copy.
+ */
+export async function createFeedResponse(request: Request, format: FeedFormat, scope: FeedScope = {}): Promise<Response> {
+  const [settings, posts] = await Promise.all([getSettings(), getFeedPosts(scope)]);
+  const siteUrl = getSiteUrl();
+  const siteTitle = settings.siteTitle || 'Newstoday';
+
+  let title = siteTitle;
+  let description = settings.siteDescription || '';
+  let pagePath = '/';
+  if (scope.tag) {
+    title = `${siteTitle}: ${scope.tag}`;
+    description = `Articles on ${siteTitle} tagged with "${scope.tag}".`;
+    pagePath = `/tags/${encodeURIComponent(scope.tag)}`;
+  } else if (scope.search) {
+    title = `${siteTitle}: search for "${scope.search}"`;
+    description = `Articles on ${siteTitle} matching "${scope.search}".`;
+    pagePath = `/?search=${encodeURIComponent(scope.search)}`;
+  }
+
+  // An empty feed has no post dates to go by, so it is as fresh as the request
+  const lastUpdated = posts.length > 0
+    ? new Date(Math.max(...posts.map(post => new Date(post.updatedAt || post.date).getTime())))
+    : new Date();
+  const channel: FeedChannel = {
+    title,
+    description,
+    pageUrl: toAbsoluteUrl(pagePath, siteUrl),
+    feedUrl: toAbsoluteUrl(getFeedPath(format, scope), siteUrl),
+    imageUrl: settings.siteLogoUrl ? toAbsoluteUrl(settings.siteLogoUrl, siteUrl) : undefined,
+    updated: lastUpdated,
+  };
+  const entries: FeedEntry[] = posts.map(post => ({
+    post,
+    url: toAbsoluteUrl(`/posts/${post.slug}`, siteUrl),
+    imageUrl: post.thumbnailUrl ? toAbsoluteUrl(post.thumbnailUrl, siteUrl) : undefined,
+    excerpt: getExcerpt(post.content),
+    fullContent: settings.feedFullContent ? sanitizePostHtml(post.content, getTrustedEmbedHosts(settings)) : undefined,
+  }));
+
+  const xml = format === 'rss' ? buildRssFeed(channel, entries) : buildAtomFeed(channel, entries);
+  // Hashing the output (rather than using the newest post date) also catches edits and removals
+  const etag = `"${createHash('sha1').update(xml).digest('base64url')}"`;
+  const cacheHeaders = {
+    'Cache-Control': 'public, no-cache',
+    ETag: etag,
+    'Last-Modified': lastUpdated.toUTCString(),
+  };
+
+  if (request.headers.get('if-none-match') === etag) {
+    return new Response(null, { status: 304, headers: cacheHeaders });
+  }
+  return new Response(xml, {
+    headers: { ...cacheHeaders, 'Content-Type': FEED_CONTENT_TYPES[format] },
+  });
+}
@@ -0,0 +1,25 @@
+/**
+ * Turns admin-provided HTML (header/footer scripts, banner code) into DOM nodes for the client
+ * to append to the page. Scripts parsed through innerHTML never run, so every <script> is
+ * re-created: inline ones get the page's CSP nonce (see lib/csp), while external ones still have
+ * to come from this site or one of the script sources allowed in settings.
+ */
+
+function recreateScript(original: HTMLScriptElement, nonce?: string): HTMLScriptElement {
+  const script = document.createElement('script');
+  Array.from(original.attributes).forEach(({ name, value }) => script.setAttribute(name, value));
+  script.text = original.text;
+  if (nonce && !original.src) {
+    script.nonce = nonce;
+  }
+  return script;
+}
+
+export function createInjectableNodes(htmlString: string, nonce?: string): Node[] {
+  const template = document.createElement('template');
+  template.innerHTML = htmlString;
+  template.content.querySelectorAll('script').forEach(script => {
+    script.replaceWith(recreateScript(script, nonce));
+  });
+  return Array.from(template.content.childNodes);
+}
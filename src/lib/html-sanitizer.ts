@@ -0,0 +1,210 @@
+import type { SiteSettings } from '@/types';
+import * as cheerio from 'cheerio';
+
+/**
+ * Allowlist-based sanitizer for post HTML. Post content is rendered with
+ * dangerouslySetInnerHTML and often comes straight from /api/scrape, so it runs both when a
+ * post is saved and again before it is rendered (older rows were stored unsanitized).
+ *
+ * - Tags outside the allowlist are unwrapped (their text is kept); scripts, styles, forms,
+ *   plugins and similar are removed together with their content.
+ * - Attributes outside the per-tag allowlist are dropped, including every `on*` handler,
+ *   `data-*` attribute and microdata; URLs must be http(s), mailto, tel or relative.
+ * - Ad slots, HTML comments and tracking pixels from scraped pages are removed.
+ * - Iframes are kept only when their https src is on a trusted embed host: the defaults
+ *   below plus the site's own list (`trustedEmbedHosts` in settings).
+ */
+
+export const DEFAULT_TRUSTED_EMBED_HOSTS = ['youtube.com', 'youtube-nocookie.com', 'player.vimeo.com'];
+
+// Removed with everything inside them
+const DROPPED_TAGS = [
+  'script', 'style', 'noscript', 'template', 'link', 'meta', 'base', 'title',
+  'object', 'embed', 'applet', 'frame', 'frameset', 'svg', 'math',
+  'form', 'input', 'button', 'textarea', 'select', 'option',
+];
+
+const GLOBAL_ATTRIBUTES = ['class', 'id', 'title', 'lang', 'dir', 'style'];
+
+const ALLOWED_TAGS: Record<string, string[]> = {
+  a: ['href', 'target', 'rel', 'name'],
+  abbr: [], b: [], br: [], cite: [], code: [], dfn: [], em: [], i: [], kbd: [], mark: [],
+  s: [], small: [], strong: [], sub: [], sup: [], u: [], span: [],
+  blockquote: ['cite'], q: ['cite'], del: ['cite', 'datetime'], ins: ['cite', 'datetime'],
+  time: ['datetime'],
+  p: [], div: [], pre: [], hr: [], h1: [], h2: [], h3: [], h4: [], h5: [], h6: [],
+  ul: [], ol: ['start', 'type', 'reversed'], li: ['value'], dl: [], dt: [], dd: [],
+  figure: [], figcaption: [], details: ['open'], summary: [],
+  table: [], caption: [], thead: [], tbody: [], tfoot: [], tr: [],
+  th: ['colspan', 'rowspan', 'scope'], td: ['colspan', 'rowspan'], colgroup: ['span'], col: ['span'],
+  img: ['src', 'srcset', 'sizes', 'alt', 'width', 'height', 'loading'],
+  picture: [], source: ['src', 'srcset', 'sizes', 'type', 'media'],
+  video: ['src', 'poster', 'controls', 'width', 'height', 'preload', 'loop', 'muted', 'playsinline'],
+  audio: ['src', 'controls', 'preload', 'loop', 'muted'],
+  iframe: ['src', 'width', 'height', 'title', 'allow', 'allowfullscreen', 'frameborder', 'loading', 'referrerpolicy'],
+};
+
+const URL_ATTRIBUTES = ['href', 'src', 'poster', 'cite'];
+const SAFE_URL_SCHEMES = ['http:', 'https:', 'mailto:', 'tel:'];
+const SAFE_DATA_IMAGE_PATTERN = /^data:image\/(png|jpe?g|gif|webp|avif);base64,/i;
+
+// Inline styles are kept for editor formatting (alignment, colors, sizes) but nothing that can load resources
+const SAFE_STYLE_PROPERTIES = new Set([
+  'text-align', 'text-decoration', 'font-weight', 'font-style', 'font-size', 'color', 'background-color',
+  'width', 'height', 'max-width', 'float', 'vertical-align', 'list-style-type',
+  'margin', 'margin-left', 'margin-right', 'margin-top', 'margin-bottom',
+  'padding', 'padding-left', 'padding-right', 'padding-top', 'padding-bottom',
+  'border', 'border-collapse', 'border-width', 'border-style', 'border-color',
+]);
+const UNSAFE_STYLE_VALUE_PATTERN = /url\s*\(|expression\s*\(|javascript:|[<>\\]/i;
+
+// Ad-network slots found in scraped articles, e.g. `<div class="b-r b-r--before-article">`
+const AD_MARKER_PATTERNS = [
+  /^b-r(--.+)?$/,
+  /^adsbygoogle$/,
+  /^google-auto-placed$/,
+  /^(ad|ads|advert|advertisement)([-_].+)?$/i,
+  /^div-gpt-ad/,
+];
+
+const TRACKER_HOSTS = [
+  'doubleclick.net', 'google-analytics.com', 'googletagmanager.com', 'googlesyndication.com',
+  'scorecardresearch.com', 'quantserve.com', 'pixel.wp.com', 'stats.wp.com',
+];
+
+function matchesHost(hostname: string, hosts: string[]): boolean {
+  return hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+}
+
+// Host list from settings: one per line or comma-separated, with or without a scheme or path
+export function parseEmbedHosts(rawList: string | undefined): string[] {
+  if (!rawList) return [];
+  return rawList
+    .split(/[\n,]/)
+    .map(entry => entry.trim().toLowerCase())
+    .filter(Boolean)
+    .flatMap(entry => {
+      try {
+        return [new URL(entry.includes('://') ? entry : `https://${entry}`).hostname];
+      } catch {
+        return [];
+      }
+    });
+}
+
+export function getTrustedEmbedHosts(settings: Pick<SiteSettings, 'trustedEmbedHosts'>): string[] {
+  return [...DEFAULT_TRUSTED_EMBED_HOSTS, ...parseEmbedHosts(settings.trustedEmbedHosts)];
+}
+
+function parseAbsoluteUrl(value: string): URL | null {
+  try {
+    return new URL(value);
+  } catch {
+    return null;
+  }
+}
+
+function isSafeUrl(value: string, allowDataImage: boolean): boolean {
+  // Browsers ignore whitespace and control characters inside a scheme ("java\tscript:")
+  const compact = value.replace(/[\u0000- ]/g, '');
+  if (!/^[a-z][a-z0-9+.-]*:/i.test(compact)) return true; // Relative, fragment or query-only URL
+  if (allowDataImage && SAFE_DATA_IMAGE_PATTERN.test(compact)) return true;
+  const scheme = compact.slice(0, compact.indexOf(':') + 1).toLowerCase();
+  return SAFE_URL_SCHEMES.includes(scheme);
+}
+
+function isSafeSrcset(value: string): boolean {
+  return value.split(',').every(candidate => isSafeUrl(candidate.trim().split(/\s+/)[0] || '', false));
+}
+
+function sanitizeStyle(value: string): string {
+  return value
+    .split(';')
+    .map(declaration => {
+      const separatorIndex = declaration.indexOf(':');
+      if (separatorIndex === -1) return '';
+      const property = declaration.slice(0, separatorIndex).trim().toLowerCase();
+      const propertyValue = declaration.slice(separatorIndex + 1).trim();
+      if (!SAFE_STYLE_PROPERTIES.has(property) || !propertyValue || UNSAFE_STYLE_VALUE_PATTERN.test(propertyValue)) return '';
+      return `${property}: ${propertyValue}`;
+    })
+    .filter(Boolean)
+    .join('; ');
+}
+
+function isAdMarker(attribs: Record<string, string>): boolean {
+  const markers = [...(attribs.class || '').split(/\s+/), attribs.id || ''].filter(Boolean);
+  return markers.some(marker => AD_MARKER_PATTERNS.some(pattern => pattern.test(marker)));
+}
+
+function isTrackingPixel(attribs: Record<string, string>): boolean {
+  const width = Number.parseInt(attribs.width || '', 10);
+  const height = Number.parseInt(attribs.height || '', 10);
+  if (width <= 1 && height <= 1) return true;
+  const src = parseAbsoluteUrl(attribs.src || '');
+  return Boolean(src && matchesHost(src.hostname.toLowerCase(), TRACKER_HOSTS));
+}
+
+function isTrustedEmbed(src: string | undefined, trustedHosts: string[]): boolean {
+  const url = parseAbsoluteUrl(src || '');
+  return Boolean(url && url.protocol === 'https:' && matchesHost(url.hostname.toLowerCase(), trustedHosts));
+}
+
+export function sanitizePostHtml(html: string, trustedEmbedHosts: string[] = DEFAULT_TRUSTED_EMBED_HOSTS): string {
+  if (!html) return '';
+  const $ = cheerio.load(html, null, false);
+
+  $.root().find('*').addBack().contents().filter((_, node) => node.nodeType === 8).remove(); // Comments
+  $(DROPPED_TAGS.join(',')).remove();
+
+  $.root().find('*').each((_, element) => {
+    const $element = $(element);
+    const tagName = element.tagName.toLowerCase();
+    const attribs = element.attribs;
+
+    if (isAdMarker(attribs)
+      || (tagName === 'img' && isTrackingPixel(attribs))
+      || (tagName === 'iframe' && !isTrustedEmbed(attribs.src, trustedEmbedHosts))) {
+      $element.remove();
+      return;
+    }
+
+    const allowedAttributes = ALLOWED_TAGS[tagName];
+    if (!allowedAttributes) {
+      // Unknown tags (font, center, custom elements, ...) are unwrapped so their text survives
+      $element.replaceWith($element.contents());
+      return;
+    }
+
+    for (const [name, value] of Object.entries(attribs)) {
+      const attribute = name.toLowerCase();
+      let keep = GLOBAL_ATTRIBUTES.includes(attribute) || allowedAttributes.includes(attribute);
+      if (keep && URL_ATTRIBUTES.includes(attribute)) keep = isSafeUrl(value, tagName === 'img' && attribute === 'src');
+      if (keep && attribute === 'srcset') keep = isSafeSrcset(value);
+      if (keep && attribute === 'style') {
+        const style = sanitizeStyle(value);
+        if (style) {
+          $element.attr(name, style);
+        } else {
+          keep = false;
+        }
+      }
+      if (!keep) $element.removeAttr(name);
+    }
+
+    if (tagName === 'img' && !$element.attr('src') && !$element.attr('srcset')) {
+      $element.remove();
+      return;
+    }
+
+    // Opened pages must not get a handle on the site through window.opener
+    if (tagName === 'a' && $element.attr('target') === '_blank') {
+      const rel = new Set(($element.attr('rel') || '').split(/\s+/).filter(Boolean));
+      rel.add('noopener');
+      rel.add('noreferrer');
+      $element.attr('rel', [...rel].join(' '));
+    }
+  });
+
+  return $.html().trim();
+}
@@ -0,0 +1,227 @@
+
+import type { LoginAttempt, LoginAttemptOutcome } from '@/types';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseErrorFormatter, getSupabaseAdminClient } from './supabase-admin';
+
+// Expected table: public.login_attempts (id uuid primary key default gen_random_uuid(), username text not null,
+// outcome text not null check (outcome in ('pending','success','invalid_credentials','invalid_two_factor','throttled')), ip_address text null,
+// user_agent text null, created_at timestamptz default now())
+// Suggested indexes: (username, created_at desc) and (ip_address, created_at desc).
+// Admin-only: no anon RLS policy; every query goes through the service role client.
+
+interface ThrottlePolicy {
+  freeAttempts: number; // Consecutive failures allowed before any delay
+  baseDelaySeconds: number; // Delay after the first failure past freeAttempts, doubled for each further one
+  maxDelaySeconds: number;
+  lockoutAfter: number; // Consecutive failures that lock the key out entirely
+  lockoutSeconds: number; // Also the window in which failures count, so a lockout clears by itself
+}
+
+// Per username: a few typos are free, then backoff, then a lockout that can't be waited out by guessing slowly
+const USERNAME_POLICY: ThrottlePolicy = {
+  freeAttempts: 3,
+  baseDelaySeconds: 2,
+  maxDelaySeconds: 60,
+  lockoutAfter: 10,
+  lockoutSeconds: 15 * 60,
+};
+
+// Per IP address: looser, since an office or proxy can put several editors behind one address
+const IP_POLICY: ThrottlePolicy = {
+  freeAttempts: 10,
+  baseDelaySeconds: 2,
+  maxDelaySeconds: 60,
+  lockoutAfter: 30,
+  lockoutSeconds: 15 * 60,
+};
+
+export type LoginThrottle =
+  | { allowed: true }
+  | { allowed: false; reason: 'backoff' | 'lockout'; retryAfterSeconds: number };
+
+const formatSupabaseError = createSupabaseErrorFormatter({ table: 'login_attempts' });
+
+const mapDbRowToLoginAttempt = (row: any): LoginAttempt => {
+  return {
+    id: String(row.id),
+    username: row.username,
+    outcome: row.outcome,
+    ipAddress: row.ip_address || undefined,
+    userAgent: row.user_agent || undefined,
+    createdAt: row.created_at,
+  };
+};
+
+// Usernames are throttled case-insensitively, so "Admin" and "admin" share one counter
+export const normalizeLoginUsername = (username: string): string => username.trim().toLowerCase();
+
+// Given the outcomes of recent attempts (newest first), works out how long the key must wait.
+// Only consecutive wrong passwords or two-factor codes count, along with attempts still pending, which might
+// turn out to be wrong; throttled attempts are never fetched, so they can't extend the delay, and a success resets it.
+function evaluatePolicy(attempts: LoginAttempt[], policy: ThrottlePolicy, now: number): LoginThrottle {
+  const failures: number[] = [];
+  for (const attempt of attempts) {
+    if (attempt.outcome === 'success') break;
+    failures.push(new Date(attempt.createdAt).getTime());
+  }
+  if (failures.length <= policy.freeAttempts) return { allowed: true };
+
+  const lastFailureAt = failures[0];
+  const waitSeconds = failures.length >= policy.lockoutAfter
+    ? policy.lockoutSeconds
+    : Math.min(policy.baseDelaySeconds * 2 ** (failures.length - policy.freeAttempts - 1), policy.maxDelaySeconds);
+  const retryAfterSeconds = Math.ceil((lastFailureAt + waitSeconds * 1000 - now) / 1000);
+  if (retryAfterSeconds <= 0) return { allowed: true };
+
+  return {
+    allowed: false,
+    reason: failures.length >= policy.lockoutAfter ? 'lockout' : 'backoff',
+    retryAfterSeconds,
+  };
+}
+
+// The attempts made before `attempt` (which is excluded), newest first
+async function getPriorAttempts(
+  client: SupabaseClient,
+  attempt: LoginAttempt,
+  column: 'username' | 'ip_address',
+  value: string,
+  policy: ThrottlePolicy
+): Promise<LoginAttempt[]> {
+  const since = new Date(Date.now() - policy.lockoutSeconds * 1000).toISOString();
+  const { data, error } = await client
+    .from('login_attempts')
+    .select('*')
+    .eq(column, value)
+    .in('outcome', ['pending', 'success', 'invalid_credentials', 'invalid_two_factor'])
+    .gte('created_at', since)
+    .lte('created_at', attempt.createdAt)
+    .neq('id', attempt.id)
+    .order('created_at', { ascending: false })
+    .limit(policy.lockoutAfter); // Enough to tell whether the lockout threshold has been reached
+
+  if (error) {
+    console.error(`Error fetching login attempts by ${column} (raw Supabase error):`, JSON.stringify(error, null, 2));
+    throw new Error(`Could not check recent sign-in attempts. ${formatSupabaseError(error)}`);
+  }
+  return data.map(mapDbRowToLoginAttempt);
+}
+
+export interface LoginAttemptReservation {
+  attemptId: string;
+  throttle: LoginThrottle;
+}
+
+// Records the attempt as pending before any password or code is checked, then decides whether it
+// may go ahead from the attempts recorded before it. Parallel guesses therefore each see the ones
+// that started earlier, pending or not, instead of all passing the check before any failure is
+// written. A throttled attempt is settled here; otherwise the caller settles it once the
+// credentials have been checked. Throws when the history can't be read or written, so a database
+// problem never turns throttling off.
+export const reserveLoginAttempt = async (attempt: {
+  username: string;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}): Promise<LoginAttemptReservation> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const username = normalizeLoginUsername(attempt.username).slice(0, 100);
+
+  const { data, error } = await adminSupabase
+    .from('login_attempts')
+    .insert({
+      username,
+      outcome: 'pending',
+      ip_address: attempt.ipAddress || null,
+      user_agent: attempt.userAgent?.slice(0, 500) || null,
+      created_at: new Date().toISOString(),
+    })
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error recording login attempt (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not record sign-in attempt. ${formatSupabaseError(error)}`);
+  }
+  const reserved = mapDbRowToLoginAttempt(data);
+  const now = Date.now();
+
+  const [byUsername, byIp] = await Promise.all([
+    getPriorAttempts(adminSupabase, reserved, 'username', username, USERNAME_POLICY),
+    reserved.ipAddress ? getPriorAttempts(adminSupabase, reserved, 'ip_address', reserved.ipAddress, IP_POLICY) : Promise.resolve([]),
+  ]);
+
+  const throttles = [evaluatePolicy(byUsername, USERNAME_POLICY, now), evaluatePolicy(byIp, IP_POLICY, now)];
+  let strictest: LoginThrottle = { allowed: true };
+  for (const throttle of throttles) {
+    if (!throttle.allowed && (strictest.allowed || throttle.retryAfterSeconds > strictest.retryAfterSeconds)) {
+      strictest = throttle;
+    }
+  }
+
+  if (!strictest.allowed) {
+    await settleLoginAttempt(reserved.id, 'throttled');
+  }
+  return { attemptId: reserved.id, throttle: strictest };
+};
+
+// Gives a reserved attempt its outcome. Null withdraws it instead, for a password that was right
+// but whose sign-in isn't finished until the two-factor step, which reserves an attempt of its own.
+export const settleLoginAttempt = async (
+  attemptId: string,
+  outcome: Exclude<LoginAttemptOutcome, 'pending'> | null
+): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { error } = outcome
+    ? await adminSupabase.from('login_attempts').update({ outcome }).eq('id', attemptId)
+    : await adminSupabase.from('login_attempts').delete().eq('id', attemptId);
+
+  if (error) {
+    console.error('Error settling login attempt (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not record sign-in attempt. ${formatSupabaseError(error)}`);
+  }
+};
+
+export const getRecentLoginAttempts = async (limit = 10): Promise<LoginAttempt[]> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in getRecentLoginAttempts:', e.message);
+    return [];
+  }
+
+  const { data, error } = await adminSupabase
+    .from('login_attempts')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching recent login attempts:', JSON.stringify(error, null, 2));
+    return [];
+  }
+  return data.map(mapDbRowToLoginAttempt);
+};
+
+// Failed and throttled attempts since the given time, for the dashboard summary
+export const countFailedLoginAttempts = async (since: Date): Promise<number> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in countFailedLoginAttempts:', e.message);
+    return 0;
+  }
+
+  const { count, error } = await adminSupabase
+    .from('login_attempts')
+    .select('id', { count: 'exact', head: true })
+    .in('outcome', ['invalid_credentials', 'invalid_two_factor', 'throttled'])
+    .gte('created_at', since.toISOString());
+
+  if (error) {
+    console.error('Error counting failed login attempts:', JSON.stringify(error, null, 2));
+    return 0;
+  }
+  return count ?? 0;
+};
@@ -0,0 +1,59 @@
+
+import { randomBytes, scrypt as scryptCallback, timingSafeEqual, type ScryptOptions } from 'crypto';
+
+/**
+ * Salted scrypt password hashing for the admin credentials stored in site settings.
+ * Hashes are self-describing strings: `scrypt$N$r$p$<salt>$<hash>` (base64), so the
+ * cost parameters can be raised later without invalidating existing passwords.
+ */
+
+const HASH_PREFIX = 'scrypt';
+const SALT_BYTES = 16;
+const KEY_BYTES = 64;
+const DEFAULT_COST: Required<Pick<ScryptOptions, 'N' | 'r' | 'p'>> = { N: 16384, r: 8, p: 1 };
+
+function scrypt(password: string, salt: Buffer, keyLength: number, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scryptCallback(password, salt, keyLength, { ...options, maxmem: 64 * 1024 * 1024 }, (error, derivedKey) => {
+      if (error) reject(error);
+      else resolve(derivedKey);
+    });
+  });
+}
+
+export function isPasswordHash(value: string | undefined | null): boolean {
+  return !!value && value.startsWith(`${HASH_PREFIX}$`) && value.split('$').length === 6;
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_BYTES);
+  const { N, r, p } = DEFAULT_COST;
+  const derivedKey = await scrypt(password, salt, KEY_BYTES, { N, r, p });
+  return [HASH_PREFIX, N, r, p, salt.toString('base64'), derivedKey.toString('base64')].join('$');
+}
+
+// Values written before hashing was introduced are still plaintext until the settings
+// migration rewrites them, so those are compared directly (in constant time).
+export async function verifyPassword(password: string, storedValue: string | undefined | null): Promise<boolean> {
+  if (!storedValue) return false;
+
+  if (!isPasswordHash(storedValue)) {
+    const given = Buffer.from(password);
+    const expected = Buffer.from(storedValue);
+    return given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  const [, n, r, p, saltBase64, hashBase64] = storedValue.split('$');
+  const expected = Buffer.from(hashBase64, 'base64');
+  try {
+    const derivedKey = await scrypt(password, Buffer.from(saltBase64, 'base64'), expected.length, {
+      N: Number(n),
+      r: Number(r),
+      p: Number(p),
+    });
+    return timingSafeEqual(derivedKey, expected);
+  } catch (error: any) {
+    console.error('Could not verify password hash:', error.message);
+    return false;
+  }
+}
@@ -0,0 +1,63 @@
+
+import type { Post, User, UserRole } from '@/types';
+
+/**
+ * What each role may do in the admin panel. Pure functions, shared by the server actions
+ * (which enforce them) and the admin pages (which only use them to hide controls).
+ *
+ * - admin: everything, including site settings and user accounts
+ * - editor: all posts and comments
+ * - author: creates posts and edits or deletes only their own
+ * - moderator: comments only
+ */
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  editor: 'Editor',
+  author: 'Author',
+  moderator: 'Moderator',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Full access, including site settings and user accounts.',
+  editor: 'Writes, edits and publishes any post, and moderates comments.',
+  author: 'Writes posts and edits only their own.',
+  moderator: 'Moderates comments only.',
+};
+
+type Actor = Pick<User, 'id' | 'role'>;
+
+export function canManageSettings(user: Actor): boolean {
+  return user.role === 'admin';
+}
+
+export function canManageUsers(user: Actor): boolean {
+  return user.role === 'admin';
+}
+
+// The audit log shows every account's activity, including sign-in addresses
+export function canViewAuditLog(user: Actor): boolean {
+  return user.role === 'admin';
+}
+
+export function canCreatePosts(user: Actor): boolean {
+  return user.role === 'admin' || user.role === 'editor' || user.role === 'author';
+}
+
+// Whether the user can see posts other than their own in the admin listing
+export function canViewAllPosts(user: Actor): boolean {
+  return user.role === 'admin' || user.role === 'editor';
+}
+
+export function canEditPost(user: Actor, post: Pick<Post, 'authorId'>): boolean {
+  if (canViewAllPosts(user)) return true;
+  return user.role === 'author' && !!post.authorId && post.authorId === user.id;
+}
+
+export function canDeletePost(user: Actor, post: Pick<Post, 'authorId'>): boolean {
+  return canEditPost(user, post);
+}
+
+export function canModerateComments(user: Actor): boolean {
+  return user.role === 'admin' || user.role === 'editor' || user.role === 'moderator';
+}
@@ -0,0 +1,171 @@
+
+import * as cheerio from 'cheerio';
+
+/**
+ * Search query parsing and result snippets. Matching and ranking happen in Postgres: queries are
+ * turned into a tsquery for the `search_posts` function (see post-service), which ranks the
+ * posts' title, tags and body text, weighted in that order. Snippets are then built here from the
+ * content of the returned page of results only.
+ *
+ * Query syntax:
+ * - `word`          matches the token anywhere (title, tags or body)
+ * - `word*`         prefix match, e.g. `recip*` matches "recipe" and "recipes"
+ * - `"exact words"` phrase match on consecutive tokens
+ * All clauses must match (AND).
+ */
+
+const MIN_PREFIX_LENGTH = 2; // Shorter prefixes match too much of the vocabulary to be useful
+const SNIPPET_LENGTH = 220;
+
+const TOKEN_PATTERN = new RegExp('[\\p{L}\\p{N}]+', 'gu');
+
+export interface SearchSnippetSegment {
+  text: string;
+  highlight: boolean;
+}
+
+type QueryClause =
+  | { kind: 'term'; token: string }
+  | { kind: 'prefix'; token: string }
+  | { kind: 'phrase'; tokens: string[] };
+
+interface Token {
+  value: string;
+  start: number; // Character offsets into the text, used for snippets
+  end: number;
+}
+
+// Snippets strip diacritics so "café" and "cafe" highlight each other; the database's 'simple'
+// text search configuration only lowercases, so tsqueries keep them
+function normalizeToken(value: string, foldDiacritics: boolean): string {
+  const lowercased = value.toLowerCase();
+  return foldDiacritics ? lowercased.normalize('NFKD').replace(/[\u0300-\u036f]/g, '') : lowercased;
+}
+
+function tokenize(text: string, foldDiacritics = true): Token[] {
+  const tokens: Token[] = [];
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    tokens.push({ value: normalizeToken(match[0], foldDiacritics), start, end: start + match[0].length });
+  }
+  return tokens;
+}
+
+export function htmlToPlainText(html: string): string {
+  if (!html) return '';
+  try {
+    const $ = cheerio.load(html);
+    $('script, style, noscript, iframe').remove();
+    // Keep block boundaries so words from adjacent paragraphs don't run together
+    $('p, div, br, li, h1, h2, h3, h4, h5, h6, blockquote, tr').after(' ');
+    return $('body').text().replace(/\s+/g, ' ').trim();
+  } catch (error) {
+    return html.replace(/<[^>]*>?/gm, ' ').replace(/\s+/g, ' ').trim();
+  }
+}
+
+function parseSearchQuery(query: string, foldDiacritics = true): QueryClause[] {
+  const clauses: QueryClause[] = [];
+  const clausePattern = /"([^"]*)"?|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = clausePattern.exec(query)) !== null) {
+    if (match[1] !== undefined) {
+      const tokens = tokenize(match[1], foldDiacritics).map(t => t.value);
+      if (tokens.length === 1) clauses.push({ kind: 'term', token: tokens[0] });
+      else if (tokens.length > 1) clauses.push({ kind: 'phrase', tokens });
+      continue;
+    }
+
+    const rawWord = match[2];
+    const isPrefix = rawWord.endsWith('*');
+    const tokens = tokenize(rawWord, foldDiacritics).map(t => t.value);
+    if (tokens.length === 0) continue;
+    if (tokens.length > 1) {
+      // Hyphenated or punctuated words ("e-mail", "U.S.") behave like a phrase
+      clauses.push({ kind: 'phrase', tokens });
+    } else if (isPrefix && tokens[0].length >= MIN_PREFIX_LENGTH) {
+      clauses.push({ kind: 'prefix', token: tokens[0] });
+    } else {
+      clauses.push({ kind: 'term', token: tokens[0] });
+    }
+  }
+  return clauses;
+}
+
+/**
+ * The query as a Postgres tsquery (for to_tsquery with the 'simple' configuration), or null when
+ * it has no searchable words. Tokens only contain letters and digits, so quoting them is enough.
+ */
+export function toPostgresTsQuery(query: string): string | null {
+  const clauses = parseSearchQuery(query, false);
+  if (clauses.length === 0) return null;
+  return clauses.map(clause => {
+    if (clause.kind === 'phrase') return `(${clause.tokens.map(token => `'${token}'`).join(' <-> ')})`;
+    return clause.kind === 'prefix' ? `'${clause.token}':*` : `'${clause.token}'`;
+  }).join(' & ');
+}
+
+// Start indices (into the token array) of every occurrence of the clause in one field.
+function findClauseMatches(tokens: Token[], clause: QueryClause): number[] {
+  const positions: number[] = [];
+  for (let i = 0; i < tokens.length; i++) {
+    if (clause.kind === 'term' && tokens[i].value === clause.token) {
+      positions.push(i);
+    } else if (clause.kind === 'prefix' && tokens[i].value.startsWith(clause.token)) {
+      positions.push(i);
+    } else if (clause.kind === 'phrase' && tokens[i].value === clause.tokens[0]) {
+      const isMatch = clause.tokens.every((value, offset) => tokens[i + offset]?.value === value);
+      if (isMatch) positions.push(i);
+    }
+  }
+  return positions;
+}
+
+function clauseLength(clause: QueryClause): number {
+  return clause.kind === 'phrase' ? clause.tokens.length : 1;
+}
+
+// An excerpt of the post's text around the first match, with every match highlighted
+export function buildSearchSnippet(html: string, query: string): SearchSnippetSegment[] {
+  const bodyText = htmlToPlainText(html);
+  if (!bodyText) return [];
+
+  const bodyTokens = tokenize(bodyText);
+  const ranges: Array<[number, number]> = [];
+  for (const clause of parseSearchQuery(query)) {
+    for (const position of findClauseMatches(bodyTokens, clause)) {
+      const lastToken = bodyTokens[position + clauseLength(clause) - 1];
+      ranges.push([bodyTokens[position].start, lastToken.end]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+
+  // Centre the window on the first body match, or fall back to the opening text
+  const anchor = ranges.length > 0 ? ranges[0][0] : 0;
+  let windowStart = Math.max(0, anchor - Math.floor(SNIPPET_LENGTH / 3));
+  if (windowStart > 0) {
+    const nextSpace = bodyText.indexOf(' ', windowStart);
+    if (nextSpace !== -1 && nextSpace < anchor) windowStart = nextSpace + 1;
+  }
+  let windowEnd = Math.min(bodyText.length, windowStart + SNIPPET_LENGTH);
+  if (windowEnd < bodyText.length) {
+    const previousSpace = bodyText.lastIndexOf(' ', windowEnd);
+    if (previousSpace > windowStart) windowEnd = previousSpace;
+  }
+
+  const segments: SearchSnippetSegment[] = [];
+  if (windowStart > 0) segments.push({ text: '…', highlight: false });
+  let cursor = windowStart;
+  for (const [start, end] of ranges) {
+    if (end <= cursor || start >= windowEnd) continue;
+    const clampedStart = Math.max(start, cursor);
+    const clampedEnd = Math.min(end, windowEnd);
+    if (clampedStart > cursor) segments.push({ text: bodyText.slice(cursor, clampedStart), highlight: false });
+    segments.push({ text: bodyText.slice(clampedStart, clampedEnd), highlight: true });
+    cursor = clampedEnd;
+  }
+  if (cursor < windowEnd) segments.push({ text: bodyText.slice(cursor, windowEnd), highlight: false });
+  if (windowEnd < bodyText.length) segments.push({ text: '…', highlight: false });
+  return segments;
+}
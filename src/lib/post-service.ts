@@ -1,51 +1,42 @@
 
-import type { Post } from '@/types';
+import type { Post, PostStatus, PostSummary } from '@/types';
 import { supabase } from './supabase-client'; // Public Supabase client
-import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from './supabase-admin';
 import fs from 'fs/promises';
 import path from 'path';
+import { buildSearchSnippet, toPostgresTsQuery, type SearchSnippetSegment } from './post-search';
+
+// Expected columns on public.posts beyond the original ones:
+// status text not null default 'published' check (status in ('draft','scheduled','published','archived')),
+// publish_at timestamptz null, author_id uuid null references admin_users(id) on delete set null,
+// author_name text null, updated_at timestamptz null, seo_title text null, seo_description text null,
+// source_url text null, source_author text null, source_published_at timestamptz null,
+// search_vector tsvector generated always as (setweight(to_tsvector('simple', coalesce(title, '')), 'A')
+//   || setweight(to_tsvector('simple', array_to_string(coalesce(tags, '{}'), ' ')), 'B')
+//   || setweight(to_tsvector('simple', coalesce(content, '')), 'C')) stored, with a GIN index on it.
+// The anon RLS policy should only expose rows that isPostPubliclyVisible() accepts.
+// Search (queryPosts with `search`) goes through this function, which PostgREST lets us filter, project,
+// page and count like the table itself; it runs with the caller's rights, so RLS still applies. Its rows are
+// posts plus their rank, which queryPosts orders by (a function's own ORDER BY doesn't survive PostgREST's
+// outer query). The view only supplies that row type; security_invoker keeps it from bypassing RLS:
+//   create view public.post_search_rows with (security_invoker = true) as
+//     select p.*, 0::real as search_rank from public.posts p where false;
+//   create function public.search_posts(search_query text) returns setof public.post_search_rows language sql stable as $$
+//     select p.*, ts_rank_cd(p.search_vector, to_tsquery('simple', search_query)) from public.posts p
+//     where p.search_vector @@ to_tsquery('simple', search_query) $$;
+// Recreate both after adding a column to posts, since p.* is expanded when they are created.
+// Tag counts (getTagCounts) are aggregated by this function, so the rows behind them are never fetched:
+//   create function public.post_tag_counts() returns table (tag text, post_count bigint) language sql stable as $$
+//     select lower(t.tag), count(*) from public.posts p, unnest(p.tags) as t(tag)
+//     where p.status in ('published', 'scheduled') and p.date <= now()
+//     group by lower(t.tag) $$;
 
 // For initial data seeding from JSON if DB is empty
 const dataDir = path.join(process.cwd(), 'data');
 const postsJsonFilePath = path.join(dataDir, 'posts.json');
 let initialPostsDataLoaded = false;
 
-// Helper function to validate HTTP/HTTPS URL format for internal use
-function isValidHttpUrl(string: string | undefined | null): boolean {
-  if (!string) return false;
-  try {
-    const url = new URL(string);
-    return url.protocol === "http:" || url.protocol === "https:";
-  } catch (_) {
-    return false;
-  }
-}
-
-// Helper function to create a Supabase admin client (uses service_role key)
-function getSupabaseAdminClient(): SupabaseClient {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!supabaseUrl || supabaseUrl.trim() === '' || supabaseUrl === 'your_supabase_project_url_here' || !isValidHttpUrl(supabaseUrl)) {
-    throw new Error(
-      `CRITICAL: NEXT_PUBLIC_SUPABASE_URL is not defined, is a placeholder, or is invalid for admin client. Please check environment variables. Current value: "${supabaseUrl}"`
-    );
-  }
-  if (!supabaseServiceRoleKey || supabaseServiceRoleKey.trim() === '' || supabaseServiceRoleKey === 'your_supabase_service_role_key_here' || supabaseServiceRoleKey.length < 50) { // Basic length check
-    throw new Error(
-      `CRITICAL: SUPABASE_SERVICE_ROLE_KEY is not defined, is a placeholder, or is invalid for admin actions. Please check environment variables.`
-    );
-  }
-  return createClient(supabaseUrl, supabaseServiceRoleKey, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-      detectSessionInUrl: false
-    }
-  });
-}
-
-
 async function seedInitialPostsFromJson() {
   if (initialPostsDataLoaded) return;
 
@@ -58,7 +49,6 @@ async function seedInitialPostsFromJson() {
       // Proceed cautiously, hoping table creation might be pending or an RLS issue for count.
     }
 
-
     if (count === 0 || (countError && countError.code === '42P01')) {
       if (countError && countError.code === '42P01') {
         console.log("Posts table does not exist. Will attempt to seed which implies table creation if DDL is correct.");
@@ -78,6 +68,8 @@ async function seedInitialPostsFromJson() {
         tags: p.tags,
         thumbnail_url: p.thumbnailUrl,
         view_count: p.viewCount || 0,
+        status: p.status || 'published',
+        publish_at: p.publishAt || p.date,
       }));
 
       if (postsToInsert.length > 0) {
@@ -111,32 +103,317 @@ const mapDbRowToPost = (row: any): Post => {
     id: String(row.id), // Ensure id is a string
     thumbnailUrl: row.thumbnail_url,
     viewCount: row.view_count,
+    status: row.status || 'published', // Rows created before the status column existed were all public
+    publishAt: row.publish_at || undefined,
+    authorId: row.author_id || undefined,
+    authorName: row.author_name || undefined,
+    updatedAt: row.updated_at || undefined,
+    seoTitle: row.seo_title || undefined,
+    seoDescription: row.seo_description || undefined,
+    sourceUrl: row.source_url || undefined,
+    sourceAuthor: row.source_author || undefined,
+    sourcePublishedAt: row.source_published_at || undefined,
   } as Post;
 };
 
+// Statuses that can be visible to readers. Scheduled posts carry their go-live time in `date`,
+// so "published and due" is a status check plus `date <= now` and needs no background job.
+const PUBLIC_POST_STATUSES: PostStatus[] = ['published', 'scheduled'];
+
+export function isPostPubliclyVisible(post: Pick<Post, 'status' | 'date'>): boolean {
+  return PUBLIC_POST_STATUSES.includes(post.status) && new Date(post.date).getTime() <= Date.now();
+}
 
-export const getAllPosts = async (): Promise<Post[]> => {
+function applyPublicVisibility(query: any) {
+  return query.in('status', PUBLIC_POST_STATUSES).lte('date', new Date().toISOString());
+}
+
+// Unpublished rows are hidden from the anon key by RLS, so admin reads go through the service role client
+function getPostsReadClient(includeUnpublished: boolean): SupabaseClient {
+  return includeUnpublished ? getSupabaseAdminClient() : supabase;
+}
+
+export type PostColumn = keyof Post;
+export type PostSortField = 'date' | 'title' | 'viewCount';
+
+const POST_COLUMN_TO_DB: Record<PostColumn, string> = {
+  id: 'id',
+  slug: 'slug',
+  title: 'title',
+  date: 'date',
+  content: 'content',
+  tags: 'tags',
+  thumbnailUrl: 'thumbnail_url',
+  viewCount: 'view_count',
+  status: 'status',
+  publishAt: 'publish_at',
+  authorId: 'author_id',
+  authorName: 'author_name',
+  updatedAt: 'updated_at',
+  seoTitle: 'seo_title',
+  seoDescription: 'seo_description',
+  sourceUrl: 'source_url',
+  sourceAuthor: 'source_author',
+  sourcePublishedAt: 'source_published_at',
+};
+
+// Everything a listing needs, i.e. all columns except the HTML content
+export const POST_SUMMARY_COLUMNS = (Object.keys(POST_COLUMN_TO_DB) as PostColumn[])
+  .filter((column): column is Exclude<PostColumn, 'content'> => column !== 'content');
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+export interface PostQueryOptions<C extends PostColumn = PostColumn> {
+  limit?: number; // Defaults to 20, capped at 100. 0 returns only the total.
+  offset?: number; // Ignored when a cursor is given
+  cursor?: string | null; // `nextCursor` from the previous page, for keyset pagination
+  sort?: PostSortField; // Defaults to relevance when searching, otherwise 'date'
+  order?: 'asc' | 'desc'; // Defaults to 'desc'
+  tag?: string;
+  search?: string; // Full-text search over title, tags and body; see post-search.ts for the syntax
+  columns?: C[]; // Defaults to every column, including the full HTML content
+  includeUnpublished?: boolean; // Admin listings: also return drafts, scheduled and archived posts
+  status?: PostStatus;
+  authorId?: string;
+}
+
+export interface PostPage<T> {
+  posts: T[];
+  total: number; // Rows matching the filters, across all pages
+  nextCursor: string | null;
+}
+
+interface PostCursor {
+  value: string | number;
+  id: string;
+}
+
+function encodePostCursor(cursor: PostCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodePostCursor(rawCursor: string): PostCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(rawCursor, 'base64url').toString('utf-8'));
+    if (cursor && typeof cursor.id === 'string' && (typeof cursor.value === 'string' || typeof cursor.value === 'number')) {
+      return cursor;
+    }
+  } catch (_) {
+    // Fall through: a malformed cursor is treated like no cursor
+  }
+  return null;
+}
+
+// Quotes a value for use inside a PostgREST `or=(...)` filter, where commas and parentheses are reserved
+function quoteFilterValue(value: string | number): string {
+  return `"${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Paged post listing. Filtering, searching, sorting, projection and counting all happen in
+ * the database, so the cost of a page does not grow with the size of the archive.
+ * Use `offset` for numbered pages or `cursor` for "load more" style paging; the cursor
+ * stays stable while posts are being added. Search results ranked by relevance (no `sort`)
+ * only page by offset.
+ */
+export const queryPosts = async <C extends PostColumn = PostColumn>(
+  options: PostQueryOptions<C> = {}
+): Promise<PostPage<Pick<Post, C>>> => {
   await seedInitialPostsFromJson();
 
-  const { data, error } = await supabase // public client for reads
-    .from('posts')
-    .select('*')
-    .order('date', { ascending: false });
+  const searchTerm = options.search?.trim();
+  const tsQuery = searchTerm ? toPostgresTsQuery(searchTerm) : null;
+  if (searchTerm && !tsQuery) {
+    return { posts: [], total: 0, nextCursor: null }; // Nothing but punctuation, which matches nothing
+  }
+  const rankByRelevance = !!tsQuery && !options.sort;
+
+  const limit = Math.min(Math.max(options.limit ?? DEFAULT_PAGE_SIZE, 0), MAX_PAGE_SIZE);
+  const offset = Math.max(options.offset ?? 0, 0);
+  const sortColumn = POST_COLUMN_TO_DB[options.sort ?? 'date'];
+  const ascending = options.order === 'asc';
+  const cursor = options.cursor && !rankByRelevance ? decodePostCursor(options.cursor) : null;
+
+  // id and the sort column are always selected because the next cursor is built from them
+  const requestedColumns = options.columns ? options.columns.map(column => POST_COLUMN_TO_DB[column]) : ['*'];
+  const selectColumns = options.columns
+    ? Array.from(new Set(['id', sortColumn, ...requestedColumns])).join(', ')
+    : '*';
+
+  const client = getPostsReadClient(!!options.includeUnpublished);
+  // Searches read from search_posts(), which adds each matching row's search_rank
+  const selectPosts = (columns: string, selectOptions: { count?: 'exact'; head?: boolean }): any => tsQuery
+    ? client.rpc('search_posts', { search_query: tsQuery }, selectOptions).select(columns)
+    : client.from('posts').select(columns, selectOptions);
+  const applyFilters = (query: any) => {
+    if (!options.includeUnpublished) {
+      query = applyPublicVisibility(query);
+    }
+    if (options.status) {
+      query = query.eq('status', options.status);
+    }
+    if (options.authorId) {
+      query = query.eq('author_id', options.authorId);
+    }
+    if (options.tag) {
+      query = query.contains('tags', [options.tag.toLowerCase()]); // Tags are stored lowercased by the post actions
+    }
+    return query;
+  };
 
-  if (error) {
-    console.error('Error fetching posts:', JSON.stringify(error, null, 2));
-    return [];
+  if (limit === 0) {
+    const { count, error } = await applyFilters(selectPosts('id', { count: 'exact', head: true }));
+    if (error) {
+      console.error('Error counting posts:', JSON.stringify(error, null, 2));
+    }
+    return { posts: [], total: count ?? 0, nextCursor: null };
+  }
+
+  // With a cursor the page query only sees rows after it, so the total is counted separately
+  let pageQuery = applyFilters(selectPosts(selectColumns, { count: cursor ? undefined : 'exact' }));
+  if (cursor) {
+    const comparison = ascending ? 'gt' : 'lt';
+    const value = quoteFilterValue(cursor.value);
+    pageQuery = pageQuery.or(
+      `${sortColumn}.${comparison}.${value},and(${sortColumn}.eq.${value},id.${comparison}.${quoteFilterValue(cursor.id)})`
+    );
   }
-  return data.map(mapDbRowToPost);
+  if (rankByRelevance) {
+    pageQuery = pageQuery
+      .order('search_rank', { ascending: false })
+      .order('date', { ascending: false })
+      .order('id', { ascending: false }); // Tie-breaker, so equally ranked rows keep their place across pages
+  } else {
+    pageQuery = pageQuery
+      .order(sortColumn, { ascending })
+      .order('id', { ascending }); // Tie-breaker, so rows with the same sort value keep a stable order
+  }
+  pageQuery = pageQuery.range(cursor ? 0 : offset, (cursor ? 0 : offset) + limit - 1);
+
+  const [pageResult, countResult] = await Promise.all([
+    pageQuery,
+    cursor ? applyFilters(selectPosts('id', { count: 'exact', head: true })) : Promise.resolve(null),
+  ]);
+
+  if (pageResult.error) {
+    console.error('Error querying posts:', JSON.stringify(pageResult.error, null, 2));
+    return { posts: [], total: 0, nextCursor: null };
+  }
+
+  const rows: any[] = pageResult.data || [];
+  const total = (cursor ? countResult?.count : pageResult.count) ?? rows.length;
+  const lastRow = rows[rows.length - 1];
+  const hasMore = rows.length === limit && (cursor ? true : offset + rows.length < total);
+
+  return {
+    posts: rows.map(mapDbRowToPost) as Pick<Post, C>[],
+    total,
+    nextCursor: hasMore && lastRow && !rankByRelevance ? encodePostCursor({ value: lastRow[sortColumn], id: String(lastRow.id) }) : null,
+  };
 };
 
-export const getPostBySlug = async (slug: string): Promise<Post | undefined> => {
+const TAG_COUNTS_BATCH_SIZE = 1000; // Supabase's default cap on rows per response
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// Number of posts per tag, most used first (ties alphabetical). Counted in the database by post_tag_counts();
+// the rows come back in batches, like the sitemap's, since an archive can have more tags than one response holds.
+export const getTagCounts = async (): Promise<TagCount[]> => {
   await seedInitialPostsFromJson();
-  const { data, error } = await supabase
+
+  const tagCounts: TagCount[] = [];
+  for (;;) {
+    const { data, error } = await supabase
+      .rpc('post_tag_counts')
+      .order('post_count', { ascending: false })
+      .order('tag', { ascending: true })
+      .range(tagCounts.length, tagCounts.length + TAG_COUNTS_BATCH_SIZE - 1);
+
+    if (error) {
+      console.error('Error fetching tags:', JSON.stringify(error, null, 2));
+      return tagCounts;
+    }
+    tagCounts.push(...data.map((row: any) => ({ tag: String(row.tag), count: Number(row.post_count) })));
+    if (data.length < TAG_COUNTS_BATCH_SIZE) return tagCounts;
+  }
+};
+
+export type PostSitemapEntry = Pick<Post, 'slug' | 'date' | 'updatedAt'>;
+
+// Supabase returns at most 1000 rows per request by default, so longer ranges are read in batches
+const SITEMAP_BATCH_SIZE = 1000;
+
+/**
+ * Slugs and modification times of publicly visible posts, oldest first so that new posts
+ * only ever append to the last page. Unlike queryPosts this is not capped at 100 rows,
+ * since a sitemap file lists thousands of posts.
+ */
+export const getPostSitemapEntries = async (offset: number, limit: number): Promise<PostSitemapEntry[]> => {
+  await seedInitialPostsFromJson();
+
+  const entries: PostSitemapEntry[] = [];
+  while (entries.length < limit) {
+    const batchStart = offset + entries.length;
+    const batchSize = Math.min(SITEMAP_BATCH_SIZE, limit - entries.length);
+    const { data, error } = await applyPublicVisibility(
+      supabase
+        .from('posts')
+        .select('id, slug, date, updated_at')
+    )
+      .order('date', { ascending: true })
+      .order('id', { ascending: true })
+      .range(batchStart, batchStart + batchSize - 1);
+
+    if (error) {
+      console.error('Error fetching posts for the sitemap:', JSON.stringify(error, null, 2));
+      break;
+    }
+    entries.push(...data.map((row: any) => ({ slug: row.slug, date: row.date, updatedAt: row.updated_at || undefined })));
+    if (data.length < batchSize) break;
+  }
+  return entries;
+};
+
+export interface PostSearchResult {
+  post: PostSummary;
+  snippet: SearchSnippetSegment[];
+}
+
+/**
+ * One page of the site search, best match first, each with a highlighted excerpt. Only the
+ * page's own rows are fetched with their content, which the excerpts are cut from.
+ * Supports `word*` prefixes and `"quoted phrases"`; see post-search.ts for the query syntax.
+ */
+export const searchPosts = async (query: string, page: { limit: number; offset: number }): Promise<{ results: PostSearchResult[]; total: number }> => {
+  if (!query.trim()) return { results: [], total: 0 };
+
+  const { posts, total } = await queryPosts({
+    search: query,
+    limit: page.limit,
+    offset: page.offset,
+    columns: [...POST_SUMMARY_COLUMNS, 'content'],
+  });
+  return {
+    results: posts.map(({ content, ...post }) => ({ post, snippet: buildSearchSnippet(content, query) })),
+    total,
+  };
+};
+
+// Only returns drafts, scheduled and archived posts when `includeUnpublished` is set (admin preview)
+export const getPostBySlug = async (slug: string, options: { includeUnpublished?: boolean } = {}): Promise<Post | undefined> => {
+  await seedInitialPostsFromJson();
+  let query = getPostsReadClient(!!options.includeUnpublished)
     .from('posts')
     .select('*')
-    .eq('slug', slug)
-    .single();
+    .eq('slug', slug);
+  if (!options.includeUnpublished) {
+    query = applyPublicVisibility(query);
+  }
+  const { data, error } = await query.single();
 
   if (error) {
     if (error.code === 'PGRST116') return undefined; // Row not found, not an "error" for this function's purpose
@@ -146,9 +423,17 @@ export const getPostBySlug = async (slug: string): Promise<Post | undefined> =>
   return data ? mapDbRowToPost(data) : undefined;
 };
 
+// Any status. Used by the admin pages and server actions, so it reads with the service role client.
 export const getPostById = async (id: string): Promise<Post | undefined> => {
   await seedInitialPostsFromJson();
-  const { data, error } = await supabase
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in getPostById:', e.message);
+    return undefined;
+  }
+  const { data, error } = await adminSupabase
     .from('posts')
     .select('*')
     .eq('id', id) // Supabase client handles string ID for UUID/numeric comparison correctly
@@ -192,7 +477,7 @@ function formatSupabaseError(supabaseError: any): string {
   return "Supabase database operation failed. The Supabase client returned minimal error details. CRITICAL: Inspect server logs for the raw Supabase error. This often indicates: 1. An incorrect or missing SUPABASE_SERVICE_ROLE_KEY. 2. A database constraint violation (e.g., duplicate slug, missing required field). 3. The 'posts' table or required SQL functions are not correctly set up in your Supabase project.";
 }
 
-export const addPost = async (newPostData: Omit<Post, 'id' | 'date' | 'viewCount'> & { viewCount?: number }): Promise<Post> => {
+export const addPost = async (newPostData: Omit<Post, 'id' | 'date' | 'viewCount'> & { viewCount?: number; date?: string }): Promise<Post> => {
   let adminSupabase: SupabaseClient;
   try {
     adminSupabase = getSupabaseAdminClient();
@@ -208,8 +493,17 @@ export const addPost = async (newPostData: Omit<Post, 'id' | 'date' | 'viewCount
     content: newPostData.content,
     tags: newPostData.tags,
     thumbnail_url: newPostData.thumbnailUrl,
-    date: new Date().toISOString(),
+    date: newPostData.date || new Date().toISOString(),
     view_count: newPostData.viewCount || 0,
+    status: newPostData.status,
+    publish_at: newPostData.publishAt || null,
+    author_id: newPostData.authorId || null,
+    author_name: newPostData.authorName || null,
+    seo_title: newPostData.seoTitle || null,
+    seo_description: newPostData.seoDescription || null,
+    source_url: newPostData.sourceUrl || null,
+    source_author: newPostData.sourceAuthor || null,
+    source_published_at: newPostData.sourcePublishedAt || null,
   };
 
   const { data, error } = await adminSupabase
@@ -229,7 +523,7 @@ export const addPost = async (newPostData: Omit<Post, 'id' | 'date' | 'viewCount
   return mapDbRowToPost(data);
 };
 
-export const updatePost = async (postId: string, updatedPostData: Partial<Omit<Post, 'id' | 'date'>>): Promise<Post | undefined> => {
+export const updatePost = async (postId: string, updatedPostData: Partial<Omit<Post, 'id'>>): Promise<Post | undefined> => {
   let adminSupabase: SupabaseClient;
    try {
     adminSupabase = getSupabaseAdminClient();
@@ -245,12 +539,25 @@ export const updatePost = async (postId: string, updatedPostData: Partial<Omit<P
   if (updatedPostData.tags !== undefined) postToUpdate.tags = updatedPostData.tags;
   if (updatedPostData.hasOwnProperty('thumbnailUrl')) postToUpdate.thumbnail_url = updatedPostData.thumbnailUrl; // Allow setting to null
   if (updatedPostData.viewCount !== undefined) postToUpdate.view_count = updatedPostData.viewCount;
-
+  if (updatedPostData.date !== undefined) postToUpdate.date = updatedPostData.date;
+  if (updatedPostData.status !== undefined) postToUpdate.status = updatedPostData.status;
+  if (updatedPostData.hasOwnProperty('publishAt')) postToUpdate.publish_at = updatedPostData.publishAt || null;
+  if (updatedPostData.hasOwnProperty('authorId')) postToUpdate.author_id = updatedPostData.authorId || null;
+  if (updatedPostData.hasOwnProperty('authorName')) postToUpdate.author_name = updatedPostData.authorName || null;
+  if (updatedPostData.hasOwnProperty('seoTitle')) postToUpdate.seo_title = updatedPostData.seoTitle || null;
+  if (updatedPostData.hasOwnProperty('seoDescription')) postToUpdate.seo_description = updatedPostData.seoDescription || null;
+  if (updatedPostData.hasOwnProperty('sourceUrl')) postToUpdate.source_url = updatedPostData.sourceUrl || null;
+  if (updatedPostData.hasOwnProperty('sourceAuthor')) postToUpdate.source_author = updatedPostData.sourceAuthor || null;
+  if (updatedPostData.hasOwnProperty('sourcePublishedAt')) postToUpdate.source_published_at = updatedPostData.sourcePublishedAt || null;
 
   if (Object.keys(postToUpdate).length === 0) {
     console.warn('updatePost called with no fields to update for postId:', postId);
     return getPostById(postId); // Return current post data if no updates
   }
+  // View counts change on every read, so they don't count as an edit for sitemaps and feeds
+  if (Object.keys(postToUpdate).some(column => column !== 'view_count')) {
+    postToUpdate.updated_at = new Date().toISOString();
+  }
 
   const { data, error } = await adminSupabase
     .from('posts')
@@ -292,6 +599,20 @@ export const deletePostById = async (postId: string): Promise<void> => {
   }
 };
 
+// Keeps the denormalized author name on a user's posts in step with their display name
+export const renamePostAuthor = async (authorId: string, authorName: string): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { error } = await adminSupabase
+    .from('posts')
+    .update({ author_name: authorName })
+    .eq('author_id', authorId);
+
+  if (error) {
+    console.error('Error renaming post author (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not update the author name on posts. ${formatSupabaseError(error)}`);
+  }
+};
+
 export const incrementViewCount = async (postId: string): Promise<number | null> => {
   if (!postId) {
     console.warn('[ViewCounter] Attempted to increment view count with no postId. This is a bug in the calling code.');
@@ -326,7 +647,6 @@ export const incrementViewCount = async (postId: string): Promise<number | null>
   // The fix here ensures `postId` coming from `Post` objects is always string.
   const { data, error } = await adminSupabase.rpc('increment_post_view_count', { post_id_arg: postId });
 
-
   if (error) {
     console.warn(
         `[ViewCounter] Supabase RPC error while incrementing view count for postId '${postId}'.\n` +
@@ -366,7 +686,6 @@ export const incrementViewCount = async (postId: string): Promise<number | null>
   }
 };
 
-
 if (typeof window === 'undefined') {
   // Seeding is deferred to the first data access call
 }
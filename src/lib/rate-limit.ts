@@ -0,0 +1,35 @@
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+export interface SlidingWindowLimiter {
+  // Records one event for `key` (usually an IP address) and returns how many it had in the window, this one included
+  recordAndCount(key: string): number;
+}
+
+// Event timestamps per key, kept in memory, so limits apply per server instance.
+// Keys with nothing left in the window are swept out every few minutes.
+export function createSlidingWindowLimiter(windowMs: number): SlidingWindowLimiter {
+  const timestampsByKey = new Map<string, number[]>();
+  let lastSweepAt = 0;
+
+  function sweepExpiredKeys(now: number) {
+    if (now - lastSweepAt < SWEEP_INTERVAL_MS) return;
+    lastSweepAt = now;
+    for (const [key, timestamps] of timestampsByKey) {
+      // Timestamps are appended in order, so the last one is the newest
+      if (now - timestamps[timestamps.length - 1] >= windowMs) {
+        timestampsByKey.delete(key);
+      }
+    }
+  }
+
+  return {
+    recordAndCount(key: string): number {
+      const now = Date.now();
+      sweepExpiredKeys(now);
+      const timestamps = (timestampsByKey.get(key) || []).filter(t => now - t < windowMs);
+      timestamps.push(now);
+      timestampsByKey.set(key, timestamps);
+      return timestamps.length;
+    },
+  };
+}
@@ -0,0 +1,114 @@
+
+import type { PostRevision } from '@/types';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseErrorFormatter, getSupabaseAdminClient } from './supabase-admin';
+
+// Expected table: public.post_revisions (id uuid default gen_random_uuid(), post_id uuid references posts(id) on delete cascade,
+// title text, slug text, content text, tags text[], status text, author text, created_at timestamptz default now(), note text null)
+// Admin-only: no anon RLS policy is needed, every query goes through the service role client.
+
+export const MAX_REVISIONS_LISTED = 50; // Older revisions are kept in the table but not offered in the editor
+
+const formatSupabaseError = createSupabaseErrorFormatter({ table: 'post_revisions' });
+
+const mapDbRowToRevision = (row: any): PostRevision => {
+  return {
+    id: String(row.id),
+    postId: String(row.post_id),
+    title: row.title,
+    slug: row.slug,
+    content: row.content,
+    tags: row.tags || [],
+    status: row.status || 'published',
+    author: row.author,
+    createdAt: row.created_at,
+    note: row.note || undefined,
+  };
+};
+
+// Most recent revisions of a post, newest first
+export const getRevisionsByPostId = async (postId: string, limit: number = MAX_REVISIONS_LISTED): Promise<PostRevision[]> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in getRevisionsByPostId:', e.message);
+    return [];
+  }
+
+  const { data, error } = await adminSupabase
+    .from('post_revisions')
+    .select('*')
+    .eq('post_id', postId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    console.error('Error fetching post revisions:', JSON.stringify(error, null, 2));
+    return [];
+  }
+  return data.map(mapDbRowToRevision);
+};
+
+export const getRevisionById = async (revisionId: string): Promise<PostRevision | undefined> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { data, error } = await adminSupabase
+    .from('post_revisions')
+    .select('*')
+    .eq('id', revisionId)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return undefined; // Row not found
+    console.error('Error fetching post revision by ID:', JSON.stringify(error, null, 2));
+    return undefined;
+  }
+  return data ? mapDbRowToRevision(data) : undefined;
+};
+
+export const addRevision = async (revision: Omit<PostRevision, 'id' | 'createdAt'>): Promise<PostRevision> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in addRevision:', e.message);
+    throw new Error(`Configuration error preventing revision snapshot: ${e.message}`);
+  }
+
+  const { data, error } = await adminSupabase
+    .from('post_revisions')
+    .insert({
+      post_id: revision.postId,
+      title: revision.title,
+      slug: revision.slug,
+      content: revision.content,
+      tags: revision.tags,
+      status: revision.status,
+      author: revision.author,
+      note: revision.note || null,
+      created_at: new Date().toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error adding post revision (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not save revision. ${formatSupabaseError(error)}`);
+  }
+  return mapDbRowToRevision(data);
+};
+
+// Whether a post has any stored revision yet, so the first edit can also keep the original version
+export const hasRevisions = async (postId: string): Promise<boolean> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { count, error } = await adminSupabase
+    .from('post_revisions')
+    .select('id', { count: 'exact', head: true })
+    .eq('post_id', postId);
+
+  if (error) {
+    console.error('Error counting post revisions:', JSON.stringify(error, null, 2));
+    return true; // Assume yes, so a lookup failure never duplicates the baseline snapshot
+  }
+  return (count ?? 0) > 0;
+};
@@ -0,0 +1,180 @@
+import axios from 'axios';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+
+/**
+ * Server-side fetching of URLs supplied by users (the post scraper), guarded against SSRF:
+ * - only http(s) on the default ports, without credentials in the URL;
+ * - the host must pass the site's domain allowlist/denylist (see settings);
+ * - every address a host resolves to must be public. The check runs inside the socket's DNS
+ *   lookup, so the address that is checked is the one connected to, and it is repeated for
+ *   every redirect, which are followed here one hop at a time;
+ * - responses are capped in size and must have one of the expected content types.
+ */
+
+const ALLOWED_PROTOCOLS = ['http:', 'https:'];
+const ALLOWED_PORTS = ['', '80', '443']; // '' is the scheme's default port
+const MAX_REDIRECTS = 5;
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept-Language': 'en-US,en;q=0.5',
+};
+
+// Loopback, private, link-local, shared (CGNAT), documentation, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv4'));
+// IPv4-mapped IPv6 addresses (::ffff:127.0.0.1) are matched against the IPv4 ranges by BlockList itself
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32],
+  ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address as string, prefix as number, 'ipv6'));
+
+export interface FetchPolicy {
+  allowedDomains: string[]; // Empty allows every (public) host
+  blockedDomains: string[];
+  allowedContentTypes: string[]; // MIME types, e.g. "text/html"
+  maxBytes: number;
+  timeoutMs: number;
+}
+
+export interface FetchedResource {
+  url: string; // After redirects
+  contentType: string; // MIME type without parameters
+  data: Buffer;
+}
+
+// A URL or response the policy refuses; the message is safe to show to the user
+export class FetchPolicyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FetchPolicyError';
+  }
+}
+
+// Domain list from settings: one per line or comma-separated; "example.com" also covers its subdomains
+export function parseDomainList(rawList: string | undefined): string[] {
+  if (!rawList) return [];
+  return rawList
+    .split(/[\n,]/)
+    .map(entry => entry.trim().toLowerCase().replace(/^[a-z][a-z0-9+.-]*:\/\//, '').replace(/^\*?\./, '').split(/[/:]/)[0])
+    .filter(Boolean);
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(domain => hostname === domain || hostname.endsWith(`.${domain}`));
+}
+
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+// Used as the sockets' DNS lookup, so a host can't pass the check and then resolve elsewhere on connect
+const guardedLookup: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, '', 0);
+      return;
+    }
+    const blocked = addresses.find(({ address }) => !isPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      callback(new FetchPolicyError(`${hostname} resolves to a private or reserved address, which can't be fetched.`), '', 0);
+      return;
+    }
+    if (options.all) {
+      (callback as (error: NodeJS.ErrnoException | null, addresses: dns.LookupAddress[]) => void)(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+};
+
+const httpAgent = new http.Agent({ lookup: guardedLookup });
+const httpsAgent = new https.Agent({ lookup: guardedLookup });
+
+function checkUrl(rawUrl: string, policy: FetchPolicy, base?: URL): URL {
+  let url: URL;
+  try {
+    url = new URL(rawUrl, base);
+  } catch {
+    throw new FetchPolicyError('Invalid URL format.');
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(url.protocol)) {
+    throw new FetchPolicyError('Only http and https URLs can be fetched.');
+  }
+  if (!ALLOWED_PORTS.includes(url.port)) {
+    throw new FetchPolicyError(`Port ${url.port} is not allowed; only the standard http and https ports are.`);
+  }
+  if (url.username || url.password) {
+    throw new FetchPolicyError('URLs with credentials are not allowed.');
+  }
+
+  const hostname = url.hostname.toLowerCase().replace(/\.$/, '');
+  const literalAddress = hostname.replace(/^\[(.*)\]$/, '$1');
+  // Sockets skip the DNS lookup for IP literals, so those are checked here
+  if (net.isIP(literalAddress) && !isPublicAddress(literalAddress)) {
+    throw new FetchPolicyError(`${hostname} is a private or reserved address, which can't be fetched.`);
+  }
+  if (matchesDomain(hostname, policy.blockedDomains)) {
+    throw new FetchPolicyError(`${hostname} is on this site's list of blocked domains.`);
+  }
+  if (policy.allowedDomains.length > 0 && !matchesDomain(hostname, policy.allowedDomains)) {
+    throw new FetchPolicyError(`${hostname} is not on this site's list of allowed domains.`);
+  }
+  return url;
+}
+
+/**
+ * GETs `rawUrl` under `policy`. Throws FetchPolicyError when the policy refuses a URL (including
+ * a redirect target) or the response, and axios errors for HTTP and network failures.
+ */
+export async function fetchWithPolicy(rawUrl: string, policy: FetchPolicy): Promise<FetchedResource> {
+  let url = checkUrl(rawUrl, policy);
+
+  for (let redirects = 0; ; redirects++) {
+    let response;
+    try {
+      response = await axios.get<ArrayBuffer>(url.href, {
+        headers: { ...REQUEST_HEADERS, Accept: policy.allowedContentTypes.join(', ') },
+        responseType: 'arraybuffer',
+        timeout: policy.timeoutMs,
+        maxContentLength: policy.maxBytes,
+        maxRedirects: 0, // Followed below so each hop is checked
+        validateStatus: status => status < 400,
+        proxy: false,
+        httpAgent,
+        httpsAgent,
+      });
+    } catch (error: any) {
+      if (error?.cause instanceof FetchPolicyError) throw error.cause;
+      if (axios.isAxiosError(error) && error.message.includes('maxContentLength')) {
+        throw new FetchPolicyError(`The response is larger than the ${Math.round(policy.maxBytes / (1024 * 1024))}MB limit.`);
+      }
+      throw error;
+    }
+
+    const location = response.headers.location;
+    if (response.status >= 300 && typeof location === 'string' && location) {
+      if (redirects >= MAX_REDIRECTS) {
+        throw new FetchPolicyError('Too many redirects.');
+      }
+      url = checkUrl(location, policy, url);
+      continue;
+    }
+
+    const contentType = String(response.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+    if (!policy.allowedContentTypes.includes(contentType)) {
+      throw new FetchPolicyError(`Unexpected content type "${contentType || 'none'}"; expected ${policy.allowedContentTypes.join(' or ')}.`);
+    }
+    return { url: url.href, contentType, data: Buffer.from(response.data) };
+  }
+}
@@ -0,0 +1,29 @@
+import type { ScraperHookName } from '@/types';
+
+/**
+ * Names and descriptions of the post-processing hooks site rules can turn on. Hooks are fixed
+ * steps implemented in lib/scraper rather than code stored with the rule, so editing rules never
+ * runs anything on the server. Kept free of cheerio so the admin editor can import it.
+ */
+
+export const SCRAPER_HOOK_NAMES: ScraperHookName[] = ['lazy-images', 'strip-links', 'strip-inline-styles', 'drop-leading-heading', 'unwrap-layout'];
+
+export const SCRAPER_HOOK_LABELS: Record<ScraperHookName, string> = {
+  'lazy-images': 'Load lazy images',
+  'strip-links': 'Remove links',
+  'strip-inline-styles': 'Remove inline styles',
+  'drop-leading-heading': 'Drop leading heading',
+  'unwrap-layout': 'Unwrap layout elements',
+};
+
+export const SCRAPER_HOOK_DESCRIPTIONS: Record<ScraperHookName, string> = {
+  'lazy-images': 'Copies data-src, data-lazy-src and data-srcset into src/srcset, for sites that load images with JavaScript.',
+  'strip-links': 'Replaces links with their text, for sites that link every other word to their own tag pages.',
+  'strip-inline-styles': 'Removes style attributes so the post uses this site\'s typography.',
+  'drop-leading-heading': 'Removes a heading at the very start of the content, for sites that repeat the title inside the article.',
+  'unwrap-layout': 'Replaces div and span wrappers with their contents, keeping paragraphs, lists, images and embeds.',
+};
+
+export function isScraperHookName(value: string): value is ScraperHookName {
+  return (SCRAPER_HOOK_NAMES as string[]).includes(value);
+}
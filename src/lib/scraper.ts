@@ -0,0 +1,687 @@
+import type { ScrapeConfidence, ScraperHookName, ScraperSiteRule, SiteSettings } from '@/types';
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import type { Cheerio, CheerioAPI } from 'cheerio';
+import { FetchPolicyError, fetchWithPolicy, parseDomainList, type FetchPolicy } from './safe-fetch';
+import { findSiteRuleForHostname } from './site-rule-service';
+
+/**
+ * Article extraction for the post importer (/api/scrape) and the site rules tester in the admin.
+ * A page is matched to the site rule for its host (see site-rule-service), whose selectors are
+ * tried before the built-in ones below; its hooks then post-process the extracted content.
+ * Pages without a rule, or whose rule matches nothing, use the built-in selectors alone, and
+ * when those don't find an article either, the element with the densest text is taken instead.
+ * Every extraction is scored for how likely it is to be the whole article and nothing else.
+ * Attribution (author, publication date, canonical URL and tags) comes from the page's JSON-LD
+ * article data, falling back to the usual meta tags. Images in the imported content can then be
+ * copied to the site's own storage (rehostContentImagesAction), using the helpers at the end.
+ */
+
+const MAX_PAGE_SIZE = 5 * 1024 * 1024; // 5MB of HTML
+const MAX_IMAGE_SIZE = 5 * 1024 * 1024; // Same limit as uploaded thumbnails
+const PAGE_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+const IMAGE_CONTENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif'];
+
+// Built-in selectors match content with at least this much HTML; a rule's own selectors are trusted as is
+const MIN_CONTENT_LENGTH = 200;
+const MIN_IMAGE_DIMENSION = 50; // Smaller images are icons, avatars and spacers
+
+// Density scoring, after Readability: each paragraph adds to its parent's score (and half as much
+// to its grandparent's) by length and comma count; class and id names nudge the score up or down,
+// and the share of text inside links is discounted at the end
+const MIN_PARAGRAPH_LENGTH = 25;
+const POSITIVE_CANDIDATE_PATTERN = /article|body|content|entry|main|page|post|story|text/i;
+const NEGATIVE_CANDIDATE_PATTERN = /banner|comment|footer|masthead|menu|meta|nav|promo|related|share|sidebar|social|sponsor|widget|(^|[-_\s])ads?([-_\s]|$)/i;
+const NON_CANDIDATE_SELECTORS = 'script, style, noscript, template, nav, header, footer, aside, form, iframe';
+
+// Confidence: full marks for text length and paragraph count at these values, none for links
+// once they make up half the text. How the content was found caps the score: a page body
+// that had to be imported whole can never rate better than "low".
+const CONFIDENT_TEXT_LENGTH = 1500;
+const CONFIDENT_PARAGRAPH_COUNT = 5;
+const MAX_LINK_DENSITY = 0.5;
+const HIGH_CONFIDENCE_SCORE = 0.7;
+const MEDIUM_CONFIDENCE_SCORE = 0.45;
+// Below these, the editor is told why
+const SHORT_TEXT_LENGTH = 500;
+const FEW_PARAGRAPHS = 3;
+const HIGH_LINK_DENSITY = 0.3;
+
+const DEFAULT_CONTENT_SELECTORS = [
+  'article .post-content',
+  'article .entry-content',
+  'article .article-content',
+  'article .story-content',
+  'article',
+  '.post-content',
+  '.entry-content',
+  '.article-body',
+  '.story-body',
+  '#main-content',
+  '#articleBody',
+  '[itemprop="articleBody"]',
+  '[role="main"] .content',
+  '[role="main"]',
+];
+
+const DEFAULT_TITLE_SELECTORS = [
+  'meta[property="og:title"]',
+  'meta[name="twitter:title"]',
+  'head title',
+  'h1',
+  '.post-title',
+  '.entry-title',
+];
+
+const DEFAULT_IMAGE_SELECTORS = [
+  'meta[property="og:image"]',
+  'meta[name="twitter:image"]',
+  'article img',
+  '.featured-image img',
+  '#content img',
+];
+
+// schema.org types whose JSON-LD describes the article itself
+const ARTICLE_JSON_LD_TYPES = ['Article', 'NewsArticle', 'BlogPosting', 'ReportageNewsArticle', 'AnalysisNewsArticle', 'OpinionNewsArticle', 'TechArticle'];
+const AUTHOR_META_SELECTORS = ['meta[name="author"]', 'meta[property="article:author"]', 'meta[name="parsely-author"]', 'meta[name="sailthru.author"]'];
+const PUBLISHED_TIME_META_SELECTORS = ['meta[property="article:published_time"]', 'meta[itemprop="datePublished"]', 'meta[name="parsely-pub-date"]', 'meta[name="pubdate"]'];
+const MAX_SCRAPED_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+// Page furniture removed from extracted content unless a rule turns it off
+const DEFAULT_REMOVE_SELECTORS = [
+  'script', 'style', 'noscript', 'iframe', 'header', 'footer', 'nav', 'aside',
+  '.sidebar', '.comments', '.comment-form', '.comment-respond', '#comments', '#respond',
+  '.related-posts', '.related_posts',
+  '.ad', '.ads', '.advert', '.advertisement',
+  '[class*="ad-"]', '[id*="ad-"]',
+  '[class*="-ad"]', '[id*="-ad"]',
+  '[class*="adsbygoogle"]',
+  '[class*="advertis"]', '[id*="advertis"]',
+  '[class*="sponsor"]', '[id*="sponsor"]',
+  '[class*="promo"]', '[id*="promo"]',
+  '[class*="widget"]', '[id*="widget"]',
+  '.social-share', '.social-links', '.share-buttons',
+  '.author-bio', '.author-box',
+  'form',
+  '[aria-hidden="true"]',
+  '.sr-only', '.screen-reader-text',
+  '[class*="nav"]', '[id*="nav"]',
+  '[class*="menu"]', '[id*="menu"]',
+  '[style*="display:none"]', '[style*="display: none"]',
+  '[style*="visibility:hidden"]', '[style*="visibility: hidden"]',
+  '[id*="cookie"]', '[class*="cookie"]',
+  '[id*="gdpr"]', '[class*="gdpr"]',
+  '[id*="popup"]', '[class*="popup"]', '[class*="modal"]', '[id*="modal"]',
+  '.header', '.footer', '.site-header', '.site-footer', '.main-nav', '.primary-nav', '.secondary-nav',
+  '.breadcrumb', '.breadcrumbs', '.pagination', '.pager', '.subnav', '.flyout', '.dropdown',
+  '.skip-link', '.skip-to-content', '.overlay', '.lightbox', '.banner', '.alert', '.notice',
+  '.social', '.sharing', '.tools', '.actions', '.meta', '.entry-meta', '.post-meta',
+  '.byline', '.author', '.timestamp', '.date', '.categories', '.tags', '.related',
+  '#header', '#footer', '#sidebar', '#navigation', '#comments-section',
+  'figure > figcaption',
+  'dialog',
+].join(', ');
+
+// The parts of a site rule that affect extraction; the tester passes unsaved ones
+export type ExtractionRule = Omit<ScraperSiteRule, 'id' | 'notes' | 'updatedAt'>;
+
+// A selector from the site rule or the built-in list, the density scorer, or the whole page body
+export type ExtractionMethod = 'selector' | 'density' | 'body';
+
+const METHOD_CONFIDENCE: Record<ExtractionMethod, number> = { selector: 1, density: 0.85, body: 0.4 };
+
+// Attribution for the imported post; anything the page doesn't state is left out
+export interface ArticleMetadata {
+  author?: string;
+  publishedAt?: string; // ISO string
+  canonicalUrl?: string;
+  tags: string[];
+}
+
+export interface ExtractedArticle {
+  title: string;
+  content: string;
+  imageUrl?: string;
+  metadata: ArticleMetadata;
+  method: ExtractionMethod;
+  contentSelector: string; // The selector the content came from, a description of the element the scorer picked, or "body"
+  confidence: ScrapeConfidence;
+}
+
+export interface ScrapedArticle extends ExtractedArticle {
+  url: string; // After redirects
+  ruleHostname?: string; // The site rule that was applied, if any
+}
+
+// Post-processing hooks (see lib/scraper-hooks for what each one is for), run on the extracted content
+const SCRAPER_HOOKS: Record<ScraperHookName, ($: CheerioAPI) => void> = {
+  'lazy-images': $ => {
+    $('img, source').each((_, element) => {
+      const $element = $(element);
+      const lazySrc = $element.attr('data-src') || $element.attr('data-lazy-src') || $element.attr('data-original');
+      const lazySrcset = $element.attr('data-srcset') || $element.attr('data-lazy-srcset');
+      if (lazySrc) $element.attr('src', lazySrc);
+      if (lazySrcset) $element.attr('srcset', lazySrcset);
+    });
+  },
+  'strip-links': $ => {
+    $('a').each((_, element) => {
+      $(element).replaceWith($(element).contents());
+    });
+  },
+  'strip-inline-styles': $ => {
+    $('[style]').removeAttr('style');
+  },
+  'drop-leading-heading': $ => {
+    const firstBlock = $('h1, h2, h3, p, ul, ol, blockquote, figure, img, table').first();
+    if (firstBlock.is('h1, h2, h3')) firstBlock.remove();
+  },
+  'unwrap-layout': $ => {
+    $('div, span, section').each((_, element) => {
+      $(element).replaceWith($(element).contents());
+    });
+  },
+};
+
+// CSS selectors as cheerio understands them; used to validate rules before they are saved
+export function isValidSelector(selector: string): boolean {
+  if (!selector.trim() || selector.trim().startsWith('<')) return false; // "<p>" would create an element, not match one
+  try {
+    cheerio.load('')(selector);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Selector list from the rules editor: one per line, since selectors themselves contain commas
+export function parseSelectorList(rawList: string | undefined | null): string[] {
+  if (!rawList) return [];
+  return rawList.split('\n').map(selector => selector.trim()).filter(Boolean);
+}
+
+// A stored selector that no longer parses is skipped rather than failing the whole import
+function selectFirst($: CheerioAPI, selector: string) {
+  try {
+    return $(selector).first();
+  } catch (error: any) {
+    console.warn(`Skipping invalid scraper selector "${selector}": ${error.message}`);
+    return null;
+  }
+}
+
+function resolveUrl(value: string | undefined, baseUrl: string): string | undefined {
+  if (!value) return undefined;
+  try {
+    return new URL(value.trim(), baseUrl).href;
+  } catch {
+    return undefined;
+  }
+}
+
+// Text for title selectors, a URL for image selectors; <meta> and <link> elements give their attribute
+function readSelectorValue($element: Cheerio<any>, kind: 'text' | 'url'): string | undefined {
+  const tagName = ($element.prop('tagName') || '').toLowerCase();
+  if (tagName === 'meta') return $element.attr('content')?.trim() || undefined;
+  if (tagName === 'link') return $element.attr('href')?.trim() || undefined;
+  if (kind === 'text') return $element.text().replace(/\s+/g, ' ').trim() || undefined;
+
+  const $image = tagName === 'img' || tagName === 'source' ? $element : $element.find('img').first();
+  const srcset = $image.attr('srcset') || $image.attr('data-srcset');
+  return ($image.attr('src') || $image.attr('data-src') || srcset?.trim().split(/\s+/)[0])?.trim() || undefined;
+}
+
+function findFirstValue($: CheerioAPI, selectors: string[], kind: 'text' | 'url'): string | undefined {
+  for (const selector of selectors) {
+    const $element = selectFirst($, selector);
+    const value = $element?.length ? readSelectorValue($element, kind) : undefined;
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function cleanTitle(title: string, siteHostname: string): string {
+  if (!title || !siteHostname) {
+    return title;
+  }
+
+  let cleanedTitle = title;
+  const lowerSiteHostname = siteHostname.toLowerCase().replace(/^www\./, '');
+  const commonSeparators = ['|', '-', '–', ':'];
+
+  const escapedHostname = lowerSiteHostname.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  const patterns = [];
+  for (const sep of commonSeparators) {
+    const escapedSep = sep.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    patterns.push(new RegExp(`^\\s*${escapedHostname}\\s*${escapedSep}\\s*`, 'i'));
+    patterns.push(new RegExp(`\\s*${escapedSep}\\s*${escapedHostname}\\s*$`, 'i'));
+  }
+  patterns.push(new RegExp(`^\\s*${escapedHostname}\\s*`, 'i'));
+  patterns.push(new RegExp(`\\s*${escapedHostname}\\s*$`, 'i'));
+
+
+  for (const pattern of patterns) {
+    cleanedTitle = cleanedTitle.replace(pattern, '');
+  }
+
+  const siteNameParts = lowerSiteHostname.split('.');
+  if (siteNameParts.length > 1) {
+    const primarySiteName = siteNameParts[0];
+    const escapedPrimarySiteName = primarySiteName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+     for (const sep of commonSeparators) {
+        const escapedSep = sep.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+        patterns.push(new RegExp(`^\\s*${escapedPrimarySiteName}\\s*${escapedSep}\\s*`, 'i'));
+        patterns.push(new RegExp(`\\s*${escapedSep}\\s*${escapedPrimarySiteName}\\s*$`, 'i'));
+    }
+    patterns.push(new RegExp(`^\\s*${escapedPrimarySiteName}\\s*`, 'i'));
+    patterns.push(new RegExp(`\\s*${escapedPrimarySiteName}\\s*$`, 'i'));
+
+    for (const pattern of patterns) {
+        cleanedTitle = cleanedTitle.replace(pattern, '');
+    }
+  }
+
+  for (const sep of commonSeparators) {
+     const escapedSep = sep.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+     cleanedTitle = cleanedTitle.replace(new RegExp(`^\\s*${escapedSep}\\s*`), '');
+     cleanedTitle = cleanedTitle.replace(new RegExp(`\\s*${escapedSep}\\s*$`), '');
+  }
+
+  return cleanedTitle.trim();
+}
+
+// Every object in the page's JSON-LD blocks, including those nested in @graph arrays
+function readJsonLdNodes($: CheerioAPI): Record<string, any>[] {
+  const nodes: Record<string, any>[] = [];
+  const collect = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(collect);
+    } else if (value && typeof value === 'object') {
+      const node = value as Record<string, any>;
+      nodes.push(node);
+      if (node['@graph']) collect(node['@graph']);
+    }
+  };
+  $('script[type="application/ld+json"]').each((_, script) => {
+    try {
+      collect(JSON.parse($(script).text()));
+    } catch {
+      // Malformed blocks are common and only mean this one is skipped
+    }
+  });
+  return nodes;
+}
+
+function hasJsonLdType(node: Record<string, any>, types: string[]): boolean {
+  const nodeTypes = Array.isArray(node['@type']) ? node['@type'] : [node['@type']];
+  return nodeTypes.some(type => typeof type === 'string' && types.includes(type));
+}
+
+// JSON-LD authors are a name, a Person/Organization, a reference to one elsewhere in the graph, or a list of those
+function readJsonLdAuthor(value: unknown, nodes: Record<string, any>[]): string | undefined {
+  const names = (Array.isArray(value) ? value : [value]).map(author => {
+    if (typeof author === 'string') return author;
+    if (!author || typeof author !== 'object') return undefined;
+    const person = author as Record<string, any>;
+    const resolved = person.name ? person : nodes.find(node => person['@id'] && node['@id'] === person['@id']);
+    return typeof resolved?.name === 'string' ? resolved.name : undefined;
+  });
+  const authors = names.map(name => name?.replace(/\s+/g, ' ').trim()).filter((name): name is string => !!name && !isUrl(name));
+  return authors.length > 0 ? [...new Set(authors)].join(', ') : undefined;
+}
+
+function readJsonLdUrl(value: unknown): string | undefined {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object') {
+    const node = value as Record<string, any>;
+    return typeof node['@id'] === 'string' ? node['@id'] : typeof node.url === 'string' ? node.url : undefined;
+  }
+  return undefined;
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function toIsoDate(value: unknown): string | undefined {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toHttpUrl(value: string | undefined, baseUrl: string): string | undefined {
+  const url = resolveUrl(value, baseUrl);
+  return url && isUrl(url) ? url : undefined;
+}
+
+function normalizeTags(tags: unknown[]): string[] {
+  const normalized = tags
+    .flatMap(tag => typeof tag === 'string' ? tag.split(',') : [])
+    .map(tag => tag.replace(/\s+/g, ' ').trim().toLowerCase())
+    .filter(tag => tag.length > 0 && tag.length <= MAX_TAG_LENGTH);
+  return [...new Set(normalized)].slice(0, MAX_SCRAPED_TAGS);
+}
+
+function extractMetadata($: CheerioAPI, pageUrl: string): ArticleMetadata {
+  const nodes = readJsonLdNodes($);
+  const article = nodes.find(node => hasJsonLdType(node, ARTICLE_JSON_LD_TYPES));
+  const metaContent = (selectors: string[]) => selectors
+    .map(selector => $(selector).first().attr('content')?.trim())
+    .find(value => !!value && !isUrl(value)); // article:author is often a profile URL rather than a name
+
+  const tagMeta = $('meta[property="article:tag"]').map((_, meta) => $(meta).attr('content') || '').get();
+  const keywords = article?.keywords;
+
+  return {
+    author: readJsonLdAuthor(article?.author, nodes) || metaContent(AUTHOR_META_SELECTORS),
+    publishedAt: toIsoDate(article?.datePublished) || toIsoDate(metaContent(PUBLISHED_TIME_META_SELECTORS)),
+    canonicalUrl: toHttpUrl($('link[rel="canonical"]').first().attr('href'), pageUrl)
+      || toHttpUrl($('meta[property="og:url"]').first().attr('content'), pageUrl)
+      || toHttpUrl(readJsonLdUrl(article?.mainEntityOfPage) || readJsonLdUrl(article?.url), pageUrl),
+    tags: normalizeTags([...tagMeta, ...(Array.isArray(keywords) ? keywords : [keywords])]),
+  };
+}
+
+function getTextLength($element: Cheerio<any>): number {
+  return $element.text().replace(/\s+/g, ' ').trim().length;
+}
+
+function getLinkDensity($: CheerioAPI, $element: Cheerio<any>): number {
+  const textLength = getTextLength($element);
+  if (textLength === 0) return 0;
+  let linkTextLength = 0;
+  $element.find('a').each((_, link) => {
+    linkTextLength += getTextLength($(link));
+  });
+  return Math.min(linkTextLength / textLength, 1);
+}
+
+// "div#story" or "section.article-body", to show which element the scorer picked
+function describeElement($element: Cheerio<any>): string {
+  const tagName = ($element.prop('tagName') || 'element').toLowerCase();
+  const id = $element.attr('id')?.trim();
+  if (id) return `${tagName}#${id}`;
+  const firstClass = $element.attr('class')?.trim().split(/\s+/)[0];
+  return firstClass ? `${tagName}.${firstClass}` : tagName;
+}
+
+function getCandidateBaseScore($element: Cheerio<any>): number {
+  const tagName = ($element.prop('tagName') || '').toLowerCase();
+  const markers = `${$element.attr('class') || ''} ${$element.attr('id') || ''}`;
+  let score = tagName === 'div' || tagName === 'article' ? 5 : ['pre', 'td', 'blockquote'].includes(tagName) ? 3 : 0;
+  if (NEGATIVE_CANDIDATE_PATTERN.test(markers)) score -= 25;
+  if (POSITIVE_CANDIDATE_PATTERN.test(markers)) score += 25;
+  return score;
+}
+
+// The element most likely to hold the article, or null when nothing has enough text to tell
+function findContentByDensity($: CheerioAPI): Cheerio<any> | null {
+  const $body = $('body').first().clone();
+  if (!$body.length) return null;
+  $body.find(NON_CANDIDATE_SELECTORS).remove();
+
+  const candidates = new Map<unknown, { $element: Cheerio<any>; score: number }>();
+  const addScore = ($element: Cheerio<any>, score: number) => {
+    const node = $element.get(0);
+    if (!node || !$element.prop('tagName')) return; // Past the top of the cloned tree
+    let candidate = candidates.get(node);
+    if (!candidate) {
+      candidate = { $element, score: getCandidateBaseScore($element) };
+      candidates.set(node, candidate);
+    }
+    candidate.score += score;
+  };
+
+  $body.find('p, pre, td, blockquote').each((_, paragraph) => {
+    const $paragraph = $(paragraph);
+    const text = $paragraph.text().replace(/\s+/g, ' ').trim();
+    if (text.length < MIN_PARAGRAPH_LENGTH) return;
+    const score = 1 + (text.match(/,/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3);
+    const $parent = $paragraph.parent();
+    addScore($parent, score);
+    addScore($parent.parent(), score / 2);
+  });
+
+  let best: { $element: Cheerio<any>; score: number } | null = null;
+  for (const candidate of candidates.values()) {
+    const score = candidate.score * (1 - getLinkDensity($, candidate.$element));
+    if (!best || score > best.score) best = { $element: candidate.$element, score };
+  }
+  if (!best || getTextLength(best.$element) < MIN_CONTENT_LENGTH) return null;
+  return best.$element;
+}
+
+function assessExtraction(content: string, method: ExtractionMethod, contentSelector: string): ScrapeConfidence {
+  const $ = cheerio.load(content, null, false);
+  const textLength = getTextLength($.root());
+  const linkDensity = getLinkDensity($, $.root());
+  const paragraphCount = $('p').filter((_, paragraph) => getTextLength($(paragraph)) >= MIN_PARAGRAPH_LENGTH).length;
+
+  const score = METHOD_CONFIDENCE[method] * (
+    0.4 * Math.min(textLength / CONFIDENT_TEXT_LENGTH, 1)
+    + 0.3 * Math.min(paragraphCount / CONFIDENT_PARAGRAPH_COUNT, 1)
+    + 0.3 * (1 - Math.min(linkDensity / MAX_LINK_DENSITY, 1))
+  );
+
+  const notes: string[] = [];
+  if (method === 'body') {
+    notes.push('No article container was found, so the whole page was imported, including any navigation and ads.');
+  } else if (method === 'density') {
+    notes.push(`No known article container was found; the text-heaviest part of the page (${contentSelector}) was used instead. Check where it starts and ends.`);
+  }
+  if (textLength < SHORT_TEXT_LENGTH) {
+    notes.push(`Only ${textLength} characters of text were extracted.`);
+  }
+  if (paragraphCount < FEW_PARAGRAPHS) {
+    notes.push(paragraphCount === 0 ? 'The text has no paragraphs.' : paragraphCount === 1 ? 'The text has only one paragraph.' : `The text has only ${paragraphCount} paragraphs.`);
+  }
+  if (linkDensity > HIGH_LINK_DENSITY) {
+    notes.push(`${Math.round(linkDensity * 100)}% of the text is links, which usually means menus or lists of other articles.`);
+  }
+
+  return {
+    score: Math.round(score * 100) / 100,
+    level: score >= HIGH_CONFIDENCE_SCORE ? 'high' : score >= MEDIUM_CONFIDENCE_SCORE ? 'medium' : 'low',
+    notes,
+  };
+}
+
+// Turns the matched element into post HTML: removals first (so they can use the element's own
+// structure), then the rule's hooks, then the built-in cleanup of images and empty elements
+function cleanContent($element: Cheerio<any>, pageUrl: string, rule: ExtractionRule | null): string {
+  const $clone = $element.clone();
+  if (!rule || rule.useDefaultRemovals) {
+    $clone.find(DEFAULT_REMOVE_SELECTORS).remove();
+  }
+  for (const selector of rule?.removeSelectors ?? []) {
+    try {
+      $clone.find(selector).remove();
+    } catch (error: any) {
+      console.warn(`Skipping invalid scraper selector "${selector}": ${error.message}`);
+    }
+  }
+
+  const $ = cheerio.load($clone.html() || '', null, false);
+  for (const hook of rule?.hooks ?? []) {
+    SCRAPER_HOOKS[hook]?.($);
+  }
+
+  $('img').each((_, element) => {
+    const $image = $(element);
+    const src = $image.attr('src');
+    if (src && !src.startsWith('data:')) {
+      const resolvedSrc = resolveUrl(src, pageUrl);
+      if (resolvedSrc) $image.attr('src', resolvedSrc);
+    }
+    const width = parseInt($image.attr('width') || '0', 10);
+    const height = parseInt($image.attr('height') || '0', 10);
+    if ((width > 0 && width < MIN_IMAGE_DIMENSION) || (height > 0 && height < MIN_IMAGE_DIMENSION)) {
+      $image.remove();
+    }
+  });
+  $('p, div, span').each((_, element) => {
+    const $element = $(element);
+    if ($element.html()?.trim() === '' && $element.children().length === 0 && !$element.attr('style')?.includes('background-image')) {
+      $element.remove();
+    }
+  });
+
+  return ($.html() || '').replace(/\n\s*\n/g, '\n').trim();
+}
+
+/**
+ * Extracts the article from a fetched page. `rule` is the site rule for the page's host, or
+ * null to use only the built-in selectors. Pure, so the rules tester can run unsaved rules.
+ */
+export function extractArticle(html: string, pageUrl: string, rule: ExtractionRule | null): ExtractedArticle {
+  const $ = cheerio.load(html);
+  const hostname = new URL(pageUrl).hostname;
+
+  const rawTitle = findFirstValue($, [...(rule?.titleSelectors ?? []), ...DEFAULT_TITLE_SELECTORS], 'text') || 'Untitled Post';
+  const imageUrl = resolveUrl(findFirstValue($, [...(rule?.imageSelectors ?? []), ...DEFAULT_IMAGE_SELECTORS], 'url'), pageUrl);
+
+  let content = '';
+  let contentSelector = 'body';
+  let method: ExtractionMethod = 'selector';
+  for (const selector of rule?.contentSelectors ?? []) {
+    const $element = selectFirst($, selector);
+    if (!$element?.length) continue;
+    content = cleanContent($element, pageUrl, rule);
+    if (content) {
+      contentSelector = selector;
+      break;
+    }
+  }
+
+  // A built-in selector match that is too short is only used if the density scorer finds nothing
+  let shortMatch: { content: string; selector: string } | null = null;
+  if (!content) {
+    for (const selector of DEFAULT_CONTENT_SELECTORS) {
+      const $element = $(selector).first();
+      if (!$element.length) continue;
+      const candidate = cleanContent($element, pageUrl, rule);
+      if (candidate.length > MIN_CONTENT_LENGTH) {
+        content = candidate;
+        contentSelector = selector;
+        break;
+      }
+      if (candidate && !shortMatch) shortMatch = { content: candidate, selector };
+    }
+  }
+
+  if (!content) {
+    const $densest = findContentByDensity($);
+    if ($densest) {
+      content = cleanContent($densest, pageUrl, rule);
+      contentSelector = describeElement($densest);
+      method = 'density';
+    }
+  }
+
+  if (!content && shortMatch) {
+    content = shortMatch.content;
+    contentSelector = shortMatch.selector;
+    method = 'selector';
+  }
+
+  if (!content && $('body').length) {
+    content = cleanContent($('body'), pageUrl, rule);
+    contentSelector = 'body';
+    method = 'body';
+  }
+
+  return {
+    title: cleanTitle(rawTitle, hostname) || 'Untitled Post',
+    content,
+    imageUrl,
+    metadata: extractMetadata($, pageUrl),
+    method,
+    contentSelector,
+    confidence: assessExtraction(content, method, contentSelector),
+  };
+}
+
+// The remote images in post HTML, for rehosting: absolute http(s) `src` values in document order, each once
+export function listContentImageUrls(content: string): string[] {
+  const $ = cheerio.load(content, null, false);
+  const urls = new Set<string>();
+  $('img').each((_, element) => {
+    const src = $(element).attr('src')?.trim();
+    if (src && /^https?:\/\//i.test(src)) urls.add(src);
+  });
+  return [...urls];
+}
+
+// Points each image whose `src` has a replacement at the new URL. Its srcset and any <source>s of an
+// enclosing <picture> are dropped, since browsers would otherwise keep loading the original.
+export function replaceContentImageUrls(content: string, replacements: Map<string, string>): string {
+  const $ = cheerio.load(content, null, false);
+  $('img').each((_, element) => {
+    const $image = $(element);
+    const replacement = replacements.get($image.attr('src')?.trim() || '');
+    if (!replacement) return;
+    $image.attr('src', replacement).removeAttr('srcset').removeAttr('sizes');
+    $image.parent('picture').children('source').remove();
+  });
+  return $.html() || '';
+}
+
+export function getScrapeFetchPolicies(settings: SiteSettings): { page: FetchPolicy; image: FetchPolicy } {
+  const blockedDomains = parseDomainList(settings.scrapeBlockedDomains);
+  return {
+    page: {
+      allowedDomains: parseDomainList(settings.scrapeAllowedDomains),
+      blockedDomains,
+      allowedContentTypes: PAGE_CONTENT_TYPES,
+      maxBytes: MAX_PAGE_SIZE,
+      timeoutMs: 15000,
+    },
+    // The allowlist names sites to import from; their images often live on other hosts (CDNs)
+    image: {
+      allowedDomains: [],
+      blockedDomains,
+      allowedContentTypes: IMAGE_CONTENT_TYPES,
+      maxBytes: MAX_IMAGE_SIZE,
+      timeoutMs: 10000,
+    },
+  };
+}
+
+/**
+ * Fetches `url` under the site's import policy and extracts the article. The site rule for the
+ * final host (after redirects) is looked up unless `rule` is given; null skips rules entirely.
+ */
+export async function scrapeArticle(url: string, settings: SiteSettings, rule?: ExtractionRule | null): Promise<ScrapedArticle> {
+  const page = await fetchWithPolicy(url, getScrapeFetchPolicies(settings).page);
+  const appliedRule = rule === undefined ? (await findSiteRuleForHostname(new URL(page.url).hostname)) ?? null : rule;
+  return {
+    ...extractArticle(page.data.toString('utf8'), page.url, appliedRule),
+    url: page.url,
+    ruleHostname: appliedRule?.hostname,
+  };
+}
+
+// A failed scrape as a message for the editor and an HTTP status for /api/scrape
+export function describeScrapeError(error: any): { message: string; status: number } {
+  if (error instanceof FetchPolicyError) {
+    return { message: error.message, status: 400 };
+  }
+  if (axios.isAxiosError(error)) {
+    if (error.response) {
+      return {
+        message: `Failed to fetch URL: ${error.response.status} ${error.response.statusText}. Check if the URL is accessible and not blocking requests.`,
+        status: error.response.status >= 400 ? error.response.status : 500,
+      };
+    }
+    if (error.request) {
+      return { message: 'Failed to fetch URL: No response received. The site might be down or blocking requests.', status: 504 };
+    }
+    return { message: `Failed to fetch URL: ${error.message}`, status: 500 };
+  }
+  if (error?.message?.includes('Invalid URL')) {
+    return { message: 'Invalid URL provided.', status: 400 };
+  }
+  return { message: 'Failed to scrape the URL.', status: 500 };
+}
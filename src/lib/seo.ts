@@ -0,0 +1,92 @@
+import type { Post, SiteSettings } from '@/types';
+import { htmlToPlainText } from './post-search';
+import { toAbsoluteUrl } from './site-url';
+import { getTagHref } from '@/lib/tags';
+
+/**
+ * Search and social metadata for posts: the title and description shown in search results
+ * and share cards (editors can override both per post), and schema.org structured data.
+ */
+
+const META_DESCRIPTION_LENGTH = 160;
+const JSON_LD_HEADLINE_LENGTH = 110; // Google ignores longer NewsArticle headlines
+
+export function getPostSeoTitle(post: Pick<Post, 'title' | 'seoTitle'>): string {
+  return post.seoTitle || post.title;
+}
+
+export function getPostSeoDescription(post: Pick<Post, 'content' | 'seoDescription'>): string {
+  if (post.seoDescription) return post.seoDescription;
+  const text = htmlToPlainText(post.content);
+  return text.length > META_DESCRIPTION_LENGTH ? `${text.slice(0, META_DESCRIPTION_LENGTH - 1).trimEnd()}…` : text;
+}
+
+export function getPostPath(post: Pick<Post, 'slug'>): string {
+  return `/posts/${post.slug}`;
+}
+
+// The generated share card; `v` changes whenever the post is edited so caches pick up new titles
+export function getPostOgImagePath(post: Pick<Post, 'slug' | 'date' | 'updatedAt'>): string {
+  const version = new Date(post.updatedAt || post.date).getTime();
+  return `${getPostPath(post)}/og.png?v=${version}`;
+}
+
+// The thumbnail when there is one, otherwise the generated card
+export function getPostShareImageUrl(post: Post, siteUrl: string): string {
+  return toAbsoluteUrl(post.thumbnailUrl || getPostOgImagePath(post), siteUrl);
+}
+
+// For a <script type="application/ld+json">; escaping "<" keeps post text from closing the tag early
+export function serializeJsonLd(data: object): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+export function buildNewsArticleJsonLd(post: Post, settings: SiteSettings, siteUrl: string): object {
+  const postUrl = toAbsoluteUrl(getPostPath(post), siteUrl);
+  const siteTitle = settings.siteTitle || 'Newstoday';
+  const headline = getPostSeoTitle(post);
+  const publisher = {
+    '@type': 'Organization',
+    name: siteTitle,
+    url: siteUrl,
+    ...(settings.siteLogoUrl ? { logo: { '@type': 'ImageObject', url: toAbsoluteUrl(settings.siteLogoUrl, siteUrl) } } : {}),
+  };
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'NewsArticle',
+    headline: headline.length > JSON_LD_HEADLINE_LENGTH ? `${headline.slice(0, JSON_LD_HEADLINE_LENGTH - 1)}…` : headline,
+    description: getPostSeoDescription(post),
+    mainEntityOfPage: { '@type': 'WebPage', '@id': postUrl },
+    url: postUrl,
+    datePublished: post.date,
+    dateModified: post.updatedAt || post.date,
+    // Posts from before user accounts have no author; the publication stands in for one
+    author: post.authorName ? { '@type': 'Person', name: post.authorName } : publisher,
+    publisher,
+    image: [getPostShareImageUrl(post, siteUrl)],
+    ...(post.tags.length > 0 ? { keywords: post.tags.join(', ') } : {}),
+    ...(post.sourceUrl ? { isBasedOn: post.sourceUrl } : {}), // Imported posts point back to the original
+  };
+}
+
+// Home › primary tag › post, mirroring the site's own navigation
+export function buildPostBreadcrumbJsonLd(post: Post, settings: SiteSettings, siteUrl: string): object {
+  const trail = [{ name: settings.siteTitle || 'Newstoday', url: toAbsoluteUrl('/', siteUrl) }];
+  const primaryTag = post.tags[0];
+  if (primaryTag) {
+    trail.push({ name: primaryTag, url: toAbsoluteUrl(getTagHref(primaryTag), siteUrl) });
+  }
+  trail.push({ name: post.title, url: toAbsoluteUrl(getPostPath(post), siteUrl) });
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'BreadcrumbList',
+    itemListElement: trail.map((crumb, index) => ({
+      '@type': 'ListItem',
+      position: index + 1,
+      name: crumb.name,
+      item: crumb.url,
+    })),
+  };
+}
@@ -0,0 +1,142 @@
+
+import type { AdminSession } from '@/types';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseErrorFormatter, getSupabaseAdminClient } from './supabase-admin';
+import { SESSION_MAX_AGE_SECONDS, signSessionToken, verifySessionToken } from './session-token';
+
+// Expected table: public.admin_sessions (id uuid primary key default gen_random_uuid(), username text not null,
+// created_at timestamptz default now(), expires_at timestamptz not null, revoked_at timestamptz null,
+// user_agent text null, ip_address text null)
+// Admin-only: no anon RLS policy; every query goes through the service role client.
+// Imported by the Edge middleware, so this module must not depend on Node-only APIs.
+
+const formatSupabaseError = createSupabaseErrorFormatter({ table: 'admin_sessions' });
+
+const mapDbRowToSession = (row: any): AdminSession => {
+  return {
+    id: String(row.id),
+    username: row.username,
+    createdAt: row.created_at,
+    expiresAt: row.expires_at,
+    revokedAt: row.revoked_at || undefined,
+    userAgent: row.user_agent || undefined,
+    ipAddress: row.ip_address || undefined,
+  };
+};
+
+// Stores a new session and returns the signed token to put in the session cookie
+export const createSession = async (
+  username: string,
+  client: { userAgent?: string | null; ipAddress?: string | null } = {}
+): Promise<{ token: string; session: AdminSession }> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in createSession:', e.message);
+    throw new Error(`Configuration error preventing sign-in: ${e.message}`);
+  }
+
+  const expiresAt = new Date(Date.now() + SESSION_MAX_AGE_SECONDS * 1000);
+  const { data, error } = await adminSupabase
+    .from('admin_sessions')
+    .insert({
+      username,
+      created_at: new Date().toISOString(),
+      expires_at: expiresAt.toISOString(),
+      user_agent: client.userAgent?.slice(0, 500) || null,
+      ip_address: client.ipAddress || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    console.error('Error creating admin session (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not start session. ${formatSupabaseError(error)}`);
+  }
+
+  const session = mapDbRowToSession(data);
+  const token = await signSessionToken({
+    sid: session.id,
+    sub: session.username,
+    exp: Math.floor(expiresAt.getTime() / 1000),
+  });
+  return { token, session };
+};
+
+// Resolves a session cookie value to its active session: the signature and expiry must be
+// valid and the stored session must not have been revoked.
+export const validateSession = async (token: string | undefined | null): Promise<AdminSession | null> => {
+  const claims = await verifySessionToken(token);
+  if (!claims) return null;
+
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in validateSession:', e.message);
+    return null;
+  }
+
+  const { data, error } = await adminSupabase
+    .from('admin_sessions')
+    .select('*')
+    .eq('id', claims.sid)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') {
+      console.error('Error looking up admin session:', JSON.stringify(error, null, 2));
+    }
+    return null;
+  }
+
+  const session = mapDbRowToSession(data);
+  if (session.revokedAt || session.username !== claims.sub || new Date(session.expiresAt).getTime() <= Date.now()) {
+    return null;
+  }
+  return session;
+};
+
+export const revokeSession = async (sessionId: string): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { error } = await adminSupabase
+    .from('admin_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', sessionId)
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Error revoking admin session:', JSON.stringify(error, null, 2));
+    throw new Error(`Could not revoke session. ${formatSupabaseError(error)}`);
+  }
+};
+
+// Signs out one user everywhere, e.g. after their password or role changes
+export const revokeSessionsForUser = async (username: string): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { error } = await adminSupabase
+    .from('admin_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('username', username)
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Error revoking sessions for user:', JSON.stringify(error, null, 2));
+    throw new Error(`Could not revoke sessions. ${formatSupabaseError(error)}`);
+  }
+};
+
+// Signs out every active session of every user
+export const revokeAllSessions = async (): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { error } = await adminSupabase
+    .from('admin_sessions')
+    .update({ revoked_at: new Date().toISOString() })
+    .is('revoked_at', null);
+
+  if (error) {
+    console.error('Error revoking admin sessions:', JSON.stringify(error, null, 2));
+    throw new Error(`Could not revoke sessions. ${formatSupabaseError(error)}`);
+  }
+};
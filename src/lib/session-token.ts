@@ -0,0 +1,118 @@
+
+/**
+ * Signed admin session tokens. Uses only Web Crypto so it can run in the Edge middleware
+ * as well as in server components and actions.
+ *
+ * A token is `<base64url(JSON claims)>.<base64url(HMAC-SHA256)>`. The signature proves the
+ * token was issued by this server; whether the session is still active (not revoked) is
+ * checked against the admin_sessions table by session-service.
+ */
+
+export const SESSION_COOKIE_NAME = 'newstoday-adminsession';
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 7; // 1 week
+
+// Issued after a correct password when the account has two-factor sign-in; it only lets the
+// holder submit a second-factor code and is never accepted as a session.
+export const LOGIN_CHALLENGE_COOKIE_NAME = 'newstoday-loginchallenge';
+export const LOGIN_CHALLENGE_MAX_AGE_SECONDS = 5 * 60;
+
+export interface SessionClaims {
+  sid: string; // admin_sessions row id
+  sub: string; // username
+  exp: number; // expiry, seconds since epoch
+}
+
+export interface LoginChallengeClaims {
+  purpose: 'two-factor';
+  sub: string; // username whose password was verified
+  exp: number; // expiry, seconds since epoch
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function base64UrlDecode(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/').padEnd(Math.ceil(value.length / 4) * 4, '=');
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+// SESSION_SECRET should be set explicitly; the service role key is an acceptable fallback
+// since it is equally secret and already present wherever sessions can be created.
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret || secret.length < 32) {
+    throw new Error('CRITICAL: SESSION_SECRET is not defined or is shorter than 32 characters. Admin sessions cannot be signed.');
+  }
+  return secret;
+}
+
+async function getSigningKey(): Promise<CryptoKey> {
+  return crypto.subtle.importKey(
+    'raw',
+    encoder.encode(getSessionSecret()),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify']
+  );
+}
+
+async function signClaims(claims: object): Promise<string> {
+  const payload = base64UrlEncode(encoder.encode(JSON.stringify(claims)));
+  const signature = await crypto.subtle.sign('HMAC', await getSigningKey(), encoder.encode(payload));
+  return `${payload}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// Decoded claims of a well-formed, correctly signed token; expiry and shape are checked by the callers
+async function verifySignedClaims(token: string | undefined | null): Promise<Record<string, unknown> | null> {
+  if (!token) return null;
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  try {
+    const isValid = await crypto.subtle.verify('HMAC', await getSigningKey(), base64UrlDecode(signature), encoder.encode(payload));
+    if (!isValid) return null;
+    return JSON.parse(decoder.decode(base64UrlDecode(payload)));
+  } catch (error: any) {
+    console.error('Session token verification failed:', error.message);
+    return null;
+  }
+}
+
+export async function signSessionToken(claims: SessionClaims): Promise<string> {
+  return signClaims(claims);
+}
+
+// Returns the claims of a well-formed, correctly signed and unexpired token, otherwise null
+export async function verifySessionToken(token: string | undefined | null): Promise<SessionClaims | null> {
+  const claims = await verifySignedClaims(token);
+  if (!claims) return null;
+  if (typeof claims.sid !== 'string' || typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+  if (claims.exp * 1000 <= Date.now()) return null;
+  return claims as unknown as SessionClaims;
+}
+
+export async function signLoginChallengeToken(username: string): Promise<string> {
+  const claims: LoginChallengeClaims = {
+    purpose: 'two-factor',
+    sub: username,
+    exp: Math.floor(Date.now() / 1000) + LOGIN_CHALLENGE_MAX_AGE_SECONDS,
+  };
+  return signClaims(claims);
+}
+
+export async function verifyLoginChallengeToken(token: string | undefined | null): Promise<LoginChallengeClaims | null> {
+  const claims = await verifySignedClaims(token);
+  if (!claims) return null;
+  if (claims.purpose !== 'two-factor' || typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+  if (claims.exp * 1000 <= Date.now()) return null;
+  return claims as unknown as LoginChallengeClaims;
+}
@@ -1,13 +1,15 @@
 
 import type { SiteSettings } from '@/types';
 import { supabase } from './supabase-client'; // Public Supabase client
-import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+import { getSupabaseAdminClient } from './supabase-admin';
 import fs from 'fs/promises';
 import path from 'path';
+import { hashPassword, isPasswordHash } from './password-hash';
 
 const dataDir = path.join(process.cwd(), 'data');
 const settingsJsonFilePath = path.join(dataDir, 'settings.json');
 let initialSettingsDataLoaded = false;
+let adminPasswordMigrationChecked = false;
 
 const DEFAULT_SETTINGS_OBJ: SiteSettings = {
   siteTitle: "Newstoday",
@@ -26,43 +28,20 @@ const DEFAULT_SETTINGS_OBJ: SiteSettings = {
   bannerImageLink: '',
   bannerImageAltText: '',
   bannerCustomHtml: '',
+  commentBannedWords: '',
+  commentMaxLinks: 2,
+  commentRateLimitPerHour: 5,
+  commentAiModerationEnabled: false,
+  feedFullContent: false,
+  robotsAllowIndexing: true,
+  robotsTxtCustomRules: '',
+  trustedEmbedHosts: '',
+  cspMode: 'report-only',
+  cspScriptSources: '',
+  scrapeAllowedDomains: '',
+  scrapeBlockedDomains: '',
 };
 
-// Helper function to validate HTTP/HTTPS URL format for internal use
-function isValidHttpUrl(string: string | undefined | null): boolean {
-  if (!string) return false;
-  try {
-    const url = new URL(string);
-    return url.protocol === "http:" || url.protocol === "https:";
-  } catch (_) {
-    return false;
-  }
-}
-
-// Helper function to create a Supabase admin client (uses service_role key)
-function getSupabaseAdminClient(): SupabaseClient {
-  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
-  const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
-
-  if (!supabaseUrl || supabaseUrl.trim() === '' || supabaseUrl === 'your_supabase_project_url_here' || !isValidHttpUrl(supabaseUrl)) {
-    throw new Error(
-      `CRITICAL: NEXT_PUBLIC_SUPABASE_URL is not defined, is a placeholder, or is invalid for admin client. Please check environment variables. Current value: "${supabaseUrl}"`
-    );
-  }
-  if (!supabaseServiceRoleKey || supabaseServiceRoleKey.trim() === '' || supabaseServiceRoleKey === 'your_supabase_service_role_key_here' || supabaseServiceRoleKey.length < 50) {
-    throw new Error(
-      `CRITICAL: SUPABASE_SERVICE_ROLE_KEY is not defined, is a placeholder, or is invalid for admin actions. Please check environment variables.`
-    );
-  }
-  return createClient(supabaseUrl, supabaseServiceRoleKey, {
-    auth: {
-      autoRefreshToken: false,
-      persistSession: false,
-      detectSessionInUrl: false
-    }
-  });
-}
-
 async function seedInitialSettingsFromJson() {
   if (initialSettingsDataLoaded) return;
 
@@ -94,7 +73,6 @@ async function seedInitialSettingsFromJson() {
       return;
     }
 
-
     if (!existingSettings || !existingSettings.settings || Object.keys(existingSettings.settings).length === 0) {
       console.log('Site settings in DB are empty/non-existent. Attempting to seed from settings.json...');
       let settingsFromFile = { ...DEFAULT_SETTINGS_OBJ };
@@ -109,6 +87,10 @@ async function seedInitialSettingsFromJson() {
         }
       }
       
+      if (settingsFromFile.adminPassword && !isPasswordHash(settingsFromFile.adminPassword)) {
+        settingsFromFile.adminPassword = await hashPassword(settingsFromFile.adminPassword);
+      }
+
       const adminSupabase = getSupabaseAdminClient();
       const { error: upsertError } = await adminSupabase
         .from('site_settings')
@@ -129,6 +111,23 @@ async function seedInitialSettingsFromJson() {
   }
 }
 
+// Settings saved before passwords were hashed hold the admin password in plaintext.
+// The first read in each server process rewrites such a value as a salted hash.
+async function migratePlaintextAdminPassword(settings: SiteSettings): Promise<SiteSettings> {
+  if (adminPasswordMigrationChecked) return settings;
+  adminPasswordMigrationChecked = true;
+  if (!settings.adminPassword || isPasswordHash(settings.adminPassword)) return settings;
+
+  try {
+    const migratedSettings = await updateSettings({ adminPassword: settings.adminPassword });
+    console.log('Migrated the plaintext admin password in site settings to a salted hash.');
+    return migratedSettings;
+  } catch (error: any) {
+    console.error('Could not migrate the plaintext admin password to a hash:', error.message);
+    return settings;
+  }
+}
+
 export async function getSettings(): Promise<SiteSettings> {
   await seedInitialSettingsFromJson();
 
@@ -189,7 +188,6 @@ export async function getSettings(): Promise<SiteSettings> {
     return { ...DEFAULT_SETTINGS_OBJ };
   }
 
-
   if (!data || !data.settings) {
     if (!error) { 
       console.warn("Site settings fetched successfully but 'settings' field is null or empty. Using default settings. This might occur if the row id=1 in 'site_settings' is missing or its 'settings' JSONB is null.");
@@ -197,7 +195,7 @@ export async function getSettings(): Promise<SiteSettings> {
     return { ...DEFAULT_SETTINGS_OBJ };
   }
 
-  return { ...DEFAULT_SETTINGS_OBJ, ...(data.settings as Partial<SiteSettings>) };
+  return migratePlaintextAdminPassword({ ...DEFAULT_SETTINGS_OBJ, ...(data.settings as Partial<SiteSettings>) });
 }
 
 export async function updateSettings(newSettings: Partial<SiteSettings>): Promise<SiteSettings> {
@@ -206,7 +204,6 @@ export async function updateSettings(newSettings: Partial<SiteSettings>): Promis
   
   const mergedSettings: SiteSettings = { ...DEFAULT_SETTINGS_OBJ, ...currentSettings, ...newSettings };
 
-
   if (typeof mergedSettings.postsPerPage === 'string') {
     mergedSettings.postsPerPage = parseInt(mergedSettings.postsPerPage, 10);
   }
@@ -219,12 +216,15 @@ export async function updateSettings(newSettings: Partial<SiteSettings>): Promis
   }
   if (newSettings.hasOwnProperty('adminPassword')) {
       mergedSettings.adminPassword = String(newSettings.adminPassword ?? '');
+  }
+  // Callers pass the password as entered; only its hash is ever stored
+  if (mergedSettings.adminPassword && !isPasswordHash(mergedSettings.adminPassword)) {
+    mergedSettings.adminPassword = await hashPassword(mergedSettings.adminPassword);
   }
    if (newSettings.hasOwnProperty('siteLogoUrl')) {
     mergedSettings.siteLogoUrl = newSettings.siteLogoUrl; // Allow null or empty string
   }
 
-
   if (typeof mergedSettings.globalHeaderScriptsEnabled === 'string') {
     mergedSettings.globalHeaderScriptsEnabled = mergedSettings.globalHeaderScriptsEnabled === 'on' || mergedSettings.globalHeaderScriptsEnabled === 'true';
   } else if (typeof mergedSettings.globalHeaderScriptsEnabled === 'undefined') {
@@ -243,7 +243,6 @@ export async function updateSettings(newSettings: Partial<SiteSettings>): Promis
       mergedSettings.globalFooterScriptsCustomHtml = String(newSettings.globalFooterScriptsCustomHtml ?? '');
   }
 
-
   const { data: updatedData, error } = await adminSupabase
     .from('site_settings')
     .upsert({ id: 1, settings: mergedSettings }, { onConflict: 'id' })
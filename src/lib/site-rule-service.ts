@@ -0,0 +1,183 @@
+import type { ScraperSiteRule } from '@/types';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseErrorFormatter, getSupabaseAdminClient } from './supabase-admin';
+import { isScraperHookName } from './scraper-hooks';
+
+// Expected table: public.scraper_site_rules (id uuid primary key default gen_random_uuid(), hostname text not null unique,
+// content_selectors text[] not null default '{}', remove_selectors text[] not null default '{}',
+// use_default_removals boolean not null default true, title_selectors text[] not null default '{}',
+// image_selectors text[] not null default '{}', hooks text[] not null default '{}', notes text null,
+// updated_at timestamptz default now())
+// Read by /api/scrape and edited under /admin/scraper-rules, both through the service role; no anon RLS policy.
+
+const formatSupabaseError = createSupabaseErrorFormatter({
+  table: 'scraper_site_rules',
+  uniqueViolation: 'A rule for that hostname already exists.',
+});
+
+const toStringArray = (value: unknown): string[] => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+const mapDbRowToSiteRule = (row: any): ScraperSiteRule => {
+  return {
+    id: String(row.id),
+    hostname: row.hostname,
+    contentSelectors: toStringArray(row.content_selectors),
+    removeSelectors: toStringArray(row.remove_selectors),
+    useDefaultRemovals: row.use_default_removals !== false,
+    titleSelectors: toStringArray(row.title_selectors),
+    imageSelectors: toStringArray(row.image_selectors),
+    hooks: toStringArray(row.hooks).filter(isScraperHookName), // Hooks removed from the code are ignored
+    notes: row.notes || undefined,
+    updatedAt: row.updated_at,
+  };
+};
+
+export type SiteRuleInput = Omit<ScraperSiteRule, 'id' | 'updatedAt'>;
+
+const mapSiteRuleInputToDbRow = (input: SiteRuleInput) => ({
+  hostname: input.hostname,
+  content_selectors: input.contentSelectors,
+  remove_selectors: input.removeSelectors,
+  use_default_removals: input.useDefaultRemovals,
+  title_selectors: input.titleSelectors,
+  image_selectors: input.imageSelectors,
+  hooks: input.hooks,
+  notes: input.notes || null,
+  updated_at: new Date().toISOString(),
+});
+
+// "https://www.Example.com/news" -> "www.example.com"; a leading "*." is dropped since subdomains are always covered
+export function normalizeRuleHostname(value: string): string {
+  const trimmed = value.trim().toLowerCase().replace(/^\*\./, '');
+  try {
+    return new URL(trimmed.includes('://') ? trimmed : `https://${trimmed}`).hostname.replace(/\.$/, '');
+  } catch {
+    return '';
+  }
+}
+
+export const getAllSiteRules = async (): Promise<ScraperSiteRule[]> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in getAllSiteRules:', e.message);
+    return [];
+  }
+
+  const { data, error } = await adminSupabase
+    .from('scraper_site_rules')
+    .select('*')
+    .order('hostname', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching scraper site rules:', JSON.stringify(error, null, 2));
+    return [];
+  }
+  return data.map(mapDbRowToSiteRule);
+};
+
+export const getSiteRuleById = async (ruleId: string): Promise<ScraperSiteRule | undefined> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { data, error } = await adminSupabase
+    .from('scraper_site_rules')
+    .select('*')
+    .eq('id', ruleId)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') { // Row not found
+      console.error('Error fetching scraper site rule by ID:', JSON.stringify(error, null, 2));
+    }
+    return undefined;
+  }
+  return mapDbRowToSiteRule(data);
+};
+
+// The rule for a page's host: an exact match, or else the rule for the closest parent domain
+// ("news.example.com" falls back to "example.com"). Lookup failures only mean the built-in
+// selectors are used, so they are logged rather than thrown.
+export const findSiteRuleForHostname = async (hostname: string): Promise<ScraperSiteRule | undefined> => {
+  const labels = normalizeRuleHostname(hostname).split('.').filter(Boolean);
+  const candidates = labels.map((_, index) => labels.slice(index).join('.'));
+  if (candidates.length === 0) return undefined;
+
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in findSiteRuleForHostname:', e.message);
+    return undefined;
+  }
+
+  const { data, error } = await adminSupabase
+    .from('scraper_site_rules')
+    .select('*')
+    .in('hostname', candidates);
+
+  if (error) {
+    console.error('Error fetching scraper site rule for hostname:', JSON.stringify(error, null, 2));
+    return undefined;
+  }
+  const rules = data.map(mapDbRowToSiteRule);
+  return rules.sort((a, b) => b.hostname.length - a.hostname.length)[0];
+};
+
+export const createSiteRule = async (input: SiteRuleInput): Promise<ScraperSiteRule> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in createSiteRule:', e.message);
+    throw new Error(`Configuration error preventing site rule creation: ${e.message}`);
+  }
+
+  const { data, error } = await adminSupabase
+    .from('scraper_site_rules')
+    .insert(mapSiteRuleInputToDbRow(input))
+    .select('*')
+    .single();
+
+  if (error) {
+    console.error('Error creating scraper site rule (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not create site rule. ${formatSupabaseError(error)}`);
+  }
+  return mapDbRowToSiteRule(data);
+};
+
+export const updateSiteRule = async (ruleId: string, input: SiteRuleInput): Promise<ScraperSiteRule | undefined> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in updateSiteRule:', e.message);
+    throw new Error(`Configuration error preventing site rule update: ${e.message}`);
+  }
+
+  const { data, error } = await adminSupabase
+    .from('scraper_site_rules')
+    .update(mapSiteRuleInputToDbRow(input))
+    .eq('id', ruleId)
+    .select('*')
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return undefined;
+    console.error('Error updating scraper site rule (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not update site rule. ${formatSupabaseError(error)}`);
+  }
+  return mapDbRowToSiteRule(data);
+};
+
+export const deleteSiteRule = async (ruleId: string): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { error } = await adminSupabase
+    .from('scraper_site_rules')
+    .delete()
+    .eq('id', ruleId);
+
+  if (error) {
+    console.error('Error deleting scraper site rule (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not delete site rule. ${formatSupabaseError(error)}`);
+  }
+};
@@ -0,0 +1,36 @@
+const DEVELOPMENT_SITE_URL = 'http://localhost:3000';
+
+/**
+ * Absolute origin of the public site, without a trailing slash, for links that are read
+ * outside the page (canonical URLs, feeds, sitemaps, share buttons). It comes from
+ * NEXT_PUBLIC_SITE_URL only: these responses are cached by shared caches, so an origin taken
+ * from the request's Host or X-Forwarded-Host header could be set by whoever fills the cache.
+ * Outside production an unset value falls back to the local dev server.
+ */
+export function getSiteUrl(): string {
+  const configuredUrl = process.env.NEXT_PUBLIC_SITE_URL?.trim();
+  if (!configuredUrl) {
+    if (process.env.NODE_ENV !== 'production') return DEVELOPMENT_SITE_URL;
+    throw new Error('CRITICAL: NEXT_PUBLIC_SITE_URL is not set. It is required in production for canonical URLs, feeds and sitemaps.');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(configuredUrl);
+  } catch (_) {
+    throw new Error(`CRITICAL: NEXT_PUBLIC_SITE_URL is not a valid URL. Current value: "${configuredUrl}"`);
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(`CRITICAL: NEXT_PUBLIC_SITE_URL must be an http or https URL. Current value: "${configuredUrl}"`);
+  }
+  return `${url.origin}${url.pathname}`.replace(/\/+$/, '');
+}
+
+// Resolves a root-relative path such as "/posts/hello" or an uploaded file URL against the site origin
+export function toAbsoluteUrl(pathOrUrl: string, siteUrl: string): string {
+  try {
+    return new URL(pathOrUrl, `${siteUrl}/`).toString();
+  } catch (_) {
+    return pathOrUrl;
+  }
+}
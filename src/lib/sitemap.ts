@@ -0,0 +1,109 @@
+import * as postService from './post-service';
+import { getSiteUrl, toAbsoluteUrl } from './site-url';
+import { getTagHref } from '@/lib/tags';
+
+/**
+ * XML sitemaps (sitemaps.org protocol). While every post fits in one file, /sitemap.xml lists
+ * all URLs itself; beyond that it becomes a sitemap index pointing at /sitemaps/pages.xml
+ * (static and tag pages) and /sitemaps/posts-1.xml, posts-2.xml, ... Posts are numbered
+ * oldest first, so publishing only ever changes the last posts file.
+ */
+
+// The protocol allows 50,000 URLs per file; smaller files keep each response quick to build
+export const POSTS_PER_SITEMAP = 5000;
+
+const STATIC_PAGE_PATHS = ['/', '/tags', '/contact', '/privacy-policy'];
+
+const SITEMAP_CACHE_CONTROL = 'public, max-age=0, s-maxage=3600, stale-while-revalidate=86400';
+
+interface SitemapUrl {
+  loc: string;
+  lastmod?: string; // ISO string
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function buildUrlSet(urls: SitemapUrl[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...urls.map(url =>
+      `  <url><loc>${escapeXml(url.loc)}</loc>${url.lastmod ? `<lastmod>${url.lastmod}</lastmod>` : ''}</url>`
+    ),
+    '</urlset>',
+    '',
+  ].join('\n');
+}
+
+function buildSitemapIndex(sitemapUrls: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">',
+    ...sitemapUrls.map(url => `  <sitemap><loc>${escapeXml(url)}</loc></sitemap>`),
+    '</sitemapindex>',
+    '',
+  ].join('\n');
+}
+
+function xmlResponse(xml: string): Response {
+  return new Response(xml, {
+    headers: {
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': SITEMAP_CACHE_CONTROL,
+    },
+  });
+}
+
+async function getPageUrls(siteUrl: string): Promise<SitemapUrl[]> {
+  const tagCounts = await postService.getTagCounts();
+  return [
+    ...STATIC_PAGE_PATHS.map(path => ({ loc: toAbsoluteUrl(path, siteUrl) })),
+    ...tagCounts.map(({ tag }) => ({ loc: toAbsoluteUrl(getTagHref(tag), siteUrl) })),
+  ];
+}
+
+async function getPostUrls(siteUrl: string, fileIndex: number): Promise<SitemapUrl[]> {
+  const posts = await postService.getPostSitemapEntries(fileIndex * POSTS_PER_SITEMAP, POSTS_PER_SITEMAP);
+  return posts.map(post => ({
+    loc: toAbsoluteUrl(`/posts/${post.slug}`, siteUrl),
+    lastmod: new Date(post.updatedAt || post.date).toISOString(),
+  }));
+}
+
+// The response for /sitemap.xml: a complete sitemap, or an index once posts need several files
+export async function createSitemapResponse(): Promise<Response> {
+  const siteUrl = getSiteUrl();
+  const { total: postCount } = await postService.queryPosts({ limit: 0 });
+
+  if (postCount <= POSTS_PER_SITEMAP) {
+    const [pageUrls, postUrls] = await Promise.all([getPageUrls(siteUrl), getPostUrls(siteUrl, 0)]);
+    return xmlResponse(buildUrlSet([...pageUrls, ...postUrls]));
+  }
+
+  const postFileCount = Math.ceil(postCount / POSTS_PER_SITEMAP);
+  return xmlResponse(buildSitemapIndex([
+    toAbsoluteUrl('/sitemaps/pages.xml', siteUrl),
+    ...Array.from({ length: postFileCount }, (_, i) => toAbsoluteUrl(`/sitemaps/posts-${i + 1}.xml`, siteUrl)),
+  ]));
+}
+
+// The response for one file listed in the sitemap index, or null for an unknown name
+export async function createSitemapPartResponse(name: string): Promise<Response | null> {
+  const siteUrl = getSiteUrl();
+  if (name === 'pages.xml') {
+    return xmlResponse(buildUrlSet(await getPageUrls(siteUrl)));
+  }
+
+  const fileNumber = Number(name.match(/^posts-(\d+)\.xml$/)?.[1]);
+  if (!Number.isInteger(fileNumber) || fileNumber < 1) return null;
+  const postUrls = await getPostUrls(siteUrl, fileNumber - 1);
+  if (postUrls.length === 0) return null;
+  return xmlResponse(buildUrlSet(postUrls));
+}
@@ -0,0 +1,70 @@
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+// Server-side Supabase helpers shared by the services and server actions. The service role client
+// bypasses RLS, so it must never be imported from client components; public reads go through
+// the client in supabase-client.ts instead.
+
+// Helper function to validate HTTP/HTTPS URL format
+export function isValidHttpUrl(string: string | undefined | null): boolean {
+  if (!string) return false;
+  try {
+    const url = new URL(string);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch (_) {
+    return false;
+  }
+}
+
+// Helper function to create a Supabase admin client (uses service_role key)
+export function getSupabaseAdminClient(): SupabaseClient {
+  const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!supabaseUrl || supabaseUrl.trim() === '' || supabaseUrl === 'your_supabase_project_url_here' || !isValidHttpUrl(supabaseUrl)) {
+    throw new Error(
+      `CRITICAL: NEXT_PUBLIC_SUPABASE_URL is not defined, is a placeholder, or is invalid for admin client. Please check environment variables. Current value: "${supabaseUrl}"`
+    );
+  }
+  if (!supabaseServiceRoleKey || supabaseServiceRoleKey.trim() === '' || supabaseServiceRoleKey === 'your_supabase_service_role_key_here' || supabaseServiceRoleKey.length < 50) { // Basic length check
+    throw new Error(
+      `CRITICAL: SUPABASE_SERVICE_ROLE_KEY is not defined, is a placeholder, or is invalid for admin actions. Please check environment variables.`
+    );
+  }
+  return createClient(supabaseUrl, supabaseServiceRoleKey, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+      detectSessionInUrl: false
+    }
+  });
+}
+
+interface SupabaseErrorContext {
+  table: string; // Named in the fallback message, since a missing table is the usual cause
+  uniqueViolation?: string; // Message for a duplicate key (23505), e.g. a username that is taken
+  foreignKeyViolation?: string; // Message for a missing referenced row (23503)
+}
+
+// Builds a service's formatter for Supabase errors, turning them into messages for the admin UI
+export function createSupabaseErrorFormatter(context: SupabaseErrorContext): (supabaseError: any) => string {
+  return (supabaseError: any): string => {
+    if (!supabaseError) return "An unknown error occurred with the database operation.";
+
+    if (context.uniqueViolation && supabaseError.code === '23505') {
+      return context.uniqueViolation;
+    }
+    if (context.foreignKeyViolation && supabaseError.code === '23503') {
+      return context.foreignKeyViolation;
+    }
+    if (supabaseError.details && typeof supabaseError.details === 'string' && supabaseError.details.trim() !== "") {
+      return supabaseError.details;
+    }
+    if (supabaseError.message && typeof supabaseError.message === 'string' && supabaseError.message.trim() !== "") {
+      return supabaseError.message;
+    }
+    if (supabaseError.hint && typeof supabaseError.hint === 'string' && supabaseError.hint.trim() !== "") {
+      return supabaseError.hint;
+    }
+    return `Supabase database operation failed. Ensure the '${context.table}' table exists and SUPABASE_SERVICE_ROLE_KEY is set. Inspect server logs for the raw error.`;
+  };
+}
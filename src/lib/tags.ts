@@ -0,0 +1,14 @@
+// URLs of the tag archive pages under /tags/[tag]. Tags are stored lowercased by the post actions.
+
+export function getTagHref(tag: string): string {
+  return `/tags/${encodeURIComponent(tag.toLowerCase())}`;
+}
+
+// The tag from a `/tags/[tag]` route segment
+export function decodeTagParam(rawTag: string): string {
+  try {
+    return decodeURIComponent(rawTag).toLowerCase();
+  } catch (_) {
+    return rawTag.toLowerCase(); // Malformed escape sequence; use as-is
+  }
+}
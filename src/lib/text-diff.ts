@@ -0,0 +1,112 @@
+
+/**
+ * Token-level diff (Myers' O(ND) algorithm) used to compare post revisions.
+ * Pure and dependency-free, so it runs in client components as well as on the server.
+ */
+
+export type DiffChunkType = 'equal' | 'insert' | 'delete';
+
+export interface DiffChunk {
+  type: DiffChunkType;
+  value: string;
+}
+
+// Past this many stored trace entries the edit is treated as a full replacement instead of
+// being diffed, so comparing two unrelated revisions can't exhaust memory.
+const MAX_TRACE_ENTRIES = 20_000_000;
+
+// Tags, words and whitespace runs, so markup changes show up separately from text changes
+export function tokenizeHtml(html: string): string[] {
+  return html.match(/<[^>]*>|[^<\s]+|\s+/g) || [];
+}
+
+export function tokenizeText(text: string): string[] {
+  return text.match(/\S+|\s+/g) || [];
+}
+
+function myersDiff(before: string[], after: string[]): DiffChunk[] {
+  const n = before.length;
+  const m = after.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  let found = false;
+  for (let d = 0; d <= max && !found; d++) {
+    if ((d + 1) * v.length > MAX_TRACE_ENTRIES) {
+      return [
+        ...before.map(value => ({ type: 'delete' as const, value })),
+        ...after.map(value => ({ type: 'insert' as const, value })),
+      ];
+    }
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1] // Move down: insertion
+        : v[offset + k - 1] + 1; // Move right: deletion
+      let y = x - k;
+      while (x < n && y < m && before[x] === after[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+
+  // Walk the trace backwards from the end to recover the edit script
+  const chunks: DiffChunk[] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const previousX = previous[offset + previousK];
+    const previousY = previousX - previousK;
+    while (x > previousX && y > previousY) {
+      chunks.push({ type: 'equal', value: before[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) chunks.push({ type: 'insert', value: after[y - 1] });
+      else chunks.push({ type: 'delete', value: before[x - 1] });
+    }
+    x = previousX;
+    y = previousY;
+  }
+  return chunks.reverse();
+}
+
+function mergeChunks(chunks: DiffChunk[]): DiffChunk[] {
+  const merged: DiffChunk[] = [];
+  for (const chunk of chunks) {
+    const last = merged[merged.length - 1];
+    if (last && last.type === chunk.type) last.value += chunk.value;
+    else merged.push({ ...chunk });
+  }
+  return merged;
+}
+
+export function diffTokens(before: string[], after: string[]): DiffChunk[] {
+  // Trim the common prefix and suffix first; edits are usually small and local
+  let start = 0;
+  while (start < before.length && start < after.length && before[start] === after[start]) start++;
+  let endBefore = before.length;
+  let endAfter = after.length;
+  while (endBefore > start && endAfter > start && before[endBefore - 1] === after[endAfter - 1]) {
+    endBefore--;
+    endAfter--;
+  }
+
+  return mergeChunks([
+    ...before.slice(0, start).map(value => ({ type: 'equal' as const, value })),
+    ...myersDiff(before.slice(start, endBefore), after.slice(start, endAfter)),
+    ...before.slice(endBefore).map(value => ({ type: 'equal' as const, value })),
+  ]);
+}
@@ -0,0 +1,107 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Time-based one-time passwords (RFC 6238) for admin two-factor sign-in, compatible with
+ * Google Authenticator, 1Password, Authy and similar apps: HMAC-SHA1, 6 digits, 30 second steps.
+ * Secrets are exchanged as unpadded base32, the format those apps expect in otpauth:// URLs.
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const SECRET_BYTES = 20; // 160 bits, as recommended by RFC 4226
+const STEP_SECONDS = 30;
+const CODE_DIGITS = 6;
+const RECOVERY_CODE_COUNT = 10;
+
+function base32Encode(bytes: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+function base32Decode(value: string): Buffer {
+  const cleaned = value.toUpperCase().replace(/=+$/, '').replace(/\s+/g, '');
+  let bits = 0;
+  let buffer = 0;
+  const bytes: number[] = [];
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error('Invalid base32 character in TOTP secret.');
+    buffer = (buffer << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const digest = createHmac('sha1', secret).update(counter).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = (digest.readUInt32BE(offset) & 0x7fffffff) % 10 ** CODE_DIGITS;
+  return String(binary).padStart(CODE_DIGITS, '0');
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(SECRET_BYTES));
+}
+
+// The URL an authenticator app reads from the enrollment QR code
+export function buildOtpAuthUrl(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: String(CODE_DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Checks a code against the current time step and one step either side, to allow for clock
+ * drift. Returns the matched step, or null. Steps at or before `lastUsedStep` are rejected,
+ * so a code that has already been used can't be replayed.
+ */
+export function verifyTotpCode(secret: string, code: string, lastUsedStep?: number | null): number | null {
+  const normalized = code.replace(/\s+/g, '');
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const key = base32Decode(secret);
+  const currentStep = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (const step of [currentStep - 1, currentStep, currentStep + 1]) {
+    if (lastUsedStep != null && step <= lastUsedStep) continue;
+    if (timingSafeEqual(Buffer.from(generateCode(key, step)), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+// Single-use codes like "3f9a1-c07d2", shown to the user once and stored only as hashes
+export function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const hex = randomBytes(5).toString('hex');
+    return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+  });
+}
+
+// Recovery codes are random, so a fast hash is enough; input is normalized so dashes and case don't matter
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[^0-9a-f]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
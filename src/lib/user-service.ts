@@ -0,0 +1,408 @@
+
+import type { User, UserRole } from '@/types';
+import { type SupabaseClient } from '@supabase/supabase-js';
+import { createSupabaseErrorFormatter, getSupabaseAdminClient } from './supabase-admin';
+import { hashPassword, isPasswordHash, verifyPassword } from './password-hash';
+import * as settingsService from './settings-service';
+import { generateRecoveryCodes, generateTotpSecret, hashRecoveryCode, verifyTotpCode } from './totp';
+
+// Expected table: public.admin_users (id uuid primary key default gen_random_uuid(), username text not null unique,
+// display_name text not null, role text not null check (role in ('admin','editor','author','moderator')),
+// password_hash text not null, disabled boolean not null default false, created_at timestamptz default now(),
+// totp_secret text null, totp_enabled boolean not null default false, totp_last_used_step bigint null,
+// recovery_code_hashes text[] not null default '{}')
+// Admin-only: no anon RLS policy; every query goes through the service role client.
+
+export const USER_ROLES: UserRole[] = ['admin', 'editor', 'author', 'moderator'];
+
+const formatSupabaseError = createSupabaseErrorFormatter({
+  table: 'admin_users',
+  uniqueViolation: 'A user with that username already exists.',
+});
+
+// Never includes the password hash or any two-factor secrets
+const USER_COLUMNS = 'id, username, display_name, role, disabled, totp_enabled, created_at';
+
+const mapDbRowToUser = (row: any): User => {
+  return {
+    id: String(row.id),
+    username: row.username,
+    displayName: row.display_name || row.username,
+    role: USER_ROLES.includes(row.role) ? row.role : 'author',
+    disabled: !!row.disabled,
+    twoFactorEnabled: !!row.totp_enabled,
+    createdAt: row.created_at,
+  };
+};
+
+export const getAllUsers = async (): Promise<User[]> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in getAllUsers:', e.message);
+    return [];
+  }
+
+  const { data, error } = await adminSupabase
+    .from('admin_users')
+    .select(USER_COLUMNS)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching users:', JSON.stringify(error, null, 2));
+    return [];
+  }
+  return data.map(mapDbRowToUser);
+};
+
+export const getUserById = async (userId: string): Promise<User | undefined> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { data, error } = await adminSupabase
+    .from('admin_users')
+    .select(USER_COLUMNS)
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') { // Row not found
+      console.error('Error fetching user by ID:', JSON.stringify(error, null, 2));
+    }
+    return undefined;
+  }
+  return mapDbRowToUser(data);
+};
+
+export const getUserByUsername = async (username: string): Promise<User | undefined> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { data, error } = await adminSupabase
+    .from('admin_users')
+    .select(USER_COLUMNS)
+    .eq('username', username)
+    .single();
+
+  if (error) {
+    if (error.code !== 'PGRST116') { // Row not found
+      console.error('Error fetching user by username:', JSON.stringify(error, null, 2));
+    }
+    return undefined;
+  }
+  return mapDbRowToUser(data);
+};
+
+// Number of accounts, optionally of one role. Throws on a lookup failure so callers
+// can't mistake an unreachable database for an empty one.
+export const countUsers = async (options: { role?: UserRole; includeDisabled?: boolean } = {}): Promise<number> => {
+  const adminSupabase = getSupabaseAdminClient();
+  let query = adminSupabase.from('admin_users').select('id', { count: 'exact', head: true });
+  if (options.role) query = query.eq('role', options.role);
+  if (!options.includeDisabled) query = query.eq('disabled', false);
+
+  const { count, error } = await query;
+  if (error) {
+    console.error('Error counting users:', JSON.stringify(error, null, 2));
+    throw new Error(`Could not count users. ${formatSupabaseError(error)}`);
+  }
+  return count ?? 0;
+};
+
+export interface NewUserInput {
+  username: string;
+  displayName: string;
+  role: UserRole;
+  password: string; // Plaintext, or an existing hash when importing an account
+}
+
+export const createUser = async (input: NewUserInput): Promise<User> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in createUser:', e.message);
+    throw new Error(`Configuration error preventing user creation: ${e.message}`);
+  }
+
+  const { data, error } = await adminSupabase
+    .from('admin_users')
+    .insert({
+      username: input.username,
+      display_name: input.displayName,
+      role: input.role,
+      password_hash: isPasswordHash(input.password) ? input.password : await hashPassword(input.password),
+      disabled: false,
+      created_at: new Date().toISOString(),
+    })
+    .select(USER_COLUMNS)
+    .single();
+
+  if (error) {
+    console.error('Error creating user (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not create user. ${formatSupabaseError(error)}`);
+  }
+  return mapDbRowToUser(data);
+};
+
+export interface UserUpdateInput {
+  displayName?: string;
+  role?: UserRole;
+  disabled?: boolean;
+  password?: string; // Plaintext; replaced by its hash
+}
+
+export const updateUser = async (userId: string, changes: UserUpdateInput): Promise<User | undefined> => {
+  let adminSupabase: SupabaseClient;
+  try {
+    adminSupabase = getSupabaseAdminClient();
+  } catch (e: any) {
+    console.error('Failed to initialize Supabase admin client in updateUser:', e.message);
+    throw new Error(`Configuration error preventing user update: ${e.message}`);
+  }
+
+  const userToUpdate: { [key: string]: any } = {};
+  if (changes.displayName !== undefined) userToUpdate.display_name = changes.displayName;
+  if (changes.role !== undefined) userToUpdate.role = changes.role;
+  if (changes.disabled !== undefined) userToUpdate.disabled = changes.disabled;
+  if (changes.password) userToUpdate.password_hash = await hashPassword(changes.password);
+
+  if (Object.keys(userToUpdate).length === 0) {
+    return getUserById(userId);
+  }
+
+  const { data, error } = await adminSupabase
+    .from('admin_users')
+    .update(userToUpdate)
+    .eq('id', userId)
+    .select(USER_COLUMNS)
+    .single();
+
+  if (error) {
+    if (error.code === 'PGRST116') return undefined;
+    console.error('Error updating user (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not update user. ${formatSupabaseError(error)}`);
+  }
+  return mapDbRowToUser(data);
+};
+
+export const deleteUser = async (userId: string): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { error } = await adminSupabase
+    .from('admin_users')
+    .delete()
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error deleting user (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not delete user. ${formatSupabaseError(error)}`);
+  }
+};
+
+// Compared against when the username is unknown, so a failed login takes the same time either way
+let dummyPasswordHash: Promise<string> | null = null;
+
+// The enabled user with these credentials, or null
+export const verifyCredentials = async (username: string, password: string): Promise<User | null> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { data, error } = await adminSupabase
+    .from('admin_users')
+    .select(`${USER_COLUMNS}, password_hash`)
+    .eq('username', username)
+    .single();
+
+  if (error && error.code !== 'PGRST116') {
+    console.error('Error looking up user for sign-in:', JSON.stringify(error, null, 2));
+    throw new Error(`Could not verify credentials. ${formatSupabaseError(error)}`);
+  }
+
+  if (!data) {
+    dummyPasswordHash ??= hashPassword('not-a-real-password');
+    await verifyPassword(password, await dummyPasswordHash);
+    return null;
+  }
+
+  const isValidPassword = await verifyPassword(password, data.password_hash);
+  if (!isValidPassword || data.disabled) return null;
+  return mapDbRowToUser(data);
+};
+
+/**
+ * Moves the single admin account from site settings (adminUsername/adminPassword) into the
+ * users table as an admin, keeping its password hash, and then clears it from settings.
+ * Safe to call repeatedly; it does nothing once the settings credentials are gone.
+ */
+export const migrateLegacyAdminAccount = async (): Promise<void> => {
+  const settings = await settingsService.getSettings();
+  const legacyUsername = settings.adminUsername?.trim();
+  if (!legacyUsername || !settings.adminPassword) return;
+
+  const existingUser = await getUserByUsername(legacyUsername);
+  if (!existingUser) {
+    await createUser({
+      username: legacyUsername,
+      displayName: legacyUsername,
+      role: 'admin',
+      password: settings.adminPassword, // Already hashed by the settings migration; hashed here otherwise
+    });
+    console.log(`Moved the site settings admin account "${legacyUsername}" into the users table.`);
+  }
+  await settingsService.updateSettings({ adminUsername: '', adminPassword: '' });
+};
+
+const TWO_FACTOR_COLUMNS = 'totp_secret, totp_enabled, totp_last_used_step, recovery_code_hashes';
+
+async function getTwoFactorState(adminSupabase: SupabaseClient, userId: string) {
+  const { data, error } = await adminSupabase
+    .from('admin_users')
+    .select(TWO_FACTOR_COLUMNS)
+    .eq('id', userId)
+    .single();
+
+  if (error) {
+    console.error('Error fetching two-factor state (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not load two-factor settings. ${formatSupabaseError(error)}`);
+  }
+  return {
+    secret: (data.totp_secret as string | null) || null,
+    enabled: !!data.totp_enabled,
+    lastUsedStep: data.totp_last_used_step == null ? null : Number(data.totp_last_used_step),
+    recoveryCodeHashes: (data.recovery_code_hashes as string[] | null) || [],
+  };
+}
+
+// Stores a new, not yet active secret and returns it for the enrollment QR code.
+// Two-factor sign-in only starts once completeTwoFactorEnrollment confirms a code from it.
+export const beginTwoFactorEnrollment = async (userId: string): Promise<string> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const state = await getTwoFactorState(adminSupabase, userId);
+  if (state.enabled) {
+    throw new Error('Two-factor authentication is already enabled. Disable it first to enroll a new device.');
+  }
+
+  const secret = generateTotpSecret();
+  const { error } = await adminSupabase
+    .from('admin_users')
+    .update({ totp_secret: secret, totp_last_used_step: null, recovery_code_hashes: [] })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error storing two-factor secret (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not start two-factor enrollment. ${formatSupabaseError(error)}`);
+  }
+  return secret;
+};
+
+// Turns two-factor sign-in on once the user proves their app generates valid codes.
+// Returns the recovery codes (shown once), or null when the code is wrong.
+export const completeTwoFactorEnrollment = async (userId: string, code: string): Promise<string[] | null> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const state = await getTwoFactorState(adminSupabase, userId);
+  if (state.enabled) {
+    throw new Error('Two-factor authentication is already enabled.');
+  }
+  if (!state.secret) {
+    throw new Error('No two-factor enrollment is in progress. Start again from the QR code step.');
+  }
+
+  const step = verifyTotpCode(state.secret, code);
+  if (step === null) return null;
+
+  const recoveryCodes = generateRecoveryCodes();
+  const { error } = await adminSupabase
+    .from('admin_users')
+    .update({
+      totp_enabled: true,
+      totp_last_used_step: step,
+      recovery_code_hashes: recoveryCodes.map(hashRecoveryCode),
+    })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error enabling two-factor authentication (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not enable two-factor authentication. ${formatSupabaseError(error)}`);
+  }
+  return recoveryCodes;
+};
+
+/**
+ * Checks a second-factor code at sign-in: a 6-digit code from the authenticator app, or one of
+ * the recovery codes, which is used up. App codes can't be replayed either: the step of the last
+ * accepted code is stored, and only a later one is accepted.
+ */
+export const verifyTwoFactorCode = async (userId: string, code: string): Promise<'totp' | 'recovery' | null> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const state = await getTwoFactorState(adminSupabase, userId);
+  if (!state.enabled || !state.secret) return null;
+
+  const step = verifyTotpCode(state.secret, code, state.lastUsedStep);
+  if (step !== null) {
+    // Conditional on the previous step, so two concurrent sign-ins can't both use the same code
+    let update = adminSupabase
+      .from('admin_users')
+      .update({ totp_last_used_step: step })
+      .eq('id', userId);
+    update = state.lastUsedStep === null ? update.is('totp_last_used_step', null) : update.eq('totp_last_used_step', state.lastUsedStep);
+    const { data, error } = await update.select('id');
+    if (error) {
+      console.error('Error recording used two-factor code (raw Supabase error):', JSON.stringify(error, null, 2));
+      throw new Error(`Could not verify the code. ${formatSupabaseError(error)}`);
+    }
+    return data && data.length > 0 ? 'totp' : null;
+  }
+
+  const codeHash = hashRecoveryCode(code);
+  if (!/^[0-9a-f]{10}$/i.test(code.replace(/[\s-]/g, '')) || !state.recoveryCodeHashes.includes(codeHash)) {
+    return null;
+  }
+  // Conditional on the list being the one read above (same hashes, compared as sets), so two
+  // concurrent sign-ins can't both use the code and a concurrent regeneration isn't overwritten
+  const { data, error } = await adminSupabase
+    .from('admin_users')
+    .update({ recovery_code_hashes: state.recoveryCodeHashes.filter(hash => hash !== codeHash) })
+    .eq('id', userId)
+    .contains('recovery_code_hashes', state.recoveryCodeHashes)
+    .containedBy('recovery_code_hashes', state.recoveryCodeHashes)
+    .select('id');
+  if (error) {
+    console.error('Error using recovery code (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not verify the code. ${formatSupabaseError(error)}`);
+  }
+  return data && data.length > 0 ? 'recovery' : null;
+};
+
+// Replaces all recovery codes, e.g. after most have been used up. Returns the new codes.
+export const regenerateRecoveryCodes = async (userId: string): Promise<string[]> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const state = await getTwoFactorState(adminSupabase, userId);
+  if (!state.enabled) {
+    throw new Error('Two-factor authentication is not enabled.');
+  }
+
+  const recoveryCodes = generateRecoveryCodes();
+  const { error } = await adminSupabase
+    .from('admin_users')
+    .update({ recovery_code_hashes: recoveryCodes.map(hashRecoveryCode) })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error replacing recovery codes (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not create new recovery codes. ${formatSupabaseError(error)}`);
+  }
+  return recoveryCodes;
+};
+
+export const getRemainingRecoveryCodeCount = async (userId: string): Promise<number> => {
+  const state = await getTwoFactorState(getSupabaseAdminClient(), userId);
+  return state.enabled ? state.recoveryCodeHashes.length : 0;
+};
+
+export const disableTwoFactor = async (userId: string): Promise<void> => {
+  const adminSupabase = getSupabaseAdminClient();
+  const { error } = await adminSupabase
+    .from('admin_users')
+    .update({ totp_secret: null, totp_enabled: false, totp_last_used_step: null, recovery_code_hashes: [] })
+    .eq('id', userId);
+
+  if (error) {
+    console.error('Error disabling two-factor authentication (raw Supabase error):', JSON.stringify(error, null, 2));
+    throw new Error(`Could not disable two-factor authentication. ${formatSupabaseError(error)}`);
+  }
+};
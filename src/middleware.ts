@@ -1,20 +1,59 @@
 
 import { type NextRequest, NextResponse } from 'next/server';
-import { cookies } from 'next/headers';
-// Import settings.json directly using a relative path from src/ to data/
-// This is generally more robust for Edge middleware.
-import settingsData from '../data/settings.json';
+import { SESSION_COOKIE_NAME } from './lib/session-token';
+import { validateSession } from './lib/session-service';
+import { getAdminAuthConfig } from './lib/admin-config';
+import {
+  CSP_NONCE_HEADER,
+  buildContentSecurityPolicy,
+  buildReportingEndpointsHeader,
+  generateCspNonce,
+  getCspConfig,
+  getCspHeaderName,
+} from './lib/csp';
 
-const SESSION_COOKIE_NAME = 'newstoday-adminsession';
+const FIRST_ADMIN_SETUP_PATH = '/admin/users';
 
 export async function middleware(request: NextRequest) {
+  // A fresh nonce per request. Next.js reads it back from the policy on the request headers for
+  // its own scripts; the root layout reads x-nonce for the injected header/footer scripts.
+  const cspConfig = await getCspConfig();
+  const nonce = generateCspNonce();
+  const policy = cspConfig.mode === 'off' ? null : buildContentSecurityPolicy(nonce, cspConfig.scriptSources);
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(CSP_NONCE_HEADER, nonce);
+  if (policy) {
+    requestHeaders.set(getCspHeaderName(cspConfig.mode), policy);
+  }
+
+  const response = await routeRequest(request, requestHeaders);
+  if (policy) {
+    response.headers.set(getCspHeaderName(cspConfig.mode), policy);
+    response.headers.set('Reporting-Endpoints', buildReportingEndpointsHeader(request.nextUrl.origin));
+  }
+  return response;
+}
+
+async function routeRequest(request: NextRequest, requestHeaders: Headers): Promise<NextResponse> {
   const { pathname } = request.nextUrl;
+  const next = () => NextResponse.next({ request: { headers: requestHeaders } });
+
+  // Public pages don't need the session, so only look it up for the login and admin routes
+  if (pathname !== '/login' && !pathname.startsWith('/admin')) {
+    return next();
+  }
 
-  // Directly use the imported settings data
-  const currentSettings = settingsData;
-  const isAdminConfigured = currentSettings.adminUsername && currentSettings.adminUsername.trim() !== '';
-  const sessionCookie = cookies().get(SESSION_COOKIE_NAME);
-  const isAuthenticated = sessionCookie && sessionCookie.value === 'true';
+  // Live admin configuration, read from the same tables as user-service and settings-service.
+  // If it can't be read, admin access is assumed configured so the gate fails closed.
+  const sessionToken = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const [adminConfig, session] = await Promise.all([
+    getAdminAuthConfig(),
+    validateSession(sessionToken),
+  ]);
+  const isAdminConfigured = adminConfig ? adminConfig.isConfigured : true;
+  // Sessions are revoked when a user is disabled, deleted or changes password, so an active one is enough here.
+  // Role checks happen in the admin pages and server actions.
+  const isAuthenticated = !!session;
 
   // Allow access to /login page
   if (pathname === '/login') {
@@ -22,15 +61,19 @@ export async function middleware(request: NextRequest) {
     if (isAuthenticated) {
       return NextResponse.redirect(new URL('/admin', request.url));
     }
-    return NextResponse.next(); // Allow access to login page if not logged in
+    const response = next(); // Allow access to login page if not logged in
+    if (sessionToken && !session) {
+      response.cookies.delete(SESSION_COOKIE_NAME); // Expired or revoked
+    }
+    return response;
   }
 
   if (pathname.startsWith('/admin')) {
-    if (pathname === '/admin/settings') {
-      // If admin is not configured, allow access to settings page to set them up.
-      // Otherwise, require authentication for the settings page.
+    if (pathname === FIRST_ADMIN_SETUP_PATH) {
+      // Until an admin account exists, the users page is open so the first one can be created.
+      // Otherwise, require authentication for it.
       if (!isAdminConfigured) {
-        return NextResponse.next();
+        return next();
       }
       if (!isAuthenticated) {
         const loginUrl = new URL('/login', request.url);
@@ -40,12 +83,12 @@ export async function middleware(request: NextRequest) {
       }
     } else {
       // For all other /admin routes
-      // First, check if admin is configured. If not, redirect to settings to force setup.
+      // First, check if admin is configured. If not, redirect to the users page to force setup.
       if (!isAdminConfigured) {
-        const settingsUrl = new URL('/admin/settings', request.url);
+        const setupUrl = new URL(FIRST_ADMIN_SETUP_PATH, request.url);
         // Preserve the original destination in query params for redirect after setup
-        settingsUrl.searchParams.set('callbackUrl', pathname);
-        return NextResponse.redirect(settingsUrl);
+        setupUrl.searchParams.set('callbackUrl', pathname);
+        return NextResponse.redirect(setupUrl);
       }
       // If admin is configured, then require authentication.
       if (!isAuthenticated) {
@@ -56,7 +99,7 @@ export async function middleware(request: NextRequest) {
     }
   }
 
-  return NextResponse.next();
+  return next();
 }
 
 export const config = {
@@ -1,13 +1,163 @@
 
+export type PostStatus = 'draft' | 'scheduled' | 'published' | 'archived';
+
 export interface Post {
   id: string;
   slug: string;
   title: string;
-  date: string; // ISO string format
+  date: string; // ISO string format. For scheduled posts this is the go-live time.
   content: string;
   tags: string[];
   thumbnailUrl?: string;
   viewCount?: number; // Added view count
+  status: PostStatus;
+  publishAt?: string; // ISO string; when a scheduled post becomes public, or when it was published
+  authorId?: string; // User who created the post; unset for posts from before user accounts
+  authorName?: string; // Display name of the author, kept in sync when the user is renamed
+  updatedAt?: string; // ISO string; last edit. Unset for posts not edited since the column was added.
+  seoTitle?: string; // Replaces the headline in the page title and share cards
+  seoDescription?: string; // Replaces the excerpt in the meta description and share cards
+  // Imported posts credit the article they came from on the post page
+  sourceUrl?: string;
+  sourceAuthor?: string;
+  sourcePublishedAt?: string; // ISO string; when the original article was published
+}
+
+// Post without its HTML body, as returned by list queries
+export type PostSummary = Omit<Post, 'content'>;
+
+// Snapshot of a post's editable fields, stored each time the post is saved
+export interface PostRevision {
+  id: string;
+  postId: string;
+  title: string;
+  slug: string;
+  content: string;
+  tags: string[];
+  status: PostStatus;
+  author: string;
+  createdAt: string; // ISO string format
+  note?: string; // e.g. "Restored from revision of ..."
+}
+
+export type UserRole = 'admin' | 'editor' | 'author' | 'moderator';
+
+// An account that can sign in to /admin. The password hash never leaves user-service.
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  disabled: boolean;
+  twoFactorEnabled: boolean; // Sign-in also asks for a TOTP or recovery code
+  createdAt: string; // ISO string format
+}
+
+export interface AdminSession {
+  id: string;
+  username: string;
+  createdAt: string; // ISO string format
+  expiresAt: string; // ISO string format
+  revokedAt?: string;
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// 'pending' while the credentials are being checked; see login-attempt-service
+export type LoginAttemptOutcome = 'pending' | 'success' | 'invalid_credentials' | 'invalid_two_factor' | 'throttled';
+
+// One sign-in attempt, kept for throttling and for the dashboard's login audit
+export interface LoginAttempt {
+  id: string;
+  username: string; // As entered, lowercased
+  outcome: LoginAttemptOutcome;
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: string; // ISO string format
+}
+
+export type AuditAction =
+  | 'post.create'
+  | 'post.update'
+  | 'post.restore_revision'
+  | 'post.delete'
+  | 'comment.status'
+  | 'comment.reply'
+  | 'comment.delete'
+  | 'settings.update'
+  | 'auth.login'
+  | 'auth.login_failed'
+  | 'auth.logout'
+  | 'auth.revoke_all_sessions'
+  | 'user.create'
+  | 'user.update'
+  | 'user.delete'
+  | 'user.reset_two_factor'
+  | 'account.enable_two_factor'
+  | 'account.disable_two_factor'
+  | 'account.regenerate_recovery_codes'
+  | 'site_rule.create'
+  | 'site_rule.update'
+  | 'site_rule.delete';
+
+export type AuditTargetType = 'post' | 'comment' | 'settings' | 'user' | 'session' | 'site_rule';
+
+// One field's value before and after a change, already shortened for display
+export interface AuditChange {
+  field: string;
+  before: string | null;
+  after: string | null;
+}
+
+// Who did what to which record, written by every mutating admin action
+export interface AuditEntry {
+  id: string;
+  actorId?: string; // Missing for failed sign-ins and for accounts deleted since
+  actorName: string; // Username at the time of the action
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId?: string;
+  targetLabel?: string; // E.g. the post title, kept in case the target is deleted later
+  summary?: string;
+  changes: AuditChange[];
+  ipAddress?: string;
+  createdAt: string; // ISO string format
+}
+
+export type CspMode = 'enforce' | 'report-only' | 'off';
+
+// A Content Security Policy violation posted by a browser to /api/csp-report, reduced to what is stored
+export interface CspViolationReport {
+  directive: string; // The violated directive, e.g. "script-src-elem"
+  blockedUri: string; // Origin of the blocked resource, or a keyword such as "inline" or "eval"
+  documentUri?: string; // Page path the violation happened on
+  sourceFile?: string;
+  lineNumber?: number;
+  disposition: 'enforce' | 'report';
+}
+
+// How sure the post importer is that it extracted the article, and only the article
+export interface ScrapeConfidence {
+  score: number; // 0 to 1
+  level: 'high' | 'medium' | 'low';
+  notes: string[]; // What lowered the score, shown to the editor
+}
+
+// Built-in post-processing steps a site rule can turn on (see lib/scraper-hooks)
+export type ScraperHookName = 'lazy-images' | 'strip-links' | 'strip-inline-styles' | 'drop-leading-heading' | 'unwrap-layout';
+
+// How the post importer (/api/scrape) extracts articles from one site
+export interface ScraperSiteRule {
+  id: string;
+  hostname: string; // Also covers subdomains; the most specific rule for a host wins
+  contentSelectors: string[]; // Tried in order before the built-in selectors
+  removeSelectors: string[]; // Removed from the content
+  useDefaultRemovals: boolean; // Also remove the built-in list of navigation, ad and share widgets
+  titleSelectors: string[]; // Tried before og:title and <title>
+  imageSelectors: string[]; // Tried before og:image
+  hooks: ScraperHookName[];
+  notes?: string;
+  updatedAt: string; // ISO string format
 }
 
 export interface SiteSettings {
@@ -15,9 +165,10 @@ export interface SiteSettings {
   siteDescription: string;
   postsPerPage: number;
   siteLogoUrl?: string; // Added for site logo
-  // Local Admin Auth
+  // Legacy single-admin credentials. Moved into the users table as an admin account on first
+  // login (see user-service), after which both are cleared.
   adminUsername?: string;
-  adminPassword?: string; // WARNING: Stored in plaintext for local demo only. NOT SECURE.
+  adminPassword?: string; // Salted scrypt hash (see lib/password-hash); legacy plaintext values are migrated on first read
   // Global Header Scripts
   globalHeaderScriptsEnabled?: boolean;
   globalHeaderScriptsCustomHtml?: string;
@@ -31,6 +182,24 @@ export interface SiteSettings {
   bannerImageLink?: string;
   bannerImageAltText?: string;
   bannerCustomHtml?: string;
+  // Comment Spam Filtering
+  commentBannedWords?: string; // Comma- or newline-separated; matching comments are rejected
+  commentMaxLinks?: number; // Comments with more links are held for review
+  commentRateLimitPerHour?: number; // Per IP; 0 disables the limit
+  commentAiModerationEnabled?: boolean;
+  // Feeds
+  feedFullContent?: boolean; // Whole articles in RSS/Atom items; otherwise a plain-text excerpt only
+  // Search Engines
+  robotsAllowIndexing?: boolean; // false serves "Disallow: /" for everything, e.g. on a staging site
+  robotsTxtCustomRules?: string; // Extra robots.txt lines; /admin and /login are always disallowed
+  // Post Content
+  trustedEmbedHosts?: string; // Comma- or newline-separated iframe hosts kept by the post sanitizer, on top of YouTube and Vimeo
+  // Content Security Policy (see lib/csp)
+  cspMode?: CspMode;
+  cspScriptSources?: string; // Newline-separated script sources allowed besides this site, e.g. https://www.googletagmanager.com
+  // Post Import (/api/scrape, see lib/safe-fetch)
+  scrapeAllowedDomains?: string; // Comma- or newline-separated; when set, only these sites (and subdomains) can be imported
+  scrapeBlockedDomains?: string; // Comma- or newline-separated; never fetched, including their images
 }
 
 export interface Comment {
@@ -43,4 +212,9 @@ export interface Comment {
   content: string;
   date: string; // ISO string
   status: 'pending' | 'approved' | 'rejected';
+  parentId?: string; // Set for replies; undefined for top-level comments
+  depth: number; // 0 for top-level comments, parent's depth + 1 for replies
+  isAdminReply?: boolean; // Rendered with an author badge
+  flaggedBy?: string; // Name of the spam filter that held or rejected the comment
+  flagReason?: string;
 }